@@ -2,6 +2,7 @@ import React from 'react';
 import { HashRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { useToast } from './hooks/useToast';
+import { UserService } from './services/userService';
 import ToastContainer from './components/UI/ToastContainer';
 import BottomNav from './components/Layout/BottomNav';
 import Login from './pages/Login';
@@ -9,6 +10,10 @@ import LocationSetup from './pages/LocationSetup';
 import Home from './pages/Home';
 import ProviderDetails from './pages/ProviderDetails';
 import Enquiries from './pages/Enquiries';
+import Search from './pages/Search';
+import Wishlist from './pages/Wishlist';
+import Bookings from './pages/Bookings';
+import Profile from './pages/Profile';
 import ProviderOnboarding from './pages/Provider/Onboarding';
 import ProviderDashboard from './pages/Provider/Dashboard';
 import SimpleOnboarding from './pages/Provider/SimpleOnboarding';
@@ -16,6 +21,8 @@ import DebugLogin from './pages/DebugLogin';
 import AdminLogin from './pages/AdminLogin';
 import AdminDashboard from './pages/Admin/Dashboard';
 import AddProvider from './pages/Admin/AddProvider';
+import AdminLocations from './pages/Admin/Locations';
+import AdminModeration from './pages/Admin/Moderation';
 import ProviderLogin from './pages/Provider/Login';
 import ProviderSignup from './pages/Provider/Signup';
 
@@ -62,9 +69,42 @@ function ProviderRoute({ children }: { children: React.ReactNode }) {
 }
 
 function AdminRoute({ children }: { children: React.ReactNode }) {
-  const adminAuth = localStorage.getItem('adminAuth');
-  
-  if (!adminAuth) {
+  const { user, supabaseUser, isLoading } = useAuth();
+  const [adminCheck, setAdminCheck] = React.useState<{ userId: string; isAdmin: boolean } | null>(null);
+
+  // Demo sessions come from localStorage and never count, whatever role they claim
+  const sessionUserId = !localStorage.getItem('demoUser') && supabaseUser ? supabaseUser.id : null;
+  const claimsAdmin = Boolean(sessionUserId) && user?.role === 'admin';
+
+  React.useEffect(() => {
+    if (!sessionUserId || !claimsAdmin) return;
+
+    let cancelled = false;
+    UserService.isAdmin()
+      .then(isAdmin => {
+        if (!cancelled) setAdminCheck({ userId: sessionUserId, isAdmin });
+      })
+      .catch(() => {
+        if (!cancelled) setAdminCheck({ userId: sessionUserId, isAdmin: false });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionUserId, claimsAdmin]);
+
+  if (isLoading || (claimsAdmin && adminCheck?.userId !== sessionUserId)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!claimsAdmin || !adminCheck?.isAdmin) {
     return <Navigate to="/admin/login" replace />;
   }
 
@@ -141,6 +181,16 @@ function AppContent() {
             <AddProvider />
           </AdminRoute>
         } />
+        <Route path="/admin/locations" element={
+          <AdminRoute>
+            <AdminLocations />
+          </AdminRoute>
+        } />
+        <Route path="/admin/moderation" element={
+          <AdminRoute>
+            <AdminModeration />
+          </AdminRoute>
+        } />
         
         {/* Debug Route - Remove in production */}
         <Route path="/debug-login" element={<DebugLogin />} />
@@ -171,6 +221,18 @@ function AppContent() {
           </ProtectedRoute>
         } />
 
+        <Route path="/bookings" element={
+          <ProtectedRoute>
+            <Bookings />
+          </ProtectedRoute>
+        } />
+
+        <Route path="/search" element={
+          <ProtectedRoute>
+            <Search />
+          </ProtectedRoute>
+        } />
+
         {/* Provider Routes */}
         <Route path="/provider/onboarding" element={
           <ProviderRoute>
@@ -199,37 +261,15 @@ function AppContent() {
           )
         } />
         
-        {/* Placeholder routes */}
-        <Route path="/search" element={
-          <ProtectedRoute>
-            <div className="min-h-screen bg-gray-50 flex items-center justify-center pb-16">
-              <div className="text-center">
-                <h1 className="text-2xl font-bold text-gray-900 mb-4">Search</h1>
-                <p className="text-gray-600">Advanced search coming soon...</p>
-              </div>
-            </div>
-          </ProtectedRoute>
-        } />
-        
         <Route path="/wishlist" element={
           <ProtectedRoute>
-            <div className="min-h-screen bg-gray-50 flex items-center justify-center pb-16">
-              <div className="text-center">
-                <h1 className="text-2xl font-bold text-gray-900 mb-4">Wishlist</h1>
-                <p className="text-gray-600">Your saved providers will appear here...</p>
-              </div>
-            </div>
+            <Wishlist />
           </ProtectedRoute>
         } />
         
         <Route path="/profile" element={
           <ProtectedRoute>
-            <div className="min-h-screen bg-gray-50 flex items-center justify-center pb-16">
-              <div className="text-center">
-                <h1 className="text-2xl font-bold text-gray-900 mb-4">Profile</h1>
-                <p className="text-gray-600">Profile settings coming soon...</p>
-              </div>
-            </div>
+            <Profile />
           </ProtectedRoute>
         } />
 
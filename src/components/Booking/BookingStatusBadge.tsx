@@ -0,0 +1,16 @@
+import { BookingStatus, bookingStatusLabels } from '../../services/bookingService';
+
+const statusStyles: Record<BookingStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  completed: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
+
+export default function BookingStatusBadge({ status }: { status: BookingStatus }) {
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+      {bookingStatusLabels[status]}
+    </span>
+  );
+}
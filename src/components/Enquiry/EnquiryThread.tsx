@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Send, CheckCheck } from 'lucide-react';
+import { useEnquiryThread } from '../../hooks/useEnquiries';
+import { EnquiryParticipant } from '../../services/enquiryService';
+import Button from '../UI/Button';
+
+interface EnquiryThreadProps {
+  enquiryId: string;
+  viewerRole: EnquiryParticipant;
+  canReply: boolean;
+  onRead?: () => void;
+  onSent?: () => void;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function EnquiryThread({ enquiryId, viewerRole, canReply, onRead, onSent }: EnquiryThreadProps) {
+  const { messages, loading, error, sendMessage } = useEnquiryThread(enquiryId, viewerRole, onRead);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const accent = viewerRole === 'parent' ? 'purple' : 'blue';
+  const lastOwnMessage = [...messages].reverse().find(message => message.sender_role === viewerRole);
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    try {
+      setIsSending(true);
+      await sendMessage(body);
+      setDraft('');
+      onSent?.();
+    } catch {
+      // The hook exposes the error below the composer
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-4 text-center text-sm text-gray-500">Loading conversation...</div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {messages.map(message => {
+          const isOwn = message.sender_role === viewerRole;
+          return (
+            <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] rounded-lg px-3 py-2 ${
+                  isOwn
+                    ? accent === 'purple' ? 'bg-purple-600 text-white' : 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                <p className={`text-xs mt-1 ${isOwn ? 'text-white/75' : 'text-gray-500'}`}>
+                  {formatTime(message.created_at)}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {lastOwnMessage?.read_at && (
+        <p className="flex items-center justify-end space-x-1 text-xs text-gray-500">
+          <CheckCheck className="w-3 h-3" />
+          <span>Seen {formatTime(lastOwnMessage.read_at)}</span>
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {canReply ? (
+        <div className="flex items-end space-x-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={2}
+            placeholder="Write a message..."
+            className={`flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:border-transparent resize-none ${
+              accent === 'purple' ? 'focus:ring-purple-500' : 'focus:ring-blue-500'
+            }`}
+          />
+          <Button onClick={handleSend} disabled={!draft.trim() || isSending} size="sm">
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 text-center">This enquiry is closed.</p>
+      )}
+    </div>
+  );
+}
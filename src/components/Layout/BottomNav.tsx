@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, Search, Heart, MessageCircle, User } from 'lucide-react';
+import { Home, Search, Heart, MessageCircle, Calendar, User } from 'lucide-react';
 
 export default function BottomNav() {
   const location = useLocation();
@@ -10,12 +10,13 @@ export default function BottomNav() {
     { to: '/search', label: 'Search', icon: Search },
     { to: '/wishlist', label: 'Wishlist', icon: Heart },
     { to: '/enquiries', label: 'Enquiries', icon: MessageCircle },
+    { to: '/bookings', label: 'Bookings', icon: Calendar },
     { to: '/profile', label: 'Profile', icon: User },
   ];
 
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 z-50">
-      <div className="grid grid-cols-5">
+      <div className="grid grid-cols-6">
         {navItems.map(({ to, label, icon: Icon }) => (
           <Link
             key={to}
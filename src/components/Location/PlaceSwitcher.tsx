@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, ChevronDown, MapPin, Plus } from 'lucide-react';
+import { useSavedPlaces } from '../../hooks/useSavedPlaces';
+import { useToast } from '../../hooks/useToast';
+import { SavedPlace } from '../../types';
+
+interface PlaceSwitcherProps {
+  label: string;
+}
+
+export default function PlaceSwitcher({ label }: PlaceSwitcherProps) {
+  const { places, activeLabel, switchPlace } = useSavedPlaces();
+  const { showError } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [switching, setSwitching] = useState(false);
+
+  const handleSwitch = async (place: SavedPlace) => {
+    setIsOpen(false);
+    if (place.label === activeLabel) return;
+
+    try {
+      setSwitching(true);
+      await switchPlace(place);
+    } catch (err) {
+      showError('Location Not Changed', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={places.length === 0 || switching}
+        className="flex items-center space-x-2 text-left"
+      >
+        <MapPin className="w-4 h-4 text-purple-600" />
+        <div>
+          <p className="text-xs text-gray-500">
+            {activeLabel ? `Browsing from ${activeLabel}` : "You're browsing in"}
+          </p>
+          <p className="font-medium text-gray-900 flex items-center">
+            {label}
+            {places.length > 0 && <ChevronDown className="w-4 h-4 ml-1 text-gray-500" />}
+          </p>
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-20">
+          {places.map(place => (
+            <button
+              key={place.id || place.label}
+              onClick={() => handleSwitch(place)}
+              className="w-full flex items-center justify-between p-3 text-left border-b border-gray-100 hover:bg-gray-50"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900">{place.label}</p>
+                <p className="text-xs text-gray-500">{place.area}, {place.city}</p>
+              </div>
+              {place.label === activeLabel && <Check className="w-4 h-4 text-purple-600" />}
+            </button>
+          ))}
+          <Link to="/location" className="flex items-center p-3 text-sm font-medium text-purple-600 hover:bg-gray-50">
+            <Plus className="w-4 h-4 mr-2" />
+            Add a place
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Bell } from 'lucide-react';
+import { useNotifications } from '../../hooks/useNotifications';
+
+interface NotificationBellProps {
+  accent?: 'purple' | 'blue';
+}
+
+export default function NotificationBell({ accent = 'purple' }: NotificationBellProps) {
+  const { notifications, unreadCount, markAllRead } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleToggle = () => {
+    // Opening the list counts as seeing everything in it
+    if (!isOpen && unreadCount > 0) {
+      markAllRead();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={handleToggle} className="relative p-2 text-gray-600 hover:text-gray-900" title="Notifications">
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span
+            className={`absolute -top-0.5 -right-0.5 min-w-[1.25rem] px-1 text-xs font-medium text-white rounded-full ${
+              accent === 'purple' ? 'bg-purple-600' : 'bg-blue-600'
+            }`}
+          >
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white rounded-lg shadow-lg border border-gray-200 z-20">
+          {notifications.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500 text-center">No notifications yet</p>
+          ) : (
+            notifications.map(notification => (
+              <div key={notification.id} className="p-3 border-b border-gray-100 last:border-b-0">
+                <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                <p className="text-sm text-gray-600">{notification.message}</p>
+                <p className="text-xs text-gray-400 mt-1">{new Date(notification.created_at).toLocaleString()}</p>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
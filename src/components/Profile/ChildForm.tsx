@@ -0,0 +1,128 @@
+import { FormEvent, useState } from 'react';
+import { ChildDetails } from '../../hooks/useChildren';
+import { useTaxonomy } from '../../hooks/useTaxonomy';
+import { Child } from '../../types';
+import Button from '../UI/Button';
+
+interface ChildFormProps {
+  child?: Child;
+  onSave: (details: ChildDetails) => Promise<unknown>;
+  onCancel: () => void;
+}
+
+const inputClasses = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+export default function ChildForm({ child, onSave, onCancel }: ChildFormProps) {
+  const { topCategories } = useTaxonomy();
+  const [name, setName] = useState(child?.name || '');
+  const [dateOfBirth, setDateOfBirth] = useState(child?.dateOfBirth || '');
+  const [interests, setInterests] = useState<string[]>(child?.interests || []);
+  const [notes, setNotes] = useState(child?.notes || '');
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const toggleInterest = (categoryId: string) => {
+    setInterests(prev => prev.includes(categoryId)
+      ? prev.filter(id => id !== categoryId)
+      : [...prev, categoryId]
+    );
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !dateOfBirth) {
+      setFormError('Please enter a name and date of birth');
+      return;
+    }
+    if (dateOfBirth > today) {
+      setFormError('Date of birth cannot be in the future');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setFormError(null);
+      await onSave({ name, dateOfBirth, interests, notes });
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not save. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClasses}
+          required
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Date of Birth *</label>
+        <input
+          type="date"
+          value={dateOfBirth}
+          max={today}
+          onChange={(e) => setDateOfBirth(e.target.value)}
+          className={inputClasses}
+          required
+        />
+        {child && !child.dateOfBirth && (
+          <p className="text-xs text-gray-500 mt-1">Add a date of birth so {child.name}'s age stays up to date.</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Interests</label>
+        <div className="flex flex-wrap gap-2">
+          {topCategories.map(category => (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => toggleInterest(category.id)}
+              className={`flex items-center space-x-1 px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
+                interests.includes(category.id)
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-white text-gray-600 border border-gray-200'
+              }`}
+            >
+              <span>{category.icon}</span>
+              <span>{category.name}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+          placeholder="Allergies, learning needs or anything providers should know"
+          className={`${inputClasses} resize-none`}
+        />
+      </div>
+
+      {formError && <p className="text-sm text-red-500">{formError}</p>}
+
+      <div className="flex space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving} className="flex-1">
+          {saving ? 'Saving...' : child ? 'Save Changes' : 'Add Child'}
+        </Button>
+      </div>
+    </form>
+  );
+}
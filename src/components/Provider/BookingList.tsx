@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { Calendar, Phone, CheckCircle, X } from 'lucide-react';
+import { bookingStatusLabels, bookingTransitions, BookingStatus, ProviderBooking } from '../../services/bookingService';
+import Card from '../UI/Card';
+import Button from '../UI/Button';
+import BookingStatusBadge from '../Booking/BookingStatusBadge';
+
+interface BookingListProps {
+  bookings: ProviderBooking[];
+  loading: boolean;
+  onUpdateStatus: (bookingId: string, status: BookingStatus) => Promise<unknown>;
+}
+
+const confirmMessages: Partial<Record<BookingStatus, string>> = {
+  cancelled: 'Cancel this booking? The parent will be notified.',
+  completed: 'Mark this booking as completed? It cannot be changed afterwards.'
+};
+
+export default function BookingList({ bookings, loading, onUpdateStatus }: BookingListProps) {
+  const [statusFilter, setStatusFilter] = useState<BookingStatus | 'all'>('all');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<{ bookingId: string; message: string } | null>(null);
+
+  const filteredBookings = bookings.filter(booking =>
+    statusFilter === 'all' || booking.status === statusFilter
+  );
+
+  const handleUpdate = async (bookingId: string, status: BookingStatus) => {
+    const message = confirmMessages[status];
+    if (message && !confirm(message)) return;
+
+    try {
+      setBusyId(bookingId);
+      setActionError(null);
+      await onUpdateStatus(bookingId, status);
+    } catch (err) {
+      setActionError({ bookingId, message: err instanceof Error ? err.message : 'Something went wrong' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading bookings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2">
+        {(['all', 'pending', 'confirmed', 'completed', 'cancelled'] as const).map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${
+              statusFilter === status
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-600 border border-gray-200'
+            }`}
+          >
+            {status === 'all' ? 'All' : bookingStatusLabels[status]}
+          </button>
+        ))}
+      </div>
+
+      {filteredBookings.length === 0 && (
+        <Card className="p-12 text-center">
+          <Calendar className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {bookings.length === 0 ? 'No bookings yet' : 'No matching bookings'}
+          </h3>
+          <p className="text-gray-600">
+            {bookings.length === 0
+              ? 'Booking requests from parents will appear here.'
+              : 'Try a different status.'}
+          </p>
+        </Card>
+      )}
+
+      {filteredBookings.map(booking => (
+        <Card key={booking.id} className="p-6">
+          <div className="flex items-start justify-between mb-3">
+            <div>
+              <h3 className="font-semibold text-gray-900">
+                {booking.child_name}, age {booking.child_age}
+              </h3>
+              <p className="text-sm text-gray-600">
+                {booking.provider_classes?.name || 'Class removed'}
+                {booking.enquiries?.parent_name && ` • Parent: ${booking.enquiries.parent_name}`}
+              </p>
+            </div>
+            <BookingStatusBadge status={booking.status} />
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-3">
+            {booking.enquiries?.parent_phone && (
+              <span className="flex items-center space-x-1">
+                <Phone className="w-4 h-4" />
+                <span>{booking.enquiries.parent_phone}</span>
+              </span>
+            )}
+            {booking.start_date && (
+              <span className="flex items-center space-x-1">
+                <Calendar className="w-4 h-4" />
+                <span>Starts {new Date(booking.start_date).toLocaleDateString()}</span>
+              </span>
+            )}
+            {booking.total_amount !== null && (
+              <span>₹{booking.total_amount} • Payment {booking.payment_status}</span>
+            )}
+            <span>Requested {new Date(booking.created_at).toLocaleDateString()}</span>
+          </div>
+
+          {booking.notes && (
+            <p className="text-sm text-gray-700 bg-gray-50 rounded-lg p-3 mb-3">{booking.notes}</p>
+          )}
+
+          {actionError?.bookingId === booking.id && (
+            <p className="text-sm text-red-500 mb-3">{actionError.message}</p>
+          )}
+
+          {bookingTransitions[booking.status].length > 0 && (
+            <div className="flex justify-end space-x-2">
+              {bookingTransitions[booking.status].includes('confirmed') && (
+                <Button size="sm" onClick={() => handleUpdate(booking.id, 'confirmed')} disabled={busyId === booking.id}>
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Confirm
+                </Button>
+              )}
+              {bookingTransitions[booking.status].includes('completed') && (
+                <Button size="sm" onClick={() => handleUpdate(booking.id, 'completed')} disabled={busyId === booking.id}>
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Mark Completed
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleUpdate(booking.id, 'cancelled')}
+                disabled={busyId === booking.id}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+}
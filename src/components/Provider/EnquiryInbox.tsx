@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { MessageSquare, Phone, Mail, Send, X } from 'lucide-react';
+import { ProviderEnquiry } from '../../services/providerService';
+import Card from '../UI/Card';
+import Button from '../UI/Button';
+import EnquiryThread from '../Enquiry/EnquiryThread';
+
+type EnquiryStatus = ProviderEnquiry['status'];
+
+interface EnquiryInboxProps {
+  enquiries: ProviderEnquiry[];
+  classes: { id: string; name: string }[];
+  loading: boolean;
+  unreadCounts: Record<string, number>;
+  onReply: (enquiryId: string, message: string) => Promise<unknown>;
+  onClose: (enquiryId: string) => Promise<unknown>;
+  onRead: (enquiryId: string) => void;
+  onReplied: (enquiryId: string) => void;
+}
+
+const statusStyles: Record<EnquiryStatus, string> = {
+  sent: 'bg-yellow-100 text-yellow-800',
+  responded: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-800'
+};
+
+const statusLabels: Record<EnquiryStatus, string> = {
+  sent: 'Awaiting reply',
+  responded: 'Replied',
+  closed: 'Closed'
+};
+
+export default function EnquiryInbox({
+  enquiries,
+  classes,
+  loading,
+  unreadCounts,
+  onReply,
+  onClose,
+  onRead,
+  onReplied
+}: EnquiryInboxProps) {
+  const [statusFilter, setStatusFilter] = useState<EnquiryStatus | 'all'>('all');
+  const [classFilter, setClassFilter] = useState('');
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<{ enquiryId: string; message: string } | null>(null);
+
+  const filteredEnquiries = enquiries.filter(enquiry =>
+    (statusFilter === 'all' || enquiry.status === statusFilter) &&
+    (!classFilter || enquiry.interested_class_id === classFilter)
+  );
+
+  const runAction = async (enquiryId: string, action: () => Promise<unknown>) => {
+    try {
+      setBusyId(enquiryId);
+      setActionError(null);
+      await action();
+      return true;
+    } catch (err) {
+      setActionError({ enquiryId, message: err instanceof Error ? err.message : 'Something went wrong' });
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReply = async (enquiryId: string) => {
+    const message = drafts[enquiryId]?.trim();
+    if (!message) return;
+
+    if (await runAction(enquiryId, () => onReply(enquiryId, message))) {
+      setDrafts(prev => ({ ...prev, [enquiryId]: '' }));
+    }
+  };
+
+  const handleClose = (enquiryId: string) => {
+    if (!confirm('Mark this enquiry as closed? The parent will no longer be able to reply.')) return;
+    runAction(enquiryId, () => onClose(enquiryId));
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading enquiries...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex space-x-2">
+          {(['all', 'sent', 'responded', 'closed'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                statusFilter === status
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-600 border border-gray-200'
+              }`}
+            >
+              {status === 'all' ? 'All' : statusLabels[status]}
+            </button>
+          ))}
+        </div>
+        <select
+          value={classFilter}
+          onChange={(e) => setClassFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">All courses</option>
+          {classes.map(cls => (
+            <option key={cls.id} value={cls.id}>{cls.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {filteredEnquiries.length === 0 && (
+        <Card className="p-12 text-center">
+          <MessageSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {enquiries.length === 0 ? 'No enquiries yet' : 'No matching enquiries'}
+          </h3>
+          <p className="text-gray-600">
+            {enquiries.length === 0
+              ? "Parents' enquiries about your courses will appear here."
+              : 'Try a different status or course.'}
+          </p>
+        </Card>
+      )}
+
+      {filteredEnquiries.map(enquiry => (
+        <Card key={enquiry.id} className="p-6">
+          <div className="flex items-start justify-between mb-3">
+            <div>
+              <h3 className="font-semibold text-gray-900">
+                {enquiry.parent_name}
+                {unreadCounts[enquiry.id] > 0 && (
+                  <span className="ml-2 px-2 py-0.5 bg-blue-600 text-white text-xs font-medium rounded-full">
+                    {unreadCounts[enquiry.id]} new
+                  </span>
+                )}
+              </h3>
+              <p className="text-sm text-gray-600">
+                {enquiry.child_name}, age {enquiry.child_age} • Interested in{' '}
+                <span className="font-medium">{enquiry.provider_classes?.name || 'your courses'}</span>
+              </p>
+            </div>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[enquiry.status]}`}>
+              {statusLabels[enquiry.status]}
+            </span>
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-3">
+            <span className="flex items-center space-x-1">
+              <Phone className="w-4 h-4" />
+              <span>{enquiry.parent_phone}</span>
+            </span>
+            {enquiry.parent_email && (
+              <span className="flex items-center space-x-1">
+                <Mail className="w-4 h-4" />
+                <span>{enquiry.parent_email}</span>
+              </span>
+            )}
+            <span>Received {new Date(enquiry.created_at).toLocaleDateString()}</span>
+          </div>
+
+          {openThreadId === enquiry.id ? (
+            <div className="border-t border-gray-100 pt-4">
+              <EnquiryThread
+                enquiryId={enquiry.id}
+                viewerRole="provider"
+                canReply={enquiry.status !== 'closed'}
+                onRead={() => onRead(enquiry.id)}
+                onSent={() => onReplied(enquiry.id)}
+              />
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-700 bg-gray-50 rounded-lg p-3 line-clamp-2">{enquiry.message}</p>
+
+              {enquiry.status !== 'closed' && (
+                <div className="flex items-center space-x-2 mt-3">
+                  <input
+                    type="text"
+                    value={drafts[enquiry.id] || ''}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [enquiry.id]: e.target.value }))}
+                    onKeyDown={(e) => e.key === 'Enter' && handleReply(enquiry.id)}
+                    placeholder="Quick reply..."
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => handleReply(enquiry.id)}
+                    disabled={!drafts[enquiry.id]?.trim() || busyId === enquiry.id}
+                  >
+                    <Send className="w-4 h-4 mr-1" />
+                    Reply
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+
+          {actionError?.enquiryId === enquiry.id && (
+            <p className="text-sm text-red-500 mt-2">{actionError.message}</p>
+          )}
+
+          <div className="flex items-center justify-between mt-3">
+            <button
+              onClick={() => setOpenThreadId(openThreadId === enquiry.id ? null : enquiry.id)}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              {openThreadId === enquiry.id ? 'Hide conversation' : 'Open conversation'}
+            </button>
+            {enquiry.status !== 'closed' && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleClose(enquiry.id)}
+                disabled={busyId === enquiry.id}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Mark Closed
+              </Button>
+            )}
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { Heart, ChevronRight, Clock } from 'lucide-react';
+import { Provider } from '../../types';
+import { formatTimeRange, weekdayLabels } from '../../utils/schedule';
+import Card from '../UI/Card';
+import Button from '../UI/Button';
+import StarRating from '../UI/StarRating';
+
+interface ProviderCardProps {
+  provider: Provider;
+  distanceLabel: string;
+  availability?: { label: string; open: boolean };
+  isWishlisted?: boolean;
+  onToggleWishlist?: () => void;
+}
+
+export default function ProviderCard({
+  provider,
+  distanceLabel,
+  availability,
+  isWishlisted = false,
+  onToggleWishlist
+}: ProviderCardProps) {
+  // Set when the list is filtered by day/time; matching classes come first
+  const matchingClasses = provider.classes.filter(cls => cls.matchingSlots && cls.matchingSlots.length > 0);
+
+  return (
+    <Card hover className="p-4">
+      <div className="flex space-x-4">
+        {/* Provider Image */}
+        <div className="relative flex-shrink-0">
+          <img
+            src={provider.images[0]}
+            alt={provider.name}
+            className="w-20 h-20 rounded-xl object-cover"
+          />
+          {provider.isVerified && (
+            <div className="absolute -top-1 -right-1 w-6 h-6 bg-green-500 rounded-full flex items-center justify-center">
+              <span className="text-white text-xs">✓</span>
+            </div>
+          )}
+        </div>
+
+        {/* Provider Info */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between mb-2">
+            <div className="flex-1">
+              <h4 className="font-semibold text-gray-900 truncate">
+                {provider.name}
+              </h4>
+              <p className="text-sm text-gray-600 line-clamp-2 mt-1">
+                {provider.description}
+              </p>
+            </div>
+            {onToggleWishlist && (
+              <button
+                onClick={onToggleWishlist}
+                className="ml-2 p-1"
+                aria-pressed={isWishlisted}
+                title={isWishlisted ? 'Remove from wishlist' : 'Save to wishlist'}
+              >
+                <Heart className={`w-5 h-5 ${isWishlisted ? 'text-red-500 fill-red-500' : 'text-gray-400'}`} />
+              </button>
+            )}
+          </div>
+
+          {/* Tags */}
+          <div className="flex flex-wrap gap-1 mb-2">
+            {provider.tags.slice(0, 3).map(tag => (
+              <span
+                key={tag}
+                className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-full"
+              >
+                {tag}
+              </span>
+            ))}
+          </div>
+
+          {matchingClasses.length > 0 && (
+            <div className="mb-2 space-y-1">
+              {matchingClasses.slice(0, 2).map(cls => (
+                <div key={cls.id} className="flex flex-wrap items-center gap-1 text-xs">
+                  <Clock className="w-3 h-3 text-green-700" />
+                  <span className="text-gray-700 font-medium mr-1">{cls.name}</span>
+                  {(cls.matchingSlots || []).map(slot => (
+                    <span
+                      key={`${slot.weekday}-${slot.start}`}
+                      className="px-2 py-0.5 bg-green-100 text-green-800 rounded-full"
+                    >
+                      {weekdayLabels[slot.weekday]} {formatTimeRange(slot.start, slot.end)}
+                    </span>
+                  ))}
+                </div>
+              ))}
+              {matchingClasses.length > 2 && (
+                <p className="text-xs text-gray-500">+{matchingClasses.length - 2} more matching classes</p>
+              )}
+            </div>
+          )}
+
+          {availability && (
+            <p className={`text-xs font-medium mb-2 ${availability.open ? 'text-green-700' : 'text-gray-500'}`}>
+              {availability.label}
+            </p>
+          )}
+
+          {/* Rating and Distance */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="flex items-center space-x-1">
+                <StarRating rating={provider.averageRating || 0} size="sm" />
+                <span className="text-sm font-medium text-gray-900">
+                  {provider.averageRating ? provider.averageRating.toFixed(1) : '–'}
+                </span>
+                <span className="text-sm text-gray-500">
+                  ({provider.totalReviews || 0})
+                </span>
+              </div>
+              <span className="text-sm text-gray-500">
+                {distanceLabel}
+              </span>
+            </div>
+
+            {provider.priceRange && (
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">
+                  ₹{provider.priceRange.min}-{provider.priceRange.max}
+                </p>
+                <p className="text-xs text-gray-500">per session</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Action Button */}
+      <div className="mt-4 pt-4 border-t border-gray-100">
+        <Button
+          to={`/provider/${provider.id}`}
+          variant="outline"
+          className="w-full group"
+        >
+          <span>View Details & Enquire</span>
+          <ChevronRight className="ml-2 w-4 h-4 group-hover:translate-x-1 transition-transform" />
+        </Button>
+      </div>
+    </Card>
+  );
+}
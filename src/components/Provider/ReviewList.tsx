@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+import { Review } from '../../types';
+import Card from '../UI/Card';
+import Button from '../UI/Button';
+import StarRating from '../UI/StarRating';
+
+interface ReviewListProps {
+  reviews: Review[];
+  loading: boolean;
+  onReply: (reviewId: string, reply: string) => Promise<unknown>;
+}
+
+export default function ReviewList({ reviews, loading, onReply }: ReviewListProps) {
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [replyError, setReplyError] = useState<string | null>(null);
+
+  const startReply = (review: Review) => {
+    setReplyingId(review.id);
+    setReplyText(review.reply || '');
+    setReplyError(null);
+  };
+
+  const handleReply = async (reviewId: string) => {
+    try {
+      setBusy(true);
+      setReplyError(null);
+      await onReply(reviewId, replyText);
+      setReplyingId(null);
+    } catch (err) {
+      setReplyError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading reviews...</p>
+      </div>
+    );
+  }
+
+  if (reviews.length === 0) {
+    return (
+      <Card className="p-12 text-center">
+        <Star className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No reviews yet</h3>
+        <p className="text-gray-600">Parents can review you once a booking is completed.</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {reviews.map(review => (
+        <Card key={review.id} className="p-6">
+          <div className="flex items-start justify-between mb-2">
+            <div>
+              <h3 className="font-semibold text-gray-900">
+                {review.parentName} <span className="font-normal text-gray-500">for {review.childName}</span>
+              </h3>
+              <StarRating rating={review.rating} size="sm" />
+            </div>
+            <span className="text-sm text-gray-500">{review.createdAt.toLocaleDateString()}</span>
+          </div>
+
+          {review.comment && <p className="text-sm text-gray-700 mb-3">{review.comment}</p>}
+
+          {replyingId === review.id ? (
+            <div className="space-y-2">
+              <textarea
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                placeholder="Your reply is shown publicly under the review"
+              />
+              {replyError && <p className="text-sm text-red-500">{replyError}</p>}
+              <div className="flex justify-end space-x-2">
+                <Button size="sm" variant="outline" onClick={() => setReplyingId(null)} disabled={busy}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={() => handleReply(review.id)} disabled={!replyText.trim() || busy}>
+                  {busy ? 'Posting...' : 'Post Reply'}
+                </Button>
+              </div>
+            </div>
+          ) : review.reply ? (
+            <div className="bg-gray-50 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-xs font-medium text-gray-900">
+                  Your reply
+                  {review.repliedAt && (
+                    <span className="font-normal text-gray-500"> • {review.repliedAt.toLocaleDateString()}</span>
+                  )}
+                </p>
+                <button onClick={() => startReply(review)} className="text-xs text-blue-600 hover:text-blue-700">
+                  Edit
+                </button>
+              </div>
+              <p className="text-sm text-gray-700">{review.reply}</p>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button size="sm" variant="outline" onClick={() => startReply(review)}>
+                Reply
+              </Button>
+            </div>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { ClassSchedule, ScheduleSlot, Weekday } from '../../types';
+import { WEEKDAYS, scheduleTimezones, weekdayLabels } from '../../utils/schedule';
+
+interface ScheduleEditorProps {
+  value: ClassSchedule;
+  onChange: (schedule: ClassSchedule) => void;
+  error?: string | null;
+}
+
+const inputClasses = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export default function ScheduleEditor({ value, onChange, error }: ScheduleEditorProps) {
+  const isFixedPeriod = Boolean(value.start_date || value.end_date);
+  const timezones = scheduleTimezones.includes(value.timezone)
+    ? scheduleTimezones
+    : [value.timezone, ...scheduleTimezones];
+
+  const updateSlot = (index: number, changes: Partial<ScheduleSlot>) => {
+    onChange({
+      ...value,
+      slots: value.slots.map((slot, i) => i === index ? { ...slot, ...changes } : slot)
+    });
+  };
+
+  const addSlot = () => {
+    // Start from the last session so adding "the same time on another day" is one change
+    const last = value.slots[value.slots.length - 1];
+    const nextDay = last ? WEEKDAYS[(WEEKDAYS.indexOf(last.weekday) + 1) % WEEKDAYS.length] : 'mon';
+    onChange({
+      ...value,
+      slots: [...value.slots, { weekday: nextDay, start: last?.start || '16:00', end: last?.end || '17:00' }]
+    });
+  };
+
+  const removeSlot = (index: number) => {
+    onChange({ ...value, slots: value.slots.filter((_, i) => i !== index) });
+  };
+
+  const toggleFixedPeriod = (checked: boolean) => {
+    onChange({
+      ...value,
+      start_date: checked ? new Date().toISOString().slice(0, 10) : null,
+      end_date: null
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.slots.length === 0 && (
+        <p className="text-sm text-gray-500">No weekly sessions added yet.</p>
+      )}
+
+      {value.slots.map((slot, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <select
+            value={slot.weekday}
+            onChange={(e) => updateSlot(index, { weekday: e.target.value as Weekday })}
+            className={inputClasses}
+            aria-label="Day"
+          >
+            {WEEKDAYS.map(day => (
+              <option key={day} value={day}>{weekdayLabels[day]}</option>
+            ))}
+          </select>
+          <input
+            type="time"
+            value={slot.start}
+            onChange={(e) => updateSlot(index, { start: e.target.value })}
+            className={`${inputClasses} flex-1`}
+            aria-label="Start time"
+            required
+          />
+          <span className="text-gray-500 text-sm">to</span>
+          <input
+            type="time"
+            value={slot.end}
+            onChange={(e) => updateSlot(index, { end: e.target.value })}
+            className={`${inputClasses} flex-1`}
+            aria-label="End time"
+            required
+          />
+          <button
+            type="button"
+            onClick={() => removeSlot(index)}
+            className="p-2 text-gray-400 hover:text-red-600"
+            aria-label="Remove session"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addSlot}
+        className="flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add session
+      </button>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Timezone</label>
+        <select
+          value={value.timezone}
+          onChange={(e) => onChange({ ...value, timezone: e.target.value })}
+          className={`${inputClasses} w-full`}
+        >
+          {timezones.map(zone => (
+            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          id="schedule_fixed_period"
+          checked={isFixedPeriod}
+          onChange={(e) => toggleFixedPeriod(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <label htmlFor="schedule_fixed_period" className="ml-2 text-sm text-gray-700">
+          Runs for a fixed period (e.g. a holiday camp)
+        </label>
+      </div>
+
+      {isFixedPeriod && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="date"
+            value={value.start_date || ''}
+            onChange={(e) => onChange({ ...value, start_date: e.target.value || null })}
+            className={`${inputClasses} flex-1`}
+            aria-label="Start date"
+          />
+          <span className="text-gray-500 text-sm">to</span>
+          <input
+            type="date"
+            value={value.end_date || ''}
+            min={value.start_date || undefined}
+            onChange={(e) => onChange({ ...value, end_date: e.target.value || null })}
+            className={`${inputClasses} flex-1`}
+            aria-label="End date"
+          />
+        </div>
+      )}
+
+      {value.note && (
+        <p className="text-xs text-gray-500">
+          Previously listed as "{value.note}". Add sessions above to replace it.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
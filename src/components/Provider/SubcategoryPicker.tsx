@@ -0,0 +1,44 @@
+import { useTaxonomy } from '../../hooks/useTaxonomy';
+
+interface SubcategoryPickerProps {
+  // Chosen categories at any level; subcategories are offered under each chosen category
+  selected: string[];
+  onToggle: (categoryId: string) => void;
+}
+
+export default function SubcategoryPicker({ selected, onToggle }: SubcategoryPickerProps) {
+  const { getCategory, getSubcategories } = useTaxonomy();
+
+  const parents = selected
+    .map(categoryId => getCategory(categoryId))
+    .filter(category => category && getSubcategories(category.id).length > 0);
+
+  if (parents.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">Narrow down what you teach (optional)</p>
+      {parents.map(parent => parent && (
+        <div key={parent.id}>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">{parent.icon} {parent.serviceName}</h4>
+          <div className="flex flex-wrap gap-2">
+            {getSubcategories(parent.id).map(subcategory => (
+              <button
+                key={subcategory.id}
+                type="button"
+                onClick={() => onToggle(subcategory.id)}
+                className={`px-3 py-1.5 rounded-full text-sm border transition-all ${
+                  selected.includes(subcategory.id)
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                }`}
+              >
+                {subcategory.icon} {subcategory.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
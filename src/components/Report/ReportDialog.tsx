@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../hooks/useToast';
+import { reportReasonLabels, ReportService } from '../../services/reportService';
+import { ReportReason, ReportTargetType } from '../../types';
+import Button from '../UI/Button';
+
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  // What is being reported, e.g. "this review"
+  subject: string;
+  onClose: () => void;
+}
+
+export default function ReportDialog({ targetType, targetId, subject, onClose }: ReportDialogProps) {
+  const { user } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    // Demo sessions have no account to report from
+    if (localStorage.getItem('demoUser')) {
+      showSuccess('Report Sent', 'Thanks for letting us know. Our team will take a look.');
+      onClose();
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      if (!user?._id) throw new Error('User not authenticated');
+
+      await ReportService.createReport({
+        targetType,
+        targetId,
+        reason,
+        details,
+        reporterId: user._id
+      });
+
+      showSuccess('Report Sent', 'Thanks for letting us know. Our team will take a look.');
+      onClose();
+    } catch (err) {
+      console.error('❌ Error sending report:', err);
+      showError('Report Not Sent', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[80vh] overflow-y-auto">
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">Report {subject}</h3>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="space-y-2">
+            {(Object.keys(reportReasonLabels) as ReportReason[]).map(option => (
+              <label
+                key={option}
+                className={`flex items-center space-x-3 p-3 border rounded-lg cursor-pointer ${
+                  reason === option ? 'border-purple-500 bg-purple-50' : 'border-gray-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="report-reason"
+                  value={option}
+                  checked={reason === option}
+                  onChange={() => setReason(option)}
+                  className="text-purple-600 focus:ring-purple-500"
+                />
+                <span className="text-sm text-gray-900">{reportReasonLabels[option]}</span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Details (optional)
+            </label>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+              placeholder="Anything that will help our team look into it"
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-4">
+            <Button onClick={onClose} variant="outline" className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={!reason || isSubmitting} className="flex-1">
+              {isSubmitting ? 'Sending...' : 'Send Report'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
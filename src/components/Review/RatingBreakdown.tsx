@@ -0,0 +1,49 @@
+import { Review } from '../../types';
+import { getAspectAverages, getRatingDistribution, ratingAspectLabels, ratingAspects } from '../../utils/reviewStats';
+import StarRating from '../UI/StarRating';
+
+interface RatingBreakdownProps {
+  reviews: Review[];
+}
+
+// Star-distribution histogram of the overall ratings, followed by the average of each aspect parents rated
+export default function RatingBreakdown({ reviews }: RatingBreakdownProps) {
+  if (reviews.length === 0) return null;
+
+  const distribution = getRatingDistribution(reviews);
+  const aspectAverages = getAspectAverages(reviews);
+  const ratedAspects = ratingAspects.filter(aspect => aspectAverages[aspect] !== undefined);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        {distribution.map(({ stars, count }) => (
+          <div key={stars} className="flex items-center space-x-2 text-sm">
+            <span className="w-8 text-gray-600">{stars} ★</span>
+            <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-yellow-400 rounded-full"
+                style={{ width: `${(count / reviews.length) * 100}%` }}
+              />
+            </div>
+            <span className="w-6 text-right text-gray-500">{count}</span>
+          </div>
+        ))}
+      </div>
+
+      {ratedAspects.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          {ratedAspects.map(aspect => (
+            <div key={aspect}>
+              <p className="text-xs text-gray-600 mb-1">{ratingAspectLabels[aspect]}</p>
+              <div className="flex items-center space-x-1">
+                <StarRating rating={aspectAverages[aspect] || 0} size="sm" />
+                <span className="text-sm font-medium text-gray-900">{aspectAverages[aspect]?.toFixed(1)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
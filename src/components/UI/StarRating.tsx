@@ -1,4 +1,4 @@
-import React from 'react';
+import { useState } from 'react';
 import { Star } from 'lucide-react';
 
 interface StarRatingProps {
@@ -9,38 +9,67 @@ interface StarRatingProps {
   onRatingChange?: (rating: number) => void;
 }
 
-export default function StarRating({ 
-  rating, 
-  maxRating = 5, 
-  size = 'md', 
+export default function StarRating({
+  rating,
+  maxRating = 5,
+  size = 'md',
   readonly = true,
-  onRatingChange 
+  onRatingChange
 }: StarRatingProps) {
+  const [hoverRating, setHoverRating] = useState(0);
+
   const sizeClasses = {
     sm: 'w-4 h-4',
     md: 'w-5 h-5',
     lg: 'w-6 h-6'
   };
 
+  // Averages such as 4.3 show to the nearest half star; while choosing, the hovered star is previewed
+  const shownRating = Math.round((hoverRating || rating) * 2) / 2;
+
+  const renderStar = (index: number) => (
+    <span className="relative block">
+      <Star
+        className={`${sizeClasses[size]} ${
+          index < Math.floor(shownRating)
+            ? 'text-yellow-400 fill-yellow-400'
+            : 'text-gray-300'
+        }`}
+      />
+      {shownRating - index === 0.5 && (
+        <span className="absolute inset-y-0 left-0 w-1/2 overflow-hidden">
+          <Star className={`${sizeClasses[size]} text-yellow-400 fill-yellow-400`} />
+        </span>
+      )}
+    </span>
+  );
+
+  if (readonly) {
+    return (
+      <div className="flex items-center space-x-1" role="img" aria-label={`Rated ${rating} out of ${maxRating}`}>
+        {Array.from({ length: maxRating }, (_, index) => (
+          <span key={index}>{renderStar(index)}</span>
+        ))}
+      </div>
+    );
+  }
+
   return (
-    <div className="flex items-center space-x-1">
+    <div className="flex items-center space-x-1" role="radiogroup" onMouseLeave={() => setHoverRating(0)}>
       {Array.from({ length: maxRating }, (_, index) => (
         <button
           key={index}
           type="button"
-          disabled={readonly}
-          onClick={() => !readonly && onRatingChange?.(index + 1)}
-          className={`${readonly ? '' : 'cursor-pointer hover:scale-110 transition-transform'}`}
+          role="radio"
+          aria-checked={rating === index + 1}
+          aria-label={`${index + 1} of ${maxRating}`}
+          onClick={() => onRatingChange?.(index + 1)}
+          onMouseEnter={() => setHoverRating(index + 1)}
+          className="cursor-pointer hover:scale-110 transition-transform"
         >
-          <Star
-            className={`${sizeClasses[size]} ${
-              index < rating 
-                ? 'text-yellow-400 fill-yellow-400' 
-                : 'text-gray-300'
-            }`}
-          />
+          {renderStar(index)}
         </button>
       ))}
     </div>
   );
-}
\ No newline at end of file
+}
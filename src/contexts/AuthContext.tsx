@@ -1,8 +1,13 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { ProviderService } from '../services/providerService';
+import { ChildService } from '../services/childService';
+import { PlaceService } from '../services/placeService';
+import { UserService } from '../services/userService';
+import { toChild } from '../utils/childAdapter';
+import { toSavedPlace } from '../utils/placeAdapter';
 import type { User as SupabaseUser } from '@supabase/supabase-js';
-import { User } from '../types';
+import { Child, SavedPlace, User, UserLocation } from '../types';
 
 interface AuthContextType {
   user: User | null;
@@ -10,7 +15,8 @@ interface AuthContextType {
   signUp: (email: string, password: string, userData: Partial<User>) => Promise<void>;
   signInWithPhone: (phone: string) => Promise<void>;
   verifyOtp: (phone: string, otp: string) => Promise<void>;
-  setUserLocation: (location: User['location']) => void;
+  setUserLocation: (location: UserLocation) => Promise<void>;
+  updateUser: (changes: Partial<User>) => void;
   logout: () => void;
   isLoading: boolean;
   supabaseUser: SupabaseUser | null;
@@ -164,12 +170,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Create parent user (or fallback user)
       
       // Create user profile in database for parent users
+      let parentProfile: { email: string; phone: string | null; location: UserLocation | null; role: User['role'] } | null = null;
+      let parentChildren: Child[] = [];
+      let parentPlaces: SavedPlace[] = [];
       if (userRole === 'parent') {
         try {
           // Check if profile already exists
           const { data: existingProfile, error: profileCheckError } = await supabase
             .from('users')
-            .select('id')
+            .select('id, email, phone, location, role')
             .eq('id', userId)
             .single();
           
@@ -195,6 +204,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             }
           } else if (!profileCheckError) {
             // Profile already exists
+            parentProfile = existingProfile;
+            const authEmail = supabaseUserData.user.email;
+            if (authEmail && existingProfile.email !== authEmail) {
+              await UserService.syncEmail(userId, authEmail);
+            }
+            const [childRows, placeRows] = await Promise.all([
+              ChildService.getChildren(userId),
+              PlaceService.getSavedPlaces(userId)
+            ]);
+            parentChildren = childRows.map(toChild);
+            parentPlaces = placeRows.map(toSavedPlace);
           }
         } catch (profileError) {
           // Silently handle profile errors
@@ -206,8 +226,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         id: userId,
         name: supabaseUserData.user.user_metadata?.name || 'User',
         email: supabaseUserData.user.email || '',
-        role: userRole,
-        children: []
+        phone: parentProfile?.phone || undefined,
+        // Admins are granted on the users row, which only admins can change
+        role: parentProfile?.role === 'admin' ? 'admin' as const : userRole,
+        location: parentProfile?.location || undefined,
+        savedPlaces: parentPlaces,
+        children: parentChildren
       };
       
       setUser(newUser);
@@ -321,18 +345,31 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (error) throw error;
   };
 
-  const setUserLocation = (location: User['location']) => {
-    if (user) {
-      const updatedUser = { ...user, location };
-      setUser(updatedUser);
+  // Remembered on the users row so parents are not sent back to /location after a reload
+  const setUserLocation = async (location: UserLocation) => {
+    if (!user) return;
+
+    if (!localStorage.getItem('demoUser')) {
+      await UserService.updateLocation(user._id, location);
     }
+    updateUser({ location });
+  };
+
+  // Keep the session's copy of the profile in step after it was saved elsewhere
+  const updateUser = (changes: Partial<User>) => {
+    setUser(prev => {
+      if (!prev) return prev;
+      const updatedUser = { ...prev, ...changes };
+      if (localStorage.getItem('demoUser')) {
+        localStorage.setItem('demoUser', JSON.stringify(updatedUser));
+      }
+      return updatedUser;
+    });
   };
 
   const logout = async () => {
     // Clear demo user
     localStorage.removeItem('demoUser');
-    localStorage.removeItem('adminAuth');
-    localStorage.removeItem('adminUser');
     setUser(null);
     
     if (supabase) {
@@ -352,6 +389,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       signInWithPhone,
       verifyOtp,
       setUserLocation, 
+      updateUser,
       logout, 
       isLoading 
     }}>
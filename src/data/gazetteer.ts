@@ -0,0 +1,124 @@
+import { Area, City } from '../types';
+
+// Cities and areas the app shipped with, with approximate centroids. The cities and areas
+// tables were seeded from this list; it is still used when they can't be loaded (and in demo mode).
+export const bundledCities: City[] = [
+  { name: 'Delhi', coordinates: { lat: 28.6139, lng: 77.2090 } },
+  { name: 'Mumbai', coordinates: { lat: 19.0760, lng: 72.8777 } },
+  { name: 'Bangalore', coordinates: { lat: 12.9716, lng: 77.5946 } },
+  { name: 'Hyderabad', coordinates: { lat: 17.3850, lng: 78.4867 } },
+  { name: 'Chennai', coordinates: { lat: 13.0827, lng: 80.2707 } },
+  { name: 'Kolkata', coordinates: { lat: 22.5726, lng: 88.3639 } },
+  { name: 'Pune', coordinates: { lat: 18.5204, lng: 73.8567 } },
+  { name: 'Gurgaon', coordinates: { lat: 28.4595, lng: 77.0266 } },
+  { name: 'Noida', coordinates: { lat: 28.5355, lng: 77.3910 } },
+  { name: 'Ahmedabad', coordinates: { lat: 23.0225, lng: 72.5714 } },
+  { name: 'Jaipur', coordinates: { lat: 26.9124, lng: 75.7873 } },
+  { name: 'Lucknow', coordinates: { lat: 26.8467, lng: 80.9462 } }
+];
+
+export const bundledAreas: Area[] = [
+  // Delhi
+  { city: 'Delhi', name: 'Connaught Place', pincode: '110001', coordinates: { lat: 28.6315, lng: 77.2167 } },
+  { city: 'Delhi', name: 'Karol Bagh', pincode: '110005', coordinates: { lat: 28.6514, lng: 77.1907 } },
+  { city: 'Delhi', name: 'Lajpat Nagar', pincode: '110024', coordinates: { lat: 28.5677, lng: 77.2433 } },
+  { city: 'Delhi', name: 'Saket', pincode: '110017', coordinates: { lat: 28.5245, lng: 77.2066 } },
+  { city: 'Delhi', name: 'Dwarka', pincode: '110075', coordinates: { lat: 28.5921, lng: 77.0460 } },
+  { city: 'Delhi', name: 'Rohini', pincode: '110085', coordinates: { lat: 28.7383, lng: 77.0822 } },
+
+  // Mumbai
+  { city: 'Mumbai', name: 'Bandra', pincode: '400050', coordinates: { lat: 19.0596, lng: 72.8295 } },
+  { city: 'Mumbai', name: 'Andheri', pincode: '400053', coordinates: { lat: 19.1136, lng: 72.8697 } },
+  { city: 'Mumbai', name: 'Powai', pincode: '400076', coordinates: { lat: 19.1176, lng: 72.9060 } },
+  { city: 'Mumbai', name: 'Thane', pincode: '400601', coordinates: { lat: 19.2183, lng: 72.9781 } },
+  { city: 'Mumbai', name: 'Navi Mumbai', pincode: '400703', coordinates: { lat: 19.0330, lng: 73.0297 } },
+  { city: 'Mumbai', name: 'Borivali', pincode: '400066', coordinates: { lat: 19.2307, lng: 72.8567 } },
+
+  // Bangalore
+  { city: 'Bangalore', name: 'Koramangala', pincode: '560034', coordinates: { lat: 12.9352, lng: 77.6245 } },
+  { city: 'Bangalore', name: 'Indiranagar', pincode: '560038', coordinates: { lat: 12.9784, lng: 77.6408 } },
+  { city: 'Bangalore', name: 'Whitefield', pincode: '560066', coordinates: { lat: 12.9698, lng: 77.7500 } },
+  { city: 'Bangalore', name: 'Electronic City', pincode: '560100', coordinates: { lat: 12.8452, lng: 77.6602 } },
+  { city: 'Bangalore', name: 'HSR Layout', pincode: '560102', coordinates: { lat: 12.9121, lng: 77.6446 } },
+  { city: 'Bangalore', name: 'Marathahalli', pincode: '560037', coordinates: { lat: 12.9569, lng: 77.7011 } },
+
+  // Hyderabad
+  { city: 'Hyderabad', name: 'Hitech City', pincode: '500081', coordinates: { lat: 17.4435, lng: 78.3772 } },
+  { city: 'Hyderabad', name: 'Banjara Hills', pincode: '500034', coordinates: { lat: 17.4156, lng: 78.4347 } },
+  { city: 'Hyderabad', name: 'Jubilee Hills', pincode: '500033', coordinates: { lat: 17.4326, lng: 78.4071 } },
+  { city: 'Hyderabad', name: 'Kondapur', pincode: '500084', coordinates: { lat: 17.4619, lng: 78.3647 } },
+  { city: 'Hyderabad', name: 'Gachibowli', pincode: '500032', coordinates: { lat: 17.4401, lng: 78.3489 } },
+  { city: 'Hyderabad', name: 'Secunderabad', pincode: '500003', coordinates: { lat: 17.4399, lng: 78.4983 } },
+
+  // Chennai
+  { city: 'Chennai', name: 'T Nagar', pincode: '600017', coordinates: { lat: 13.0418, lng: 80.2341 } },
+  { city: 'Chennai', name: 'Anna Nagar', pincode: '600040', coordinates: { lat: 13.0850, lng: 80.2101 } },
+  { city: 'Chennai', name: 'Velachery', pincode: '600042', coordinates: { lat: 12.9815, lng: 80.2180 } },
+  { city: 'Chennai', name: 'Adyar', pincode: '600020', coordinates: { lat: 13.0012, lng: 80.2565 } },
+  { city: 'Chennai', name: 'Tambaram', pincode: '600045', coordinates: { lat: 12.9249, lng: 80.1000 } },
+  { city: 'Chennai', name: 'OMR', pincode: '600119', coordinates: { lat: 12.9010, lng: 80.2279 } },
+
+  // Kolkata
+  { city: 'Kolkata', name: 'Park Street', pincode: '700016', coordinates: { lat: 22.5535, lng: 88.3520 } },
+  { city: 'Kolkata', name: 'Salt Lake', pincode: '700091', coordinates: { lat: 22.5867, lng: 88.4171 } },
+  { city: 'Kolkata', name: 'Ballygunge', pincode: '700019', coordinates: { lat: 22.5280, lng: 88.3659 } },
+  { city: 'Kolkata', name: 'New Town', pincode: '700156', coordinates: { lat: 22.5925, lng: 88.4845 } },
+  { city: 'Kolkata', name: 'Behala', pincode: '700034', coordinates: { lat: 22.4986, lng: 88.3102 } },
+  { city: 'Kolkata', name: 'Dum Dum', pincode: '700028', coordinates: { lat: 22.6218, lng: 88.4219 } },
+  { city: 'Kolkata', name: 'Howrah', pincode: '711101', coordinates: { lat: 22.5958, lng: 88.2636 } },
+  { city: 'Kolkata', name: 'Rajarhat', pincode: '700135', coordinates: { lat: 22.6200, lng: 88.4700 } },
+
+  // Pune
+  { city: 'Pune', name: 'Koregaon Park', pincode: '411001', coordinates: { lat: 18.5362, lng: 73.8940 } },
+  { city: 'Pune', name: 'Kothrud', pincode: '411038', coordinates: { lat: 18.5074, lng: 73.8077 } },
+  { city: 'Pune', name: 'Baner', pincode: '411045', coordinates: { lat: 18.5590, lng: 73.7868 } },
+  { city: 'Pune', name: 'Hinjewadi', pincode: '411057', coordinates: { lat: 18.5912, lng: 73.7389 } },
+  { city: 'Pune', name: 'Wakad', pincode: '411057', coordinates: { lat: 18.5990, lng: 73.7620 } },
+  { city: 'Pune', name: 'Viman Nagar', pincode: '411014', coordinates: { lat: 18.5679, lng: 73.9143 } },
+  { city: 'Pune', name: 'Hadapsar', pincode: '411028', coordinates: { lat: 18.5089, lng: 73.9260 } },
+
+  // Gurgaon
+  { city: 'Gurgaon', name: 'Sector 15', pincode: '122001', coordinates: { lat: 28.4587, lng: 77.0403 } },
+  { city: 'Gurgaon', name: 'Sector 22', pincode: '122015', coordinates: { lat: 28.5006, lng: 77.0614 } },
+  { city: 'Gurgaon', name: 'Phase 2', pincode: '122002', coordinates: { lat: 28.4887, lng: 77.0877 } },
+  { city: 'Gurgaon', name: 'DLF City', pincode: '122002', coordinates: { lat: 28.4717, lng: 77.0993 } },
+  { city: 'Gurgaon', name: 'Cyber City', pincode: '122002', coordinates: { lat: 28.4950, lng: 77.0895 } },
+  { city: 'Gurgaon', name: 'Golf Course Road', pincode: '122011', coordinates: { lat: 28.4433, lng: 77.1006 } },
+
+  // Noida
+  { city: 'Noida', name: 'Sector 18', pincode: '201301', coordinates: { lat: 28.5708, lng: 77.3261 } },
+  { city: 'Noida', name: 'Sector 50', pincode: '201301', coordinates: { lat: 28.5722, lng: 77.3633 } },
+  { city: 'Noida', name: 'Sector 62', pincode: '201309', coordinates: { lat: 28.6270, lng: 77.3727 } },
+  { city: 'Noida', name: 'Sector 76', pincode: '201304', coordinates: { lat: 28.5670, lng: 77.3858 } },
+  { city: 'Noida', name: 'Sector 137', pincode: '201305', coordinates: { lat: 28.5093, lng: 77.4070 } },
+  { city: 'Noida', name: 'Sector 135', pincode: '201304', coordinates: { lat: 28.4940, lng: 77.3960 } },
+  { city: 'Noida', name: 'Greater Noida', pincode: '201310', coordinates: { lat: 28.4744, lng: 77.5040 } },
+
+  // Ahmedabad
+  { city: 'Ahmedabad', name: 'Navrangpura', pincode: '380009', coordinates: { lat: 23.0365, lng: 72.5611 } },
+  { city: 'Ahmedabad', name: 'Satellite', pincode: '380015', coordinates: { lat: 23.0300, lng: 72.5176 } },
+  { city: 'Ahmedabad', name: 'Vastrapur', pincode: '380015', coordinates: { lat: 23.0370, lng: 72.5293 } },
+  { city: 'Ahmedabad', name: 'Prahlad Nagar', pincode: '380015', coordinates: { lat: 23.0120, lng: 72.5100 } },
+  { city: 'Ahmedabad', name: 'Bopal', pincode: '380058', coordinates: { lat: 23.0330, lng: 72.4640 } },
+  { city: 'Ahmedabad', name: 'Bodakdev', pincode: '380054', coordinates: { lat: 23.0395, lng: 72.5066 } },
+  { city: 'Ahmedabad', name: 'Maninagar', pincode: '380008', coordinates: { lat: 22.9962, lng: 72.6029 } },
+  { city: 'Ahmedabad', name: 'Chandkheda', pincode: '382424', coordinates: { lat: 23.1090, lng: 72.5850 } },
+
+  // Jaipur
+  { city: 'Jaipur', name: 'C Scheme', pincode: '302001', coordinates: { lat: 26.9050, lng: 75.8010 } },
+  { city: 'Jaipur', name: 'Raja Park', pincode: '302004', coordinates: { lat: 26.8990, lng: 75.8266 } },
+  { city: 'Jaipur', name: 'Malviya Nagar', pincode: '302017', coordinates: { lat: 26.8530, lng: 75.8047 } },
+  { city: 'Jaipur', name: 'Mansarovar', pincode: '302020', coordinates: { lat: 26.8530, lng: 75.7636 } },
+  { city: 'Jaipur', name: 'Vaishali Nagar', pincode: '302021', coordinates: { lat: 26.9117, lng: 75.7425 } },
+  { city: 'Jaipur', name: 'Jagatpura', pincode: '302025', coordinates: { lat: 26.8262, lng: 75.8530 } },
+  { city: 'Jaipur', name: 'Tonk Road', pincode: '302018', coordinates: { lat: 26.8500, lng: 75.8000 } },
+
+  // Lucknow
+  { city: 'Lucknow', name: 'Hazratganj', pincode: '226001', coordinates: { lat: 26.8500, lng: 80.9460 } },
+  { city: 'Lucknow', name: 'Mahanagar', pincode: '226006', coordinates: { lat: 26.8750, lng: 80.9560 } },
+  { city: 'Lucknow', name: 'Alambagh', pincode: '226005', coordinates: { lat: 26.8140, lng: 80.9060 } },
+  { city: 'Lucknow', name: 'Gomti Nagar', pincode: '226010', coordinates: { lat: 26.8500, lng: 80.9920 } },
+  { city: 'Lucknow', name: 'Indira Nagar', pincode: '226016', coordinates: { lat: 26.8720, lng: 80.9980 } },
+  { city: 'Lucknow', name: 'Aminabad', pincode: '226018', coordinates: { lat: 26.8460, lng: 80.9270 } },
+  { city: 'Lucknow', name: 'Aliganj', pincode: '226024', coordinates: { lat: 26.8930, lng: 80.9420 } }
+];
@@ -1,4 +1,5 @@
-import { Provider, Enquiry, Review } from '../types';
+import { Provider, Enquiry, Review, ServiceCategory } from '../types';
+import { DEFAULT_TIMEZONE, weeklySlots } from '../utils/schedule';
 
 export const mockProviders: Provider[] = [
   {
@@ -23,10 +24,16 @@ export const mockProviders: Provider[] = [
         name: 'Piano for Beginners',
         description: 'Learn piano basics with fun exercises',
         ageGroup: '6-12 years',
+        minAge: 6,
+        maxAge: 12,
         mode: 'offline',
         price: 1500,
         duration: '45 mins',
-        schedule: ['Mon 4-5 PM', 'Wed 4-5 PM', 'Sat 10-11 AM']
+        schedule: ['Mon, Wed 4-5 PM', 'Sat 10-11 AM'],
+        weeklySchedule: {
+          timezone: DEFAULT_TIMEZONE,
+          slots: [...weeklySlots(['mon', 'wed'], '16:00', '17:00'), ...weeklySlots(['sat'], '10:00', '11:00')]
+        }
       }
     ],
     images: ['https://images.pexels.com/photos/164743/pexels-photo-164743.jpeg?auto=compress&cs=tinysrgb&w=400'],
@@ -58,10 +65,16 @@ export const mockProviders: Provider[] = [
         name: 'Youth Football Training',
         description: 'Professional football coaching for young athletes',
         ageGroup: '8-16 years',
+        minAge: 8,
+        maxAge: 16,
         mode: 'offline',
         price: 2000,
         duration: '60 mins',
-        schedule: ['Tue 5-6 PM', 'Thu 5-6 PM', 'Sun 9-10 AM']
+        schedule: ['Tue, Thu 5-6 PM', 'Sun 9-10 AM'],
+        weeklySchedule: {
+          timezone: DEFAULT_TIMEZONE,
+          slots: [...weeklySlots(['tue', 'thu'], '17:00', '18:00'), ...weeklySlots(['sun'], '09:00', '10:00')]
+        }
       }
     ],
     images: ['https://images.pexels.com/photos/274422/pexels-photo-274422.jpeg?auto=compress&cs=tinysrgb&w=400'],
@@ -93,10 +106,13 @@ export const mockProviders: Provider[] = [
         name: 'Python for Kids',
         description: 'Learn programming with fun Python projects',
         ageGroup: '10-16 years',
+        minAge: 10,
+        maxAge: 16,
         mode: 'online',
         price: 1800,
         duration: '60 mins',
-        schedule: ['Mon 6-7 PM', 'Wed 6-7 PM']
+        schedule: ['Mon, Wed 6-7 PM'],
+        weeklySchedule: { timezone: DEFAULT_TIMEZONE, slots: weeklySlots(['mon', 'wed'], '18:00', '19:00') }
       }
     ],
     images: ['https://images.pexels.com/photos/574071/pexels-photo-574071.jpeg?auto=compress&cs=tinysrgb&w=400'],
@@ -128,10 +144,13 @@ export const mockProviders: Provider[] = [
         name: 'Mathematics (Class 9-10)',
         description: 'Comprehensive math coaching with concept clarity',
         ageGroup: '14-16 years',
+        minAge: 14,
+        maxAge: 16,
         mode: 'offline',
         price: 1200,
         duration: '90 mins',
-        schedule: ['Mon 2-3:30 PM', 'Wed 2-3:30 PM', 'Fri 2-3:30 PM']
+        schedule: ['Mon, Wed, Fri 2-3:30 PM'],
+        weeklySchedule: { timezone: DEFAULT_TIMEZONE, slots: weeklySlots(['mon', 'wed', 'fri'], '14:00', '15:30') }
       }
     ],
     images: ['https://images.pexels.com/photos/5212320/pexels-photo-5212320.jpeg?auto=compress&cs=tinysrgb&w=400'],
@@ -144,15 +163,58 @@ export const mockProviders: Provider[] = [
   }
 ];
 
-export const categories = [
-  { id: 'tuition', name: 'Tuitions', icon: '📚', color: 'bg-blue-100 text-blue-800' },
-  { id: 'music', name: 'Music', icon: '🎵', color: 'bg-purple-100 text-purple-800' },
-  { id: 'sports', name: 'Sports', icon: '⚽', color: 'bg-green-100 text-green-800' },
-  { id: 'coding', name: 'Coding', icon: '💻', color: 'bg-orange-100 text-orange-800' },
-  { id: 'dance', name: 'Dance', icon: '💃', color: 'bg-pink-100 text-pink-800' },
-  { id: 'art', name: 'Art & Craft', icon: '🎨', color: 'bg-yellow-100 text-yellow-800' },
-  { id: 'daycare', name: 'Daycare', icon: '🏠', color: 'bg-indigo-100 text-indigo-800' },
-  { id: 'camps', name: 'Summer Camps', icon: '🏕️', color: 'bg-teal-100 text-teal-800' }
+// Fallback for the categories table (see useTaxonomy)
+export const categories: ServiceCategory[] = [
+  { id: 'tuition', name: 'Tuitions', serviceName: 'Academic Tuitions', icon: '📚', color: 'bg-blue-100 text-blue-800' },
+  { id: 'music', name: 'Music', serviceName: 'Music Classes', icon: '🎵', color: 'bg-purple-100 text-purple-800' },
+  { id: 'sports', name: 'Sports', serviceName: 'Sports Training', icon: '⚽', color: 'bg-green-100 text-green-800' },
+  { id: 'coding', name: 'Coding', serviceName: 'Coding / STEM', icon: '💻', color: 'bg-orange-100 text-orange-800' },
+  { id: 'dance', name: 'Dance', serviceName: 'Dance Classes', icon: '💃', color: 'bg-pink-100 text-pink-800' },
+  { id: 'art', name: 'Art & Craft', serviceName: 'Art & Craft', icon: '🎨', color: 'bg-yellow-100 text-yellow-800' },
+  { id: 'daycare', name: 'Daycare', serviceName: 'Daycare / After-school', icon: '🏠', color: 'bg-indigo-100 text-indigo-800' },
+  { id: 'camps', name: 'Summer Camps', serviceName: 'Summer Camps', icon: '🏕️', color: 'bg-teal-100 text-teal-800' },
+
+  // Subcategories of tuition
+  { id: 'maths', parentId: 'tuition', name: 'Maths', serviceName: 'Maths Tuition', icon: '➗', color: 'bg-blue-100 text-blue-800' },
+  { id: 'science', parentId: 'tuition', name: 'Science', serviceName: 'Science Tuition', icon: '🔬', color: 'bg-blue-100 text-blue-800' },
+  { id: 'english', parentId: 'tuition', name: 'English', serviceName: 'English Tuition', icon: '📖', color: 'bg-blue-100 text-blue-800' },
+  { id: 'languages', parentId: 'tuition', name: 'Languages', serviceName: 'Language Classes', icon: '🗣️', color: 'bg-blue-100 text-blue-800' },
+
+  // Subcategories of music
+  { id: 'piano', parentId: 'music', name: 'Piano', serviceName: 'Piano Lessons', icon: '🎹', color: 'bg-purple-100 text-purple-800' },
+  { id: 'guitar', parentId: 'music', name: 'Guitar', serviceName: 'Guitar Lessons', icon: '🎸', color: 'bg-purple-100 text-purple-800' },
+  { id: 'vocals', parentId: 'music', name: 'Vocals', serviceName: 'Vocal Training', icon: '🎤', color: 'bg-purple-100 text-purple-800' },
+  { id: 'drums', parentId: 'music', name: 'Drums', serviceName: 'Drum Lessons', icon: '🥁', color: 'bg-purple-100 text-purple-800' },
+
+  // Subcategories of sports
+  { id: 'swimming', parentId: 'sports', name: 'Swimming', serviceName: 'Swimming Lessons', icon: '🏊', color: 'bg-green-100 text-green-800' },
+  { id: 'cricket', parentId: 'sports', name: 'Cricket', serviceName: 'Cricket Coaching', icon: '🏏', color: 'bg-green-100 text-green-800' },
+  { id: 'football', parentId: 'sports', name: 'Football', serviceName: 'Football Coaching', icon: '🥅', color: 'bg-green-100 text-green-800' },
+  { id: 'badminton', parentId: 'sports', name: 'Badminton', serviceName: 'Badminton Coaching', icon: '🏸', color: 'bg-green-100 text-green-800' },
+  { id: 'chess', parentId: 'sports', name: 'Chess', serviceName: 'Chess Coaching', icon: '♟️', color: 'bg-green-100 text-green-800' },
+
+  // Subcategories of coding
+  { id: 'scratch', parentId: 'coding', name: 'Scratch', serviceName: 'Scratch Programming', icon: '🧩', color: 'bg-orange-100 text-orange-800' },
+  { id: 'python', parentId: 'coding', name: 'Python', serviceName: 'Python Programming', icon: '🐍', color: 'bg-orange-100 text-orange-800' },
+  { id: 'robotics', parentId: 'coding', name: 'Robotics', serviceName: 'Robotics', icon: '🤖', color: 'bg-orange-100 text-orange-800' },
+
+  // Subcategories of dance
+  { id: 'classical_dance', parentId: 'dance', name: 'Classical', serviceName: 'Classical Dance', icon: '🪷', color: 'bg-pink-100 text-pink-800' },
+  { id: 'western_dance', parentId: 'dance', name: 'Western', serviceName: 'Western Dance', icon: '🕺', color: 'bg-pink-100 text-pink-800' },
+  { id: 'ballet', parentId: 'dance', name: 'Ballet', serviceName: 'Ballet', icon: '🩰', color: 'bg-pink-100 text-pink-800' },
+
+  // Subcategories of art
+  { id: 'drawing', parentId: 'art', name: 'Drawing & Painting', serviceName: 'Drawing & Painting', icon: '🖌️', color: 'bg-yellow-100 text-yellow-800' },
+  { id: 'pottery', parentId: 'art', name: 'Pottery', serviceName: 'Pottery & Clay', icon: '🏺', color: 'bg-yellow-100 text-yellow-800' },
+  { id: 'crafts', parentId: 'art', name: 'Crafts', serviceName: 'Crafts', icon: '✂️', color: 'bg-yellow-100 text-yellow-800' },
+
+  // Subcategories of daycare
+  { id: 'after_school', parentId: 'daycare', name: 'After-school', serviceName: 'After-school Care', icon: '🎒', color: 'bg-indigo-100 text-indigo-800' },
+  { id: 'creche', parentId: 'daycare', name: 'Creche', serviceName: 'Creche', icon: '🧸', color: 'bg-indigo-100 text-indigo-800' },
+
+  // Subcategories of camps
+  { id: 'day_camps', parentId: 'camps', name: 'Day Camps', serviceName: 'Day Camps', icon: '☀️', color: 'bg-teal-100 text-teal-800' },
+  { id: 'residential_camps', parentId: 'camps', name: 'Residential', serviceName: 'Residential Camps', icon: '⛺', color: 'bg-teal-100 text-teal-800' }
 ];
 
 export const mockEnquiries: Enquiry[] = [
@@ -191,6 +253,7 @@ export const mockReviews: Review[] = [
     parent: 'parent1',
     childName: 'Emma',
     rating: 5,
+    aspectRatings: { teaching: 5, communication: 5, facilities: 4, value: 4 },
     comment: 'Excellent teacher! Emma loves her piano lessons and has improved so much.',
     createdAt: new Date(2025, 0, 28),
     parentName: 'Sarah Johnson',
@@ -202,6 +265,7 @@ export const mockReviews: Review[] = [
     parent: 'parent2',
     childName: 'Alex',
     rating: 5,
+    aspectRatings: { teaching: 5, communication: 4, value: 5 },
     comment: 'Very patient and skilled instructor. Great for beginners!',
     createdAt: new Date(2025, 0, 25),
     parentName: 'David Smith',
@@ -213,6 +277,7 @@ export const mockReviews: Review[] = [
     parent: 'parent3',
     childName: 'Maya',
     rating: 5,
+    aspectRatings: { teaching: 5, communication: 4, facilities: 5, value: 4 },
     comment: 'Perfect introduction to coding. My daughter is now excited about programming!',
     createdAt: new Date(2025, 0, 22),
     parentName: 'Priya Sharma',
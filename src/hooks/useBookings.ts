@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { BookingService, BookingStatus, ParentBooking, ProviderBooking } from '../services/bookingService';
+import { ClassAvailability, ParentWaitlistEntry, WaitlistService } from '../services/waitlistService';
+import { useRealtimeChanges } from './useRealtime';
+
+export function useParentBookings() {
+  const { user } = useAuth();
+  const [bookings, setBookings] = useState<ParentBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Demo sessions have no bookings to load
+  const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+
+  useEffect(() => {
+    if (user && !isDemoUser) {
+      loadBookings();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadBookings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!user?._id) return;
+
+      setBookings(await BookingService.getParentBookings(user._id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load bookings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const syncBookings = async () => {
+    try {
+      if (!user?._id) return;
+
+      setBookings(await BookingService.getParentBookings(user._id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load bookings');
+    }
+  };
+
+  useRealtimeChanges({
+    table: 'bookings',
+    filter: user?._id ? `parent_id=eq.${user._id}` : undefined,
+    enabled: Boolean(user?._id),
+    onChange: syncBookings,
+    onResync: syncBookings
+  });
+
+  const cancelBooking = async (bookingId: string) => {
+    try {
+      setError(null);
+
+      const updatedBooking = await BookingService.updateStatus(bookingId, 'cancelled');
+      setBookings(prev => prev.map(b => b.id === bookingId ? { ...b, ...updatedBooking } : b));
+      return updatedBooking;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel booking');
+      throw err;
+    }
+  };
+
+  return {
+    bookings,
+    loading,
+    error,
+    cancelBooking,
+    refetch: loadBookings
+  };
+}
+
+export function useProviderBookings(providerId?: string) {
+  const [bookings, setBookings] = useState<ProviderBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (providerId) {
+      loadBookings();
+    }
+  }, [providerId]);
+
+  const loadBookings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!providerId) return;
+
+      setBookings(await BookingService.getProviderBookings(providerId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load bookings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const syncBookings = async () => {
+    try {
+      if (!providerId) return;
+
+      setBookings(await BookingService.getProviderBookings(providerId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load bookings');
+    }
+  };
+
+  useRealtimeChanges({
+    table: 'bookings',
+    filter: providerId ? `provider_id=eq.${providerId}` : undefined,
+    enabled: Boolean(providerId),
+    onChange: syncBookings,
+    onResync: syncBookings
+  });
+
+  const updateStatus = async (bookingId: string, status: BookingStatus) => {
+    try {
+      setError(null);
+
+      const updatedBooking = await BookingService.updateStatus(bookingId, status);
+      setBookings(prev => prev.map(b => b.id === bookingId ? { ...b, ...updatedBooking } : b));
+      return updatedBooking;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update booking');
+      throw err;
+    }
+  };
+
+  return {
+    bookings,
+    loading,
+    error,
+    updateStatus,
+    refetch: loadBookings
+  };
+}
+
+export function useParentWaitlist() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<ParentWaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+
+  useEffect(() => {
+    if (user && !isDemoUser) {
+      loadWaitlist();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadWaitlist = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!user?._id) return;
+
+      setEntries(await WaitlistService.getParentWaitlist(user._id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load waitlist');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const syncWaitlist = async () => {
+    try {
+      if (!user?._id) return;
+
+      setEntries(await WaitlistService.getParentWaitlist(user._id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load waitlist');
+    }
+  };
+
+  // Seat offers arrive as updates to the parent's own entries
+  useRealtimeChanges({
+    table: 'class_waitlist',
+    filter: user?._id ? `parent_id=eq.${user._id}` : undefined,
+    enabled: Boolean(user?._id),
+    onChange: syncWaitlist,
+    onResync: syncWaitlist
+  });
+
+  const acceptOffer = async (entryId: string) => {
+    try {
+      setError(null);
+
+      const entry = entries.find(e => e.id === entryId);
+      if (!entry) throw new Error('Waitlist entry not found');
+
+      const booking = await WaitlistService.acceptOffer(entry);
+      setEntries(prev => prev.filter(e => e.id !== entryId));
+      return booking;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept seat');
+      throw err;
+    }
+  };
+
+  const leaveWaitlist = async (entryId: string) => {
+    try {
+      setError(null);
+
+      await WaitlistService.leaveWaitlist(entryId);
+      setEntries(prev => prev.filter(e => e.id !== entryId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to leave waitlist');
+      throw err;
+    }
+  };
+
+  return {
+    entries,
+    loading,
+    error,
+    acceptOffer,
+    leaveWaitlist,
+    refetch: loadWaitlist
+  };
+}
+
+// Seats left per class; classes without a batch size have `seats_left` null
+export function useClassAvailability(classIds: string[]) {
+  const [availability, setAvailability] = useState<Record<string, ClassAvailability>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const classIdsKey = classIds.join(',');
+
+  useEffect(() => {
+    if (classIds.length > 0 && !localStorage.getItem('demoUser')) {
+      loadAvailability();
+    }
+  }, [classIdsKey]);
+
+  const loadAvailability = async () => {
+    try {
+      setError(null);
+      setAvailability(await WaitlistService.getClassAvailability(classIds));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load seat availability');
+    }
+  };
+
+  return {
+    availability,
+    error,
+    refetch: loadAvailability
+  };
+}
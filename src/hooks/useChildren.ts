@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { ChildService } from '../services/childService';
+import { Child } from '../types';
+import { getAgeFromDateOfBirth } from '../utils/ageRange';
+import { toChild } from '../utils/childAdapter';
+
+export interface ChildDetails {
+  name: string;
+  dateOfBirth: string;
+  interests: string[];
+  notes?: string;
+}
+
+const toChildFields = (details: ChildDetails) => ({
+  name: details.name.trim(),
+  date_of_birth: details.dateOfBirth,
+  interests: details.interests,
+  notes: details.notes?.trim() || null
+});
+
+// Demo sessions keep their children on the demo user in local storage
+const toDemoChild = (details: ChildDetails, id: string): Child => ({
+  id,
+  name: details.name.trim(),
+  age: getAgeFromDateOfBirth(details.dateOfBirth),
+  dateOfBirth: details.dateOfBirth,
+  interests: details.interests,
+  notes: details.notes?.trim() || undefined
+});
+
+export function useChildren() {
+  const { user, updateUser } = useAuth();
+  const [children, setChildren] = useState<Child[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+
+  useEffect(() => {
+    if (user) {
+      loadChildren();
+    } else {
+      setChildren([]);
+      setLoading(false);
+    }
+  }, [user?._id]);
+
+  const loadChildren = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!user?._id) return;
+
+      setChildren(isDemoUser
+        ? (user.children || []).map((child, index) => ({ ...child, id: child.id || `demo-child-${index}` }))
+        : (await ChildService.getChildren(user._id)).map(toChild));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load children');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The session user carries the children too (Home and Search filter by their ages)
+  const saveChildren = (next: Child[]) => {
+    setChildren(next);
+    updateUser({ children: next });
+  };
+
+  const addChild = async (details: ChildDetails) => {
+    try {
+      setError(null);
+
+      if (!user?._id) throw new Error('User not authenticated');
+
+      const child = isDemoUser
+        ? toDemoChild(details, `demo-child-${Date.now()}`)
+        : toChild(await ChildService.createChild({ parent_id: user._id, ...toChildFields(details) }));
+      saveChildren([...children, child]);
+      return child;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add child');
+      throw err;
+    }
+  };
+
+  const updateChild = async (childId: string, details: ChildDetails) => {
+    try {
+      setError(null);
+
+      const child = isDemoUser
+        ? toDemoChild(details, childId)
+        : toChild(await ChildService.updateChild(childId, toChildFields(details)));
+      saveChildren(children.map(c => c.id === childId ? child : c));
+      return child;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update child');
+      throw err;
+    }
+  };
+
+  const removeChild = async (childId: string) => {
+    try {
+      setError(null);
+
+      if (!isDemoUser) {
+        await ChildService.deleteChild(childId);
+      }
+      saveChildren(children.filter(c => c.id !== childId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove child');
+      throw err;
+    }
+  };
+
+  return {
+    children,
+    loading,
+    error,
+    addChild,
+    updateChild,
+    removeChild,
+    refetch: loadChildren
+  };
+}
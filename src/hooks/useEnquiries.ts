@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { EnquiryParticipant, EnquiryService } from '../services/enquiryService';
+import { mockEnquiries } from '../data/mockData';
+import { Enquiry } from '../types';
+import { Database } from '../types/database';
+import { toEnquiry } from '../utils/enquiryAdapter';
+import { useRealtimeChanges } from './useRealtime';
+
+type EnquiryMessage = Database['public']['Tables']['enquiry_messages']['Row'];
+
+// Demo enquiries have no stored thread; rebuild it from the message/response pair
+function getDemoThread(enquiryId: string): EnquiryMessage[] {
+  const enquiry = mockEnquiries.find(e => e.id === enquiryId);
+  if (!enquiry) return [];
+
+  const thread: EnquiryMessage[] = [{
+    id: `${enquiryId}-message`,
+    enquiry_id: enquiryId,
+    sender_id: enquiry.parent,
+    sender_role: 'parent',
+    body: enquiry.message,
+    created_at: enquiry.createdAt.toISOString(),
+    read_at: enquiry.responseAt?.toISOString() || null
+  }];
+
+  if (enquiry.response) {
+    thread.push({
+      id: `${enquiryId}-response`,
+      enquiry_id: enquiryId,
+      sender_id: null,
+      sender_role: 'provider',
+      body: enquiry.response,
+      created_at: (enquiry.responseAt || enquiry.createdAt).toISOString(),
+      read_at: null
+    });
+  }
+
+  return thread;
+}
+
+export function useParentEnquiries() {
+  const { user } = useAuth();
+  const [enquiries, setEnquiries] = useState<Enquiry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Demo sessions work on a local copy of the mock enquiries
+  const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+
+  useEffect(() => {
+    if (user) {
+      loadEnquiries();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadEnquiries = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (isDemoUser) {
+        setEnquiries(mockEnquiries);
+        return;
+      }
+
+      if (!user?._id) return;
+
+      const rows = await EnquiryService.getParentEnquiries(user._id);
+      setEnquiries(rows.map(toEnquiry));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load enquiries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Refreshes in the background so open conversations stay on screen
+  const syncEnquiries = async () => {
+    try {
+      if (!user?._id) return;
+
+      const rows = await EnquiryService.getParentEnquiries(user._id);
+      setEnquiries(rows.map(toEnquiry));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load enquiries');
+    }
+  };
+
+  // Change events lack the provider and class joins, so refetch rather than patch
+  useRealtimeChanges({
+    table: 'enquiries',
+    filter: user?._id ? `parent_id=eq.${user._id}` : undefined,
+    enabled: Boolean(user?._id),
+    onChange: syncEnquiries,
+    onResync: syncEnquiries
+  });
+
+  const closeEnquiry = async (enquiryId: string) => {
+    try {
+      setError(null);
+
+      if (!isDemoUser) {
+        await EnquiryService.closeEnquiry(enquiryId);
+      }
+      setEnquiries(prev => prev.map(e => e.id === enquiryId ? { ...e, status: 'closed' } : e));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close enquiry');
+      throw err;
+    }
+  };
+
+  const withdrawEnquiry = async (enquiryId: string) => {
+    try {
+      setError(null);
+
+      if (!isDemoUser) {
+        await EnquiryService.withdrawEnquiry(enquiryId);
+      }
+      setEnquiries(prev => prev.filter(e => e.id !== enquiryId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw enquiry');
+      throw err;
+    }
+  };
+
+  // A parent follow-up puts a responded enquiry back to awaiting the provider (see sync_enquiry_after_message)
+  const markAwaitingReply = (enquiryId: string) => {
+    setEnquiries(prev => prev.map(e => e.id === enquiryId && e.status === 'responded' ? { ...e, status: 'sent' } : e));
+  };
+
+  return {
+    enquiries,
+    loading,
+    error,
+    closeEnquiry,
+    withdrawEnquiry,
+    markAwaitingReply,
+    refetch: loadEnquiries
+  };
+}
+
+export function useEnquiryThread(enquiryId: string, viewerRole: EnquiryParticipant, onRead?: () => void) {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<EnquiryMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+
+  useEffect(() => {
+    loadThread();
+  }, [enquiryId]);
+
+  const loadThread = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (isDemoUser) {
+        setMessages(getDemoThread(enquiryId));
+        return;
+      }
+
+      await syncThread();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const syncThread = async () => {
+    const thread = await EnquiryService.getMessages(enquiryId);
+    setMessages(thread);
+
+    if (thread.some(message => message.sender_role !== viewerRole && !message.read_at)) {
+      await markThreadRead();
+    }
+  };
+
+  // An open thread counts as reading whatever the other side sent
+  const markThreadRead = async () => {
+    await EnquiryService.markThreadRead(enquiryId);
+    const readAt = new Date().toISOString();
+    setMessages(prev => prev.map(message =>
+      message.sender_role !== viewerRole && !message.read_at ? { ...message, read_at: readAt } : message
+    ));
+    onRead?.();
+  };
+
+  useRealtimeChanges({
+    table: 'enquiry_messages',
+    filter: `enquiry_id=eq.${enquiryId}`,
+    onChange: (change) => {
+      if (change.eventType === 'INSERT') {
+        // Our own sends are already in the list from sendMessage
+        setMessages(prev => prev.some(message => message.id === change.new.id) ? prev : [...prev, change.new]);
+        if (change.new.sender_role !== viewerRole) {
+          markThreadRead().catch(() => {
+            // Stays unread; picked up again next time the thread loads
+          });
+        }
+      } else if (change.eventType === 'UPDATE') {
+        // Read receipts from the other side
+        setMessages(prev => prev.map(message => message.id === change.new.id ? change.new : message));
+      }
+    },
+    onResync: () => {
+      syncThread().catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to load conversation');
+      });
+    }
+  });
+
+  const sendMessage = async (body: string) => {
+    try {
+      setError(null);
+
+      if (isDemoUser) {
+        const message: EnquiryMessage = {
+          id: `${enquiryId}-${Date.now()}`,
+          enquiry_id: enquiryId,
+          sender_id: user?._id || null,
+          sender_role: viewerRole,
+          body,
+          created_at: new Date().toISOString(),
+          read_at: null
+        };
+        setMessages(prev => [...prev, message]);
+        return message;
+      }
+
+      if (!user?._id) throw new Error('User not authenticated');
+
+      const message = await EnquiryService.sendMessage(enquiryId, user._id, viewerRole, body);
+      setMessages(prev => [...prev, message]);
+      return message;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+      throw err;
+    }
+  };
+
+  return {
+    messages,
+    loading,
+    error,
+    sendMessage,
+    refetch: loadThread
+  };
+}
+
+// Unread messages from the other side per enquiry. `ownerId` is the parent's
+// user id for parents and the provider id for providers.
+export function useUnreadMessageCounts(reader: EnquiryParticipant, ownerId?: string) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (ownerId && !localStorage.getItem('demoUser')) {
+      loadCounts();
+    }
+  }, [reader, ownerId]);
+
+  const loadCounts = async () => {
+    try {
+      setError(null);
+
+      if (!ownerId) return;
+
+      setCounts(await EnquiryService.getUnreadCounts(reader, ownerId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load unread messages');
+    }
+  };
+
+  // RLS limits message events to the reader's own enquiries, so no filter is needed
+  useRealtimeChanges({
+    table: 'enquiry_messages',
+    enabled: Boolean(ownerId),
+    onChange: loadCounts,
+    onResync: loadCounts
+  });
+
+  const markRead = (enquiryId: string) => {
+    setCounts(prev => {
+      const next = { ...prev };
+      delete next[enquiryId];
+      return next;
+    });
+  };
+
+  return {
+    counts,
+    total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+    error,
+    markRead,
+    refetch: loadCounts
+  };
+}
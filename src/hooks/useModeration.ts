@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { ReportService } from '../services/reportService';
+import { Database } from '../types/database';
+import { ModerationDecision, ReportTargetType } from '../types';
+import { ModerationItem, toHiddenItems, toModerationItems } from '../utils/moderationAdapter';
+
+type ModerationActionRow = Database['public']['Tables']['moderation_actions']['Row'];
+
+// Admin moderation queue: reported items awaiting a decision, hidden items that can be restored,
+// and the latest decisions
+export function useModerationQueue() {
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [hiddenItems, setHiddenItems] = useState<ModerationItem[]>([]);
+  const [decisions, setDecisions] = useState<ModerationActionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [reports, hiddenTargets, recentDecisions] = await Promise.all([
+        ReportService.getOpenReports(),
+        ReportService.getHiddenTargets(),
+        ReportService.getRecentDecisions()
+      ]);
+      const reportedTargets = await ReportService.getReportTargets(reports);
+
+      setItems(toModerationItems(reports, reportedTargets));
+      setHiddenItems(toHiddenItems(hiddenTargets));
+      setDecisions(recentDecisions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const moderate = async (
+    targetType: ReportTargetType,
+    targetId: string,
+    decision: ModerationDecision,
+    note?: string
+  ) => {
+    try {
+      setError(null);
+
+      const recorded = await ReportService.moderate(targetType, targetId, decision, note);
+      // Hiding or restoring moves the item between lists, so reload rather than patch
+      await loadQueue();
+      return recorded;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record decision');
+      throw err;
+    }
+  };
+
+  return {
+    items,
+    hiddenItems,
+    decisions,
+    loading,
+    error,
+    moderate,
+    refetch: loadQueue
+  };
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { NotificationService } from '../services/notificationService';
+import { Database } from '../types/database';
+import { useRealtimeChanges } from './useRealtime';
+
+type Notification = Database['public']['Tables']['notifications']['Row'];
+
+export function useNotifications() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+
+  useEffect(() => {
+    if (user?._id && !isDemoUser) {
+      loadNotifications();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadNotifications = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!user?._id) return;
+
+      setNotifications(await NotificationService.getNotifications(user._id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useRealtimeChanges({
+    table: 'notifications',
+    filter: user?._id ? `user_id=eq.${user._id}` : undefined,
+    enabled: Boolean(user?._id),
+    onChange: (change) => {
+      if (change.eventType === 'INSERT') {
+        setNotifications(prev => [change.new, ...prev.filter(n => n.id !== change.new.id)]);
+      } else if (change.eventType === 'UPDATE') {
+        setNotifications(prev => prev.map(n => n.id === change.new.id ? change.new : n));
+      } else {
+        setNotifications(prev => prev.filter(n => n.id !== change.old.id));
+      }
+    },
+    onResync: loadNotifications
+  });
+
+  const markAllRead = async () => {
+    try {
+      setError(null);
+
+      if (!user?._id) return;
+
+      await NotificationService.markAllRead(user._id);
+      setNotifications(prev => prev.map(n => ({ ...n, is_read: true })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notifications');
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.is_read).length,
+    loading,
+    error,
+    markAllRead,
+    refetch: loadNotifications
+  };
+}
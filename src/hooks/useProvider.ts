@@ -1,11 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { ProviderService } from '../services/providerService';
+import { ProviderEnquiry, ProviderService } from '../services/providerService';
 import { Database } from '../types/database';
+import { useRealtimeChanges } from './useRealtime';
 
 type Provider = Database['public']['Tables']['providers']['Row'];
 type ProviderClass = Database['public']['Tables']['provider_classes']['Row'];
-type Enquiry = Database['public']['Tables']['enquiries']['Row'];
 import { User } from 'lucide-react';
 
 export function useProvider() {
@@ -165,7 +165,8 @@ export function useProviderClasses(providerId?: string) {
 }
 
 export function useProviderEnquiries(providerId?: string) {
-  const [enquiries, setEnquiries] = useState<Enquiry[]>([]);
+  const { user } = useAuth();
+  const [enquiries, setEnquiries] = useState<ProviderEnquiry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -191,12 +192,35 @@ export function useProviderEnquiries(providerId?: string) {
     }
   };
 
+  // Refreshes in the background so open conversations stay on screen
+  const syncEnquiries = async () => {
+    try {
+      if (!providerId) return;
+
+      const enquiriesData = await ProviderService.getProviderEnquiries(providerId);
+      setEnquiries(enquiriesData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load enquiries');
+    }
+  };
+
+  // Change events lack the class join, so refetch rather than patch
+  useRealtimeChanges({
+    table: 'enquiries',
+    filter: providerId ? `provider_id=eq.${providerId}` : undefined,
+    enabled: Boolean(providerId),
+    onChange: syncEnquiries,
+    onResync: syncEnquiries
+  });
+
   const respondToEnquiry = async (enquiryId: string, response: string) => {
     try {
       setError(null);
       
-      const updatedEnquiry = await ProviderService.respondToEnquiry(enquiryId, response);
-      setEnquiries(prev => prev.map(e => e.id === enquiryId ? updatedEnquiry : e));
+      if (!user?._id) throw new Error('User not authenticated');
+
+      const updatedEnquiry = await ProviderService.respondToEnquiry(enquiryId, user._id, response);
+      setEnquiries(prev => prev.map(e => e.id === enquiryId ? { ...e, ...updatedEnquiry } : e));
       return updatedEnquiry;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to respond to enquiry');
@@ -204,11 +228,33 @@ export function useProviderEnquiries(providerId?: string) {
     }
   };
 
+  const closeEnquiry = async (enquiryId: string) => {
+    try {
+      setError(null);
+      
+      const updatedEnquiry = await ProviderService.closeEnquiry(enquiryId);
+      setEnquiries(prev => prev.map(e => e.id === enquiryId ? { ...e, ...updatedEnquiry } : e));
+      return updatedEnquiry;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close enquiry');
+      throw err;
+    }
+  };
+
+  // Replies sent from the thread UI; mirrors what sync_enquiry_after_message does server-side
+  const markResponded = (enquiryId: string) => {
+    setEnquiries(prev => prev.map(e =>
+      e.id === enquiryId && e.status !== 'closed' ? { ...e, status: 'responded', response_at: new Date().toISOString() } : e
+    ));
+  };
+
   return {
     enquiries,
     loading,
     error,
     respondToEnquiry,
+    closeEnquiry,
+    markResponded,
     refetch: loadEnquiries
   };
 }
@@ -245,6 +291,22 @@ export function useProviderStats(providerId?: string) {
     }
   };
 
+  useRealtimeChanges({
+    table: 'enquiries',
+    filter: providerId ? `provider_id=eq.${providerId}` : undefined,
+    enabled: Boolean(providerId),
+    onChange: loadStats,
+    onResync: loadStats
+  });
+
+  useRealtimeChanges({
+    table: 'bookings',
+    filter: providerId ? `provider_id=eq.${providerId}` : undefined,
+    enabled: Boolean(providerId),
+    onChange: loadStats,
+    onResync: loadStats
+  });
+
   return {
     stats,
     loading,
@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+
+type Tables = Database['public']['Tables'];
+
+// Tables published to supabase_realtime (see the steady_signal and patient_queue migrations)
+export type RealtimeTable = 'enquiries' | 'enquiry_messages' | 'bookings' | 'notifications' | 'class_waitlist';
+
+export type RealtimeChange<T extends RealtimeTable> = RealtimePostgresChangesPayload<Tables[T]['Row']>;
+
+interface RealtimeOptions<T extends RealtimeTable> {
+  table: T;
+  // Realtime filter such as `provider_id=eq.<id>`; RLS still applies without one
+  filter?: string;
+  enabled?: boolean;
+  onChange: (change: RealtimeChange<T>) => void;
+  // Called whenever events may have been missed (reconnects, tab wake-ups), to refetch
+  onResync?: () => void;
+}
+
+let channelCount = 0;
+
+export function useRealtimeChanges<T extends RealtimeTable>({
+  table,
+  filter,
+  enabled = true,
+  onChange,
+  onResync
+}: RealtimeOptions<T>) {
+  // Read through a ref so new handler closures don't resubscribe on every render
+  const handlers = useRef({ onChange, onResync });
+  handlers.current = { onChange, onResync };
+
+  useEffect(() => {
+    // Demo sessions have no backend to listen to
+    if (!enabled || !supabase || localStorage.getItem('demoUser')) return;
+
+    const resync = () => handlers.current.onResync?.();
+    let hasSubscribed = false;
+    let wasInterrupted = false;
+
+    const channel = supabase
+      .channel(`${table}:${filter || 'all'}:${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, ...(filter ? { filter } : {}) },
+        (change: RealtimeChange<T>) => handlers.current.onChange(change)
+      )
+      .subscribe((status: string) => {
+        if (status === 'SUBSCRIBED') {
+          // Realtime does not replay events sent while the channel was down
+          if (hasSubscribed && wasInterrupted) resync();
+          hasSubscribed = true;
+          wasInterrupted = false;
+        } else {
+          wasInterrupted = true;
+        }
+      });
+
+    // A sleeping tab can lose its socket before the channel reports it, so backfill on wake-up
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') resync();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('online', resync);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('online', resync);
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter, enabled]);
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { ReviewService } from '../services/reviewService';
+import { Review } from '../types';
+import { toReview } from '../utils/providerAdapter';
+
+// Reviews of the provider's business, newest first, with replying for the provider
+export function useProviderReviews(providerId?: string) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (providerId) {
+      loadReviews();
+    }
+  }, [providerId]);
+
+  const loadReviews = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!providerId) return;
+
+      const rows = await ReviewService.getProviderReviews(providerId);
+      setReviews(rows.map(toReview));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reviews');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replyToReview = async (reviewId: string, reply: string) => {
+    try {
+      setError(null);
+
+      const updatedReview = toReview(await ReviewService.replyToReview(reviewId, reply));
+      setReviews(prev => prev.map(r => r.id === reviewId ? updatedReview : r));
+      return updatedReview;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post reply');
+      throw err;
+    }
+  };
+
+  return {
+    reviews,
+    loading,
+    error,
+    replyToReview,
+    refetch: loadReviews
+  };
+}
@@ -0,0 +1,69 @@
+import { useAuth } from '../contexts/AuthContext';
+import { PlaceService } from '../services/placeService';
+import { SavedPlace, UserLocation } from '../types';
+import { toPlaceFields, toSavedPlace } from '../utils/placeAdapter';
+
+// Offered as quick labels when saving a place; parents can type any other name
+export const placeLabelSuggestions = ['Home', 'School', 'Grandparents'];
+
+// Saved places are loaded with the session user, so this hook only writes and keeps that copy current
+export function useSavedPlaces() {
+  const { user, updateUser, setUserLocation } = useAuth();
+  const places = user?.savedPlaces || [];
+  const activeLabel = user?.location?.label;
+
+  const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+
+  // Saving under an existing label (in any case) replaces that place
+  const savePlace = async (label: string, location: UserLocation) => {
+    if (!user?._id) throw new Error('User not authenticated');
+
+    const existing = places.find(p => p.label.toLowerCase() === label.trim().toLowerCase());
+    const placeLabel = existing?.label || label.trim();
+
+    let place: SavedPlace;
+    if (isDemoUser) {
+      place = { ...location, id: existing?.id || `demo-place-${Date.now()}`, label: placeLabel };
+    } else if (existing?.id) {
+      place = toSavedPlace(await PlaceService.updatePlace(existing.id, toPlaceFields(location)));
+    } else {
+      place = toSavedPlace(await PlaceService.createPlace({
+        user_id: user._id,
+        label: placeLabel,
+        ...toPlaceFields(location)
+      }));
+    }
+
+    updateUser({
+      savedPlaces: existing ? places.map(p => p === existing ? place : p) : [...places, place]
+    });
+    await switchPlace(place);
+    return place;
+  };
+
+  // Makes the place the one distances are measured from
+  const switchPlace = async (place: SavedPlace) => {
+    await setUserLocation({
+      city: place.city,
+      area: place.area,
+      pincode: place.pincode,
+      coordinates: place.coordinates,
+      label: place.label
+    });
+  };
+
+  const removePlace = async (placeId: string) => {
+    if (!isDemoUser) {
+      await PlaceService.deletePlace(placeId);
+    }
+    updateUser({ savedPlaces: places.filter(p => p.id !== placeId) });
+  };
+
+  return {
+    places,
+    activeLabel,
+    savePlace,
+    switchPlace,
+    removePlace
+  };
+}
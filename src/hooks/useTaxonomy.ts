@@ -0,0 +1,119 @@
+import { useState, useEffect, useMemo } from 'react';
+import { TaxonomyService } from '../services/taxonomyService';
+import { categories as bundledCategories } from '../data/mockData';
+import { bundledAreas, bundledCities } from '../data/gazetteer';
+import { Area, City, ServiceCategory } from '../types';
+import {
+  getCategoryBranch,
+  getCategoryLevels,
+  getCategoryPath,
+  getSubcategories,
+  getTopCategories
+} from '../utils/categoryTree';
+import { createGeocoder } from '../utils/geocode';
+import { toArea, toCategory, toCity } from '../utils/taxonomyAdapter';
+
+interface Taxonomy {
+  categories: ServiceCategory[];
+  cities: City[];
+  areas: Area[];
+}
+
+const bundledTaxonomy: Taxonomy = {
+  categories: bundledCategories,
+  cities: bundledCities,
+  areas: bundledAreas
+};
+
+// Loaded once per session and shared by every screen that uses the hook
+let cachedTaxonomy: Taxonomy | null = null;
+let pendingTaxonomy: Promise<Taxonomy> | null = null;
+
+const fetchTaxonomy = async (): Promise<Taxonomy> => {
+  const [categoryRows, cityRows, areaRows] = await Promise.all([
+    TaxonomyService.getCategories(),
+    TaxonomyService.getCities(),
+    TaxonomyService.getAreas()
+  ]);
+
+  return {
+    categories: categoryRows.map(toCategory),
+    cities: cityRows.map(toCity),
+    areas: areaRows.map(toArea)
+  };
+};
+
+const getTaxonomy = (reload: boolean) => {
+  if (cachedTaxonomy && !reload) return Promise.resolve(cachedTaxonomy);
+
+  if (!pendingTaxonomy || reload) {
+    pendingTaxonomy = fetchTaxonomy()
+      .then(taxonomy => {
+        cachedTaxonomy = taxonomy;
+        return taxonomy;
+      })
+      .finally(() => {
+        pendingTaxonomy = null;
+      });
+  }
+  return pendingTaxonomy;
+};
+
+// Categories (top-level and subcategories in one list), cities and areas, plus lookups over them.
+// Until the tables have loaded (or if they can't be), the lists the app shipped with are used.
+export function useTaxonomy() {
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(cachedTaxonomy || bundledTaxonomy);
+  const [loading, setLoading] = useState(!cachedTaxonomy);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTaxonomy();
+  }, []);
+
+  const loadTaxonomy = async (reload = false) => {
+    // Demo sessions have no database to read from
+    if (localStorage.getItem('demoUser')) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setTaxonomy(await getTaxonomy(reload));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load categories and locations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const geocoder = useMemo(
+    () => createGeocoder(taxonomy.cities, taxonomy.areas),
+    [taxonomy]
+  );
+
+  const topCategories = useMemo(() => getTopCategories(taxonomy.categories), [taxonomy]);
+
+  const getCategory = (categoryId: string) =>
+    taxonomy.categories.find(category => category.id === categoryId);
+
+  // "Music › Piano" for subcategories
+  const getCategoryLabel = (categoryId: string) =>
+    getCategoryPath(taxonomy.categories, categoryId).map(category => category.name).join(' › ') || categoryId;
+
+  return {
+    ...taxonomy,
+    ...geocoder,
+    topCategories,
+    getCategory,
+    getCategoryLabel,
+    getSubcategories: (parentId: string) => getSubcategories(taxonomy.categories, parentId),
+    getCategoryBranch: (categoryId: string) => getCategoryBranch(taxonomy.categories, categoryId),
+    getCategoryPath: (categoryId: string) => getCategoryPath(taxonomy.categories, categoryId),
+    getCategoryLevels: (selectedId: string) => getCategoryLevels(taxonomy.categories, selectedId),
+    loading,
+    error,
+    refetch: () => loadTaxonomy(true)
+  };
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { WishlistService } from '../services/wishlistService';
+
+// Demo users have no database rows, so their wishlist lives in local storage
+const DEMO_WISHLIST_KEY = 'demoWishlist';
+
+export function readDemoWishlist(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DEMO_WISHLIST_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeDemoWishlist(providerIds: string[]) {
+  localStorage.setItem(DEMO_WISHLIST_KEY, JSON.stringify(providerIds));
+}
+
+export function useWishlist() {
+  const { user } = useAuth();
+  const [providerIds, setProviderIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+
+  useEffect(() => {
+    if (user) {
+      loadWishlist();
+    } else {
+      setProviderIds([]);
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadWishlist = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!user?._id) return;
+
+      setProviderIds(isDemoUser ? readDemoWishlist() : await WishlistService.getWishlistProviderIds(user._id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load wishlist');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setSaved = (providerId: string, saved: boolean) => {
+    setProviderIds(prev => saved
+      ? [providerId, ...prev.filter(id => id !== providerId)]
+      : prev.filter(id => id !== providerId)
+    );
+  };
+
+  // Flips the heart immediately and rolls back if the server rejects the change.
+  // Resolves to the new saved state.
+  const toggleWishlist = async (providerId: string): Promise<boolean> => {
+    const wasSaved = providerIds.includes(providerId);
+
+    setError(null);
+    setSaved(providerId, !wasSaved);
+
+    if (isDemoUser) {
+      const current = readDemoWishlist().filter(id => id !== providerId);
+      writeDemoWishlist(wasSaved ? current : [providerId, ...current]);
+      return !wasSaved;
+    }
+
+    try {
+      if (!user?._id) throw new Error('User not authenticated');
+
+      if (wasSaved) {
+        await WishlistService.removeFromWishlist(user._id, providerId);
+      } else {
+        await WishlistService.addToWishlist(user._id, providerId);
+      }
+      return !wasSaved;
+    } catch (err) {
+      setSaved(providerId, wasSaved);
+      setError(err instanceof Error ? err.message : 'Failed to update wishlist');
+      throw err;
+    }
+  };
+
+  return {
+    providerIds,
+    loading,
+    error,
+    isWishlisted: (providerId: string) => providerIds.includes(providerId),
+    toggleWishlist,
+    refetch: loadWishlist
+  };
+}
@@ -3,47 +3,30 @@ import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, Save, MapPin, User, Phone, Mail, Globe, Building } from 'lucide-react';
 import Button from '../../components/UI/Button';
 import Card from '../../components/UI/Card';
+import SubcategoryPicker from '../../components/Provider/SubcategoryPicker';
 import { ProviderService } from '../../services/providerService';
-import { supabaseAdmin } from '../../lib/supabase';
+import { DEFAULT_TIMEZONE, weeklySlots } from '../../utils/schedule';
 import { useToast } from '../../hooks/useToast';
-
-const cities = [
-  'Delhi', 'Mumbai', 'Bangalore', 'Hyderabad', 'Chennai', 'Kolkata', 
-  'Pune', 'Gurgaon', 'Noida', 'Ahmedabad', 'Jaipur', 'Lucknow'
-];
-
-const areas = {
-  'Gurgaon': ['Sector 15', 'Sector 22', 'Phase 2', 'DLF City', 'Cyber City', 'Golf Course Road'],
-  'Delhi': ['Connaught Place', 'Karol Bagh', 'Lajpat Nagar', 'Saket', 'Dwarka', 'Rohini'],
-  'Mumbai': ['Bandra', 'Andheri', 'Powai', 'Thane', 'Navi Mumbai', 'Borivali'],
-  'Bangalore': ['Koramangala', 'Indiranagar', 'Whitefield', 'Electronic City', 'HSR Layout', 'Marathahalli'],
-  'Hyderabad': ['Hitech City', 'Banjara Hills', 'Jubilee Hills', 'Kondapur', 'Gachibowli', 'Secunderabad'],
-  'Chennai': ['T Nagar', 'Anna Nagar', 'Velachery', 'Adyar', 'Tambaram', 'OMR'],
-  'Kolkata': ['Salt Lake', 'Park Street', 'Ballygunge', 'New Town', 'Howrah', 'Rajarhat'],
-  'Pune': ['Koregaon Park', 'Hinjewadi', 'Baner', 'Wakad', 'Kothrud', 'Viman Nagar'],
-  'Noida': ['Sector 62', 'Sector 18', 'Sector 137', 'Greater Noida', 'Sector 76', 'Sector 135'],
-  'Ahmedabad': ['Satellite', 'Vastrapur', 'Bopal', 'Prahlad Nagar', 'Maninagar', 'Navrangpura'],
-  'Jaipur': ['Malviya Nagar', 'Vaishali Nagar', 'C Scheme', 'Mansarovar', 'Jagatpura', 'Tonk Road'],
-  'Lucknow': ['Gomti Nagar', 'Hazratganj', 'Aliganj', 'Indira Nagar', 'Mahanagar', 'Alambagh']
-};
-
-const serviceCategories = [
-  { id: 'tuition', name: 'Academic Tuitions', icon: '📚' },
-  { id: 'music', name: 'Music Classes', icon: '🎵' },
-  { id: 'dance', name: 'Dance Classes', icon: '💃' },
-  { id: 'sports', name: 'Sports Training', icon: '⚽' },
-  { id: 'coding', name: 'Coding / STEM', icon: '💻' },
-  { id: 'art', name: 'Art & Craft', icon: '🎨' },
-  { id: 'daycare', name: 'Daycare / After-school', icon: '🏠' },
-  { id: 'camps', name: 'Summer Camps', icon: '🏕️' }
-];
+import { useTaxonomy } from '../../hooks/useTaxonomy';
+import { Coordinates } from '../../utils/geo';
 
 export default function AddProvider() {
   const navigate = useNavigate();
   const { showSuccess, showError, showInfo } = useToast();
+  const {
+    topCategories,
+    getCategory,
+    getCategoryBranch,
+    cityNames,
+    getAreaNames,
+    geocodeArea,
+    lookupPincode,
+    reverseGeocode
+  } = useTaxonomy();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [locationMethod, setLocationMethod] = useState<'auto' | 'manual'>('manual');
   const [isDetecting, setIsDetecting] = useState(false);
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
 
   const [formData, setFormData] = useState({
     businessName: '',
@@ -64,11 +47,29 @@ export default function AddProvider() {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  // Typed or picked locations are placed at the area's centroid when the provider is saved
+  const handleLocationChange = (field: 'city' | 'area', value: string) => {
+    setCoordinates(null);
+    setFormData(prev => field === 'city' ? { ...prev, city: value, area: '' } : { ...prev, area: value });
+  };
+
+  const handlePincodeChange = (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, 6);
+    const match = digits.length === 6 ? lookupPincode(digits) : null;
+    if (match) {
+      setCoordinates(null);
+      setFormData(prev => ({ ...prev, pincode: digits, city: match.city, area: match.area }));
+    } else {
+      handleInputChange('pincode', digits);
+    }
+  };
+
+  // Dropping a category also drops the subcategories chosen under it
   const handleCategoryToggle = (categoryId: string) => {
     setFormData(prev => ({
       ...prev,
       categories: prev.categories.includes(categoryId)
-        ? prev.categories.filter(id => id !== categoryId)
+        ? prev.categories.filter(id => !getCategoryBranch(categoryId).includes(id))
         : [...prev.categories, categoryId]
     }));
   };
@@ -94,16 +95,22 @@ export default function AddProvider() {
 
       const { latitude, longitude } = position.coords;
 
-      // Mock reverse geocoding (in real app, use Google Maps API or similar)
-      // For demo, we'll set some default values
+      const location = reverseGeocode({ lat: latitude, lng: longitude });
+
+      if (!location) {
+        showError('Location Not Covered', 'This position is not near any area we cover. Please enter the location manually.');
+        return;
+      }
+
+      setCoordinates({ lat: latitude, lng: longitude });
       setFormData(prev => ({
         ...prev,
-        city: 'Gurgaon',
-        area: 'Sector 15',
-        pincode: '122001'
+        city: location.city,
+        area: location.area,
+        pincode: location.pincode || ''
       }));
 
-      showSuccess('Location Detected', 'Location detected successfully! Demo values filled.');
+      showSuccess('Location Detected', `${location.area}, ${location.city}`);
     } catch (error) {
       console.error('Error detecting location:', error);
       showError('Location Error', 'Could not detect location. Please enter manually.');
@@ -112,6 +119,8 @@ export default function AddProvider() {
     }
   };
 
+  const cityAreas = formData.city ? getAreaNames(formData.city) : [];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -128,6 +137,8 @@ export default function AddProvider() {
     try {
       console.log('📝 Creating new provider...', formData);
       
+      const position = coordinates || geocodeArea(formData.city, formData.area);
+
       // Create provider directly without auth user (admin-created providers)
       const providerData = {
         user_id: null, // Admin-created providers don't have auth users initially
@@ -144,8 +155,8 @@ export default function AddProvider() {
         pincode: formData.pincode,
         status: formData.status,
         is_published: formData.status === 'approved', // Auto-publish if approved
-        latitude: 28.4595, // Mock coordinates
-        longitude: 77.0266
+        latitude: position?.lat ?? null,
+        longitude: position?.lng ?? null
       };
 
       console.log('📝 Creating provider with data:', providerData);
@@ -159,20 +170,27 @@ export default function AddProvider() {
         console.log('✅ Services added:', formData.categories);
       }
       
-      // Create a sample class for each category
-      for (const category of formData.categories) {
+      // Create a sample class for each of the most specific categories chosen
+      const sampleCategories = formData.categories.filter(id =>
+        !formData.categories.some(other => getCategory(other)?.parentId === id)
+      );
+      for (const category of sampleCategories) {
         console.log('📝 Creating class for category:', category);
+        const serviceName = getCategory(category)?.serviceName || category;
         await ProviderService.createClass({
           provider_id: newProvider.id,
-          name: `${category.charAt(0).toUpperCase() + category.slice(1)} Classes`,
-          description: `Professional ${category} training and education`,
+          name: serviceName,
+          description: `Professional ${serviceName.toLowerCase()} training and education`,
           category: category,
           age_group: '6-16 years',
           mode: 'offline',
           duration: '60 minutes',
           price: 1500,
           fee_type: 'per_session',
-          schedule: { timings: ['Mon 4-5 PM', 'Wed 4-5 PM', 'Sat 10-11 AM'] }
+          schedule: {
+            timezone: DEFAULT_TIMEZONE,
+            slots: [...weeklySlots(['mon', 'wed'], '16:00', '17:00'), ...weeklySlots(['sat'], '10:00', '11:00')]
+          }
         });
       }
       console.log('✅ Sample classes created');
@@ -397,15 +415,12 @@ export default function AddProvider() {
                 </label>
                 <select
                   value={formData.city}
-                  onChange={(e) => {
-                    handleInputChange('city', e.target.value);
-                    handleInputChange('area', ''); // Reset area when city changes
-                  }}
+                  onChange={(e) => handleLocationChange('city', e.target.value)}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   required
                 >
                   <option value="">Select City</option>
-                  {cities.map(city => (
+                  {cityNames.map(city => (
                     <option key={city} value={city}>{city}</option>
                   ))}
                 </select>
@@ -415,16 +430,16 @@ export default function AddProvider() {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Area * 
                 </label>
-                {formData.city && areas[formData.city as keyof typeof areas] ? (
+                {cityAreas.length > 0 ? (
                   <div className="space-y-2">
                     <select
                       value={formData.area}
-                      onChange={(e) => handleInputChange('area', e.target.value)}
+                      onChange={(e) => handleLocationChange('area', e.target.value)}
                       className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       required
                     >
                       <option value="">Select Area</option>
-                      {areas[formData.city as keyof typeof areas].map(area => (
+                      {cityAreas.map(area => (
                         <option key={area} value={area}>{area}</option>
                       ))}
                     </select>
@@ -432,7 +447,7 @@ export default function AddProvider() {
                     <input
                       type="text"
                       value={formData.area}
-                      onChange={(e) => handleInputChange('area', e.target.value)}
+                      onChange={(e) => handleLocationChange('area', e.target.value)}
                       placeholder="Type area name manually"
                       className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
@@ -441,7 +456,7 @@ export default function AddProvider() {
                   <input
                     type="text"
                     value={formData.area}
-                    onChange={(e) => handleInputChange('area', e.target.value)}
+                    onChange={(e) => handleLocationChange('area', e.target.value)}
                     placeholder={formData.city ? `Enter area in ${formData.city}` : "Select city first"}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     required
@@ -457,7 +472,7 @@ export default function AddProvider() {
                 <input
                   type="text"
                   value={formData.pincode}
-                  onChange={(e) => handleInputChange('pincode', e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  onChange={(e) => handlePincodeChange(e.target.value)}
                   placeholder="123456"
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   maxLength={6}
@@ -474,7 +489,7 @@ export default function AddProvider() {
             </div>
             
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              {serviceCategories.map(category => (
+              {topCategories.map(category => (
                 <button
                   key={category.id}
                   type="button"
@@ -486,10 +501,14 @@ export default function AddProvider() {
                   }`}
                 >
                   <div className="text-2xl mb-2">{category.icon}</div>
-                  <div className="font-medium text-sm">{category.name}</div>
+                  <div className="font-medium text-sm">{category.serviceName}</div>
                 </button>
               ))}
             </div>
+
+            <div className="mt-6">
+              <SubcategoryPicker selected={formData.categories} onToggle={handleCategoryToggle} />
+            </div>
           </Card>
 
           {/* Status */}
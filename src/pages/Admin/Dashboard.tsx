@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
 import { useToast } from '../../hooks/useToast';
+import { useTaxonomy } from '../../hooks/useTaxonomy';
 import { 
   Users, 
   Plus, 
@@ -13,11 +15,14 @@ import {
   CheckCircle,
   XCircle,
   Clock,
-  LogOut
+  LogOut,
+  MapPin,
+  Flag
 } from 'lucide-react';
 import Button from '../../components/UI/Button';
 import Card from '../../components/UI/Card';
 import { ProviderService } from '../../services/providerService';
+import { DEFAULT_TIMEZONE, weeklySlots } from '../../utils/schedule';
 
 interface Provider {
   id: string;
@@ -42,7 +47,9 @@ interface Stats {
 
 export default function AdminDashboard() {
   const navigate = useNavigate();
+  const { logout } = useAuth();
   const { showSuccess, showError } = useToast();
+  const { getCategoryLabel } = useTaxonomy();
   const [providers, setProviders] = useState<Provider[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('all');
@@ -104,16 +111,9 @@ export default function AdminDashboard() {
   ];
 
   useEffect(() => {
-    // Check admin authentication
-    const adminAuth = localStorage.getItem('adminAuth');
-    if (!adminAuth) {
-      navigate('/admin/login');
-      return;
-    }
-
     loadProviders();
     insertSampleProvidersIfNeeded();
-  }, [navigate]);
+  }, []);
 
   const loadProviders = async () => {
     try {
@@ -206,7 +206,7 @@ export default function AdminDashboard() {
               duration: '2 hours',
               price: 2000,
               fee_type: 'monthly',
-              schedule: { timing: 'Mon-Fri 5PM-7PM' }
+              schedule: { timezone: DEFAULT_TIMEZONE, slots: weeklySlots(['mon', 'tue', 'wed', 'thu', 'fri'], '17:00', '19:00') }
             });
           } else if (services.includes('art')) {
             await ProviderService.createClass({
@@ -219,7 +219,7 @@ export default function AdminDashboard() {
               duration: '2 hours',
               price: 1500,
               fee_type: 'monthly',
-              schedule: { timing: 'Sat-Sun 10AM-12PM' }
+              schedule: { timezone: DEFAULT_TIMEZONE, slots: weeklySlots(['sat', 'sun'], '10:00', '12:00') }
             });
           } else if (services.includes('sports')) {
             await ProviderService.createClass({
@@ -232,7 +232,7 @@ export default function AdminDashboard() {
               duration: '2 hours',
               price: 2500,
               fee_type: 'monthly',
-              schedule: { timing: 'Mon-Wed-Fri 6AM-8AM' }
+              schedule: { timezone: DEFAULT_TIMEZONE, slots: weeklySlots(['mon', 'wed', 'fri'], '06:00', '08:00') }
             });
           }
         }
@@ -246,12 +246,6 @@ export default function AdminDashboard() {
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('adminAuth');
-    localStorage.removeItem('adminUser');
-    navigate('/');
-  };
-
   const handleStatusChange = async (providerId: string, newStatus: 'approved' | 'rejected') => {
     try {
       console.log('📢 Updating provider status:', providerId, 'to', newStatus);
@@ -359,7 +353,23 @@ export default function AdminDashboard() {
                 Add Provider
               </Button>
               <Button 
-                onClick={handleLogout}
+                onClick={() => navigate('/admin/locations')}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <MapPin className="w-4 h-4" />
+                Cities & Areas
+              </Button>
+              <Button 
+                onClick={() => navigate('/admin/moderation')}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <Flag className="w-4 h-4" />
+                Moderation
+              </Button>
+              <Button 
+                onClick={logout}
                 variant="outline"
                 className="flex items-center gap-2"
               >
@@ -486,7 +496,7 @@ export default function AdminDashboard() {
                               key={category}
                               className="px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full"
                             >
-                              {category}
+                              {getCategoryLabel(category)}
                             </span>
                           ))}
                         </div>
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, MapPin, Plus } from 'lucide-react';
+import Button from '../../components/UI/Button';
+import Card from '../../components/UI/Card';
+import { TaxonomyService } from '../../services/taxonomyService';
+import { useTaxonomy } from '../../hooks/useTaxonomy';
+import { useToast } from '../../hooks/useToast';
+
+const inputClasses = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Blank coordinates are allowed (null); anything else must be a valid latitude/longitude
+const parseCoordinate = (value: string, limit: number): number | null | undefined => {
+  if (!value.trim()) return null;
+  const number = Number(value);
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : undefined;
+};
+
+export default function AdminLocations() {
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useToast();
+  const { cities, areas, getAreaNames, loading, error, refetch } = useTaxonomy();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cityForm, setCityForm] = useState({ name: '', latitude: '', longitude: '' });
+  const [areaForm, setAreaForm] = useState({ cityId: '', name: '', pincode: '', latitude: '', longitude: '' });
+
+  const handleAddCity = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const latitude = parseCoordinate(cityForm.latitude, 90);
+    const longitude = parseCoordinate(cityForm.longitude, 180);
+    if (!cityForm.name.trim() || latitude == null || longitude == null) {
+      showError('Missing Information', 'Enter the city name and the latitude and longitude of its centre');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await TaxonomyService.addCity({
+        name: cityForm.name.trim(),
+        latitude,
+        longitude,
+        sort_order: cities.length + 1
+      });
+      await refetch();
+      setCityForm({ name: '', latitude: '', longitude: '' });
+      showSuccess('City Added', `${cityForm.name.trim()} can now be chosen by parents and providers.`);
+    } catch (err) {
+      showError('City Not Added', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddArea = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const latitude = parseCoordinate(areaForm.latitude, 90);
+    const longitude = parseCoordinate(areaForm.longitude, 180);
+    if (!areaForm.cityId || !areaForm.name.trim()) {
+      showError('Missing Information', 'Choose a city and enter the area name');
+      return;
+    }
+    if (areaForm.pincode && !/^\d{6}$/.test(areaForm.pincode)) {
+      showError('Invalid Pin Code', 'Pin codes have 6 digits');
+      return;
+    }
+    if (latitude === undefined || longitude === undefined || (latitude === null) !== (longitude === null)) {
+      showError('Invalid Coordinates', 'Enter both latitude and longitude, or leave both empty');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await TaxonomyService.addArea({
+        city_id: areaForm.cityId,
+        name: areaForm.name.trim(),
+        pincode: areaForm.pincode || null,
+        latitude,
+        longitude
+      });
+      await refetch();
+      setAreaForm(prev => ({ ...prev, name: '', pincode: '', latitude: '', longitude: '' }));
+      showSuccess('Area Added', `${areaForm.name.trim()} has been added.`);
+    } catch (err) {
+      showError('Area Not Added', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button
+              onClick={() => navigate('/admin/dashboard')}
+              className="p-2 -ml-2 mr-4 hover:bg-gray-100 rounded-full"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Cities & Areas</h1>
+              <p className="text-gray-600">Places parents and providers can choose from</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {error && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+            Could not load cities and areas ({error}). The built-in list is shown instead.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Add City */}
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Add City</h2>
+            <form onSubmit={handleAddCity} className="space-y-4">
+              <input
+                type="text"
+                value={cityForm.name}
+                onChange={(e) => setCityForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="City name"
+                className={inputClasses}
+                required
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={cityForm.latitude}
+                  onChange={(e) => setCityForm(prev => ({ ...prev, latitude: e.target.value }))}
+                  placeholder="Latitude"
+                  className={inputClasses}
+                  required
+                />
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={cityForm.longitude}
+                  onChange={(e) => setCityForm(prev => ({ ...prev, longitude: e.target.value }))}
+                  placeholder="Longitude"
+                  className={inputClasses}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isSubmitting} className="w-full flex items-center justify-center gap-2">
+                <Plus className="w-4 h-4" />
+                Add City
+              </Button>
+            </form>
+          </Card>
+
+          {/* Add Area */}
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Add Area</h2>
+            <form onSubmit={handleAddArea} className="space-y-4">
+              <select
+                value={areaForm.cityId}
+                onChange={(e) => setAreaForm(prev => ({ ...prev, cityId: e.target.value }))}
+                className={inputClasses}
+                required
+              >
+                <option value="">Select City</option>
+                {cities.filter(city => city.id).map(city => (
+                  <option key={city.id} value={city.id}>{city.name}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={areaForm.name}
+                onChange={(e) => setAreaForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Area name"
+                className={inputClasses}
+                required
+              />
+              <input
+                type="text"
+                value={areaForm.pincode}
+                onChange={(e) => setAreaForm(prev => ({ ...prev, pincode: e.target.value.replace(/\D/g, '').slice(0, 6) }))}
+                placeholder="Pin code (optional)"
+                className={inputClasses}
+                maxLength={6}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={areaForm.latitude}
+                  onChange={(e) => setAreaForm(prev => ({ ...prev, latitude: e.target.value }))}
+                  placeholder="Latitude (optional)"
+                  className={inputClasses}
+                />
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={areaForm.longitude}
+                  onChange={(e) => setAreaForm(prev => ({ ...prev, longitude: e.target.value }))}
+                  placeholder="Longitude (optional)"
+                  className={inputClasses}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Areas without coordinates are placed at the city centre for distance search.
+              </p>
+              <Button type="submit" disabled={isSubmitting} className="w-full flex items-center justify-center gap-2">
+                <Plus className="w-4 h-4" />
+                Add Area
+              </Button>
+            </form>
+          </Card>
+        </div>
+
+        {/* Current list */}
+        <Card className="p-6">
+          <div className="flex items-center mb-6">
+            <MapPin className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-xl font-semibold text-gray-900">
+              {cities.length} cities, {areas.length} areas
+            </h2>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {cities.map(city => (
+                <div key={city.id || city.name}>
+                  <h3 className="font-medium text-gray-900 mb-2">{city.name}</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {getAreaNames(city.name).map(area => (
+                      <span key={area} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full">
+                        {area}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, EyeOff, Eye, Flag, X } from 'lucide-react';
+import Button from '../../components/UI/Button';
+import Card from '../../components/UI/Card';
+import { useModerationQueue } from '../../hooks/useModeration';
+import { useToast } from '../../hooks/useToast';
+import { reportReasonLabels, reportTargetLabels } from '../../services/reportService';
+import { ModerationDecision } from '../../types';
+import { ModerationItem } from '../../utils/moderationAdapter';
+
+const decisionLabels: Record<ModerationDecision, string> = {
+  hide: 'Hidden',
+  restore: 'Restored',
+  dismiss: 'Dismissed'
+};
+
+export default function AdminModeration() {
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useToast();
+  const { items, hiddenItems, decisions, loading, error, moderate, refetch } = useModerationQueue();
+  const [view, setView] = useState<'reported' | 'hidden'>('reported');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const keyOf = (item: ModerationItem) => `${item.targetType}:${item.targetId}`;
+
+  const handleDecision = async (item: ModerationItem, decision: ModerationDecision) => {
+    const key = keyOf(item);
+    try {
+      setBusyKey(key);
+      await moderate(item.targetType, item.targetId, decision, notes[key]);
+      setNotes(prev => ({ ...prev, [key]: '' }));
+      showSuccess(decisionLabels[decision], `${reportTargetLabels[item.targetType]}: ${item.title}`);
+    } catch (err) {
+      showError('Decision Not Saved', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const shownItems = view === 'reported' ? items : hiddenItems;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button
+              onClick={() => navigate('/admin/dashboard')}
+              className="p-2 -ml-2 mr-4 hover:bg-gray-100 rounded-full"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Moderation</h1>
+              <p className="text-gray-600">Reported reviews, photos and providers</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex gap-2">
+          {([
+            ['reported', `Reported (${items.length})`],
+            ['hidden', `Hidden (${hiddenItems.length})`]
+          ] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                view === id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-600 border border-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {loading && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading reports...</p>
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="text-center py-12">
+            <p className="text-red-500 mb-4">{error}</p>
+            <Button onClick={refetch} variant="outline">
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {!loading && !error && shownItems.length === 0 && (
+          <Card className="p-12 text-center">
+            <Flag className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {view === 'reported' ? 'Nothing to review' : 'Nothing is hidden'}
+            </h3>
+            <p className="text-gray-600">
+              {view === 'reported'
+                ? 'Reports from parents and providers will appear here.'
+                : 'Items you hide stay here until they are restored.'}
+            </p>
+          </Card>
+        )}
+
+        {!loading && !error && shownItems.map(item => {
+          const key = keyOf(item);
+
+          return (
+            <Card key={key} className="p-6">
+              <div className="flex items-start gap-4 mb-3">
+                {item.imageUrl && (
+                  <img src={item.imageUrl} alt="" className="w-20 h-20 rounded-lg object-cover flex-shrink-0" />
+                )}
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded-full">
+                      {reportTargetLabels[item.targetType]}
+                    </span>
+                    {item.isHidden && (
+                      <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs rounded-full">Hidden</span>
+                    )}
+                  </div>
+                  <h3 className="font-semibold text-gray-900">{item.title}</h3>
+                  {item.description && <p className="text-sm text-gray-600 mt-1">{item.description}</p>}
+                </div>
+              </div>
+
+              {item.reports.length > 0 && (
+                <ul className="space-y-2 mb-4">
+                  {item.reports.map(report => (
+                    <li key={report.id} className="bg-gray-50 rounded-lg p-3 text-sm">
+                      <div className="flex justify-between">
+                        <span className="font-medium text-gray-900">{reportReasonLabels[report.reason]}</span>
+                        <span className="text-gray-500">{new Date(report.created_at).toLocaleDateString()}</span>
+                      </div>
+                      {report.details && <p className="text-gray-700 mt-1">{report.details}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {item.exists && (
+                <input
+                  type="text"
+                  value={notes[key] || ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [key]: e.target.value }))}
+                  placeholder="Note for the record (optional)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm mb-3 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              )}
+
+              <div className="flex justify-end gap-2">
+                {view === 'reported' && (
+                  <Button size="sm" variant="outline" onClick={() => handleDecision(item, 'dismiss')} disabled={busyKey === key}>
+                    <X className="w-4 h-4 mr-1" />
+                    Dismiss
+                  </Button>
+                )}
+                {item.exists && (item.isHidden ? (
+                  <Button size="sm" variant="outline" onClick={() => handleDecision(item, 'restore')} disabled={busyKey === key}>
+                    <Eye className="w-4 h-4 mr-1" />
+                    Restore
+                  </Button>
+                ) : (
+                  <Button size="sm" onClick={() => handleDecision(item, 'hide')} disabled={busyKey === key}>
+                    <EyeOff className="w-4 h-4 mr-1" />
+                    Hide
+                  </Button>
+                ))}
+              </div>
+            </Card>
+          );
+        })}
+
+        {!loading && decisions.length > 0 && (
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Decisions</h2>
+            <ul className="divide-y divide-gray-200">
+              {decisions.map(decision => (
+                <li key={decision.id} className="py-2 text-sm flex justify-between gap-4">
+                  <span className="text-gray-700">
+                    <span className="font-medium text-gray-900">{decisionLabels[decision.action]}</span>
+                    {' '}{reportTargetLabels[decision.target_type].toLowerCase()}
+                    {decision.note && <span className="text-gray-500"> — {decision.note}</span>}
+                  </span>
+                  <span className="text-gray-500 flex-shrink-0">{new Date(decision.created_at).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
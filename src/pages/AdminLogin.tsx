@@ -1,39 +1,49 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Shield, User, Lock, ArrowRight } from 'lucide-react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { Shield, Mail, Lock, ArrowRight } from 'lucide-react';
 import Button from '../components/UI/Button';
 import Card from '../components/UI/Card';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { UserService } from '../services/userService';
 
 export default function AdminLogin() {
-  const [username, setUsername] = useState('admin');
-  const [password, setPassword] = useState('admin123');
+  const { user, supabaseUser, login } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
 
+  if (supabaseUser && !localStorage.getItem('demoUser') && user?.role === 'admin') {
+    return <Navigate to="/admin/dashboard" replace />;
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!username.trim() || !password.trim()) {
-      alert('Please fill all fields');
+    if (!email.trim() || !password.trim()) {
+      setError('Please fill all fields');
       return;
     }
     
+    setError('');
     setIsLoading(true);
     
-    // Demo credentials check
-    if (username === 'admin' && password === 'admin123') {
-      // Store admin session
-      localStorage.setItem('adminAuth', 'true');
-      localStorage.setItem('adminUser', JSON.stringify({
-        id: 'admin-1',
-        username: 'admin',
-        role: 'admin',
-        name: 'System Administrator'
-      }));
-      
+    try {
+      await login(email.trim(), password);
+
+      // The session is only half the story: the account must also be an admin on the server
+      if (!(await UserService.isAdmin())) {
+        await supabase.auth.signOut();
+        setError('This account does not have admin access.');
+        setIsLoading(false);
+        return;
+      }
+
       navigate('/admin/dashboard');
-    } else {
-      alert('Invalid credentials. Use admin/admin123');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed. Please try again.');
       setIsLoading(false);
     }
   };
@@ -58,23 +68,24 @@ export default function AdminLogin() {
               Administrator Login
             </h2>
             <p className="text-gray-400 text-sm">
-              Demo credentials: admin / admin123
+              Sign in with your BrightRoots admin account
             </p>
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Username Field */}
+            {/* Email Field */}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                Username
+                Email
               </label>
               <div className="relative">
-                <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
                 <input
-                  type="text"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  placeholder="Enter username"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Enter email"
+                  autoComplete="username"
                   className="w-full pl-10 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all text-white placeholder-gray-400"
                   required
                 />
@@ -93,12 +104,17 @@ export default function AdminLogin() {
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   placeholder="Enter password"
+                  autoComplete="current-password"
                   className="w-full pl-10 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all text-white placeholder-gray-400"
                   required
                 />
               </div>
             </div>
 
+            {error && (
+              <p className="text-sm text-red-400">{error}</p>
+            )}
+
             <Button 
               type="submit" 
               size="lg" 
@@ -111,16 +127,6 @@ export default function AdminLogin() {
               {!isLoading && <ArrowRight className="ml-2 w-4 h-4 group-hover:translate-x-1 transition-transform" />}
             </Button>
           </form>
-
-          <div className="mt-6 pt-6 border-t border-gray-700">
-            <div className="bg-gray-700 rounded-lg p-4">
-              <h3 className="text-sm font-medium text-white mb-2">Demo Credentials:</h3>
-              <div className="text-sm text-gray-300 space-y-1">
-                <p><strong>Username:</strong> admin</p>
-                <p><strong>Password:</strong> admin123</p>
-              </div>
-            </div>
-          </div>
         </Card>
 
         <div className="mt-6 text-center">
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { ArrowLeft, Calendar, Clock, Phone, Star } from 'lucide-react';
+import { useParentBookings, useParentWaitlist } from '../hooks/useBookings';
+import { useToast } from '../hooks/useToast';
+import { bookingStatusLabels, bookingTransitions, BookingStatus } from '../services/bookingService';
+import { normalizeSchedule } from '../utils/providerAdapter';
+import Card from '../components/UI/Card';
+import Button from '../components/UI/Button';
+import BookingStatusBadge from '../components/Booking/BookingStatusBadge';
+
+export default function Bookings() {
+  const { bookings, loading, error, cancelBooking, refetch } = useParentBookings();
+  const { entries: waitlistEntries, acceptOffer, leaveWaitlist } = useParentWaitlist();
+  const { showSuccess, showError } = useToast();
+  const [filter, setFilter] = useState<BookingStatus | 'all'>('all');
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const filteredBookings = bookings.filter(booking =>
+    filter === 'all' || booking.status === filter
+  );
+
+  const handleCancel = async (bookingId: string) => {
+    if (!confirm('Cancel this booking? The provider will be notified.')) return;
+
+    try {
+      setUpdatingId(bookingId);
+      await cancelBooking(bookingId);
+      showSuccess('Booking Cancelled');
+    } catch (err) {
+      showError('Could Not Cancel Booking', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleAcceptOffer = async (entryId: string) => {
+    try {
+      setUpdatingId(entryId);
+      await acceptOffer(entryId);
+      showSuccess('Seat Booked', 'Your booking is confirmed.');
+      refetch();
+    } catch (err) {
+      showError('Could Not Book Seat', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    if (!confirm('Leave this waitlist? You will lose your place in the queue.')) return;
+
+    try {
+      setUpdatingId(entryId);
+      await leaveWaitlist(entryId);
+      showSuccess('Left Waitlist');
+    } catch (err) {
+      showError('Could Not Leave Waitlist', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-16">
+      {/* Header */}
+      <div className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="flex items-center p-4">
+          <button onClick={() => window.history.back()} className="p-2 -ml-2 mr-2">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-semibold">My Bookings</h1>
+        </div>
+      </div>
+
+      <div className="px-4 py-6">
+        {/* Waitlist */}
+        {waitlistEntries.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-sm font-semibold text-gray-900 mb-3">Waitlists</h2>
+            <div className="space-y-3">
+              {waitlistEntries.map(entry => (
+                <Card key={entry.id} className={`p-4 ${entry.status === 'offered' ? 'border-2 border-green-500' : ''}`}>
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">
+                        {entry.provider_classes?.name || 'Class no longer listed'}
+                      </h3>
+                      <p className="text-sm text-gray-600">
+                        {entry.providers?.business_name || 'Provider no longer listed'} • For {entry.child_name}
+                      </p>
+                    </div>
+                  </div>
+                  <p className={`text-sm mb-3 ${entry.status === 'offered' ? 'text-green-700 font-medium' : 'text-gray-500'}`}>
+                    {entry.status === 'offered' && entry.hold_expires_at
+                      ? `A seat is held for you until ${new Date(entry.hold_expires_at).toLocaleString()}`
+                      : `On the waitlist since ${new Date(entry.created_at).toLocaleDateString()}`}
+                  </p>
+                  <div className="flex justify-end space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleLeaveWaitlist(entry.id)}
+                      disabled={updatingId === entry.id}
+                    >
+                      Leave
+                    </Button>
+                    {entry.status === 'offered' && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleAcceptOffer(entry.id)}
+                        disabled={updatingId === entry.id}
+                      >
+                        Accept Seat
+                      </Button>
+                    )}
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Filter Tabs */}
+        <div className="flex space-x-2 mb-6 overflow-x-auto">
+          {(['all', 'pending', 'confirmed', 'completed', 'cancelled'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setFilter(status)}
+              className={`flex-shrink-0 px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                filter === status
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-white text-gray-600 border border-gray-200'
+              }`}
+            >
+              {status === 'all' ? 'All' : bookingStatusLabels[status]}
+            </button>
+          ))}
+        </div>
+
+        {loading && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading bookings...</p>
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="text-center py-12">
+            <div className="text-red-500 mb-4">
+              <span className="text-4xl">⚠️</span>
+              <h3 className="text-xl font-medium mt-2">Error Loading Bookings</h3>
+              <p className="text-red-400 mt-2">{error}</p>
+            </div>
+            <Button onClick={refetch} variant="outline">
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {!loading && !error && (
+          <div className="space-y-4">
+            {filteredBookings.length > 0 ? (
+              filteredBookings.map(booking => {
+                const schedule = normalizeSchedule(booking.provider_classes?.schedule);
+
+                return (
+                  <Card key={booking.id} className="p-4">
+                    <div className="flex items-start justify-between mb-3">
+                      <div className="flex-1">
+                        <h3 className="font-semibold text-gray-900 mb-1">
+                          {booking.provider_classes?.name || 'Class no longer listed'}
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                          {booking.providers?.business_name || 'Provider no longer listed'} • For {booking.child_name}
+                        </p>
+                      </div>
+                      <BookingStatusBadge status={booking.status} />
+                    </div>
+
+                    <div className="space-y-1 text-sm text-gray-600 mb-3">
+                      {booking.start_date && (
+                        <div className="flex items-center space-x-2">
+                          <Calendar className="w-4 h-4" />
+                          <span>Starts {new Date(booking.start_date).toLocaleDateString()}</span>
+                        </div>
+                      )}
+                      {schedule.length > 0 && (
+                        <div className="flex items-center space-x-2">
+                          <Clock className="w-4 h-4" />
+                          <span>{schedule.join(', ')}</span>
+                        </div>
+                      )}
+                      {booking.total_amount !== null && (
+                        <p>₹{booking.total_amount} • Payment {booking.payment_status}</p>
+                      )}
+                    </div>
+
+                    {booking.notes && (
+                      <div className="bg-gray-50 rounded-lg p-3 mb-3">
+                        <p className="text-sm text-gray-700">{booking.notes}</p>
+                      </div>
+                    )}
+
+                    <div className="flex items-center justify-between text-sm text-gray-500">
+                      <span>Requested on {new Date(booking.created_at).toLocaleDateString()}</span>
+                      <div className="flex items-center space-x-2">
+                        {bookingTransitions[booking.status].includes('cancelled') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleCancel(booking.id)}
+                            disabled={updatingId === booking.id}
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                        {booking.status === 'confirmed' && booking.providers?.phone && (
+                          <Button size="sm" variant="outline" onClick={() => window.open(`tel:${booking.providers?.phone}`)}>
+                            <Phone className="w-3 h-3 mr-1" />
+                            Call
+                          </Button>
+                        )}
+                        {booking.status === 'completed' && !booking.reviews?.length && (
+                          <Button size="sm" variant="outline" to={`/provider/${booking.provider_id}`}>
+                            <Star className="w-3 h-3 mr-1" />
+                            Review
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </Card>
+                );
+              })
+            ) : (
+              <div className="text-center py-12">
+                <div className="text-gray-500 mb-4">
+                  <Calendar className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <h3 className="text-xl font-medium">No bookings found</h3>
+                  <p className="text-gray-400 mt-2">
+                    {filter === 'all'
+                      ? "You haven't booked any classes yet."
+                      : `No ${bookingStatusLabels[filter].toLowerCase()} bookings.`
+                    }
+                  </p>
+                </div>
+                {filter === 'all' && (
+                  <Button to="/home">
+                    Explore Providers
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
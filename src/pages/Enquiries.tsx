@@ -1,24 +1,77 @@
-import React, { useState } from 'react';
-import { MessageCircle, Clock, CheckCircle, Phone, ArrowLeft } from 'lucide-react';
-import { mockEnquiries } from '../data/mockData';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MessageCircle, Clock, CheckCircle, Phone, ArrowLeft, Calendar } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useParentEnquiries, useUnreadMessageCounts } from '../hooks/useEnquiries';
+import { useToast } from '../hooks/useToast';
+import { BookingService } from '../services/bookingService';
 import Card from '../components/UI/Card';
 import Button from '../components/UI/Button';
+import EnquiryThread from '../components/Enquiry/EnquiryThread';
 
 export default function Enquiries() {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const { enquiries, loading, error, closeEnquiry, withdrawEnquiry, markAwaitingReply, refetch } = useParentEnquiries();
+  const { counts: unreadCounts, total: totalUnread, markRead } = useUnreadMessageCounts('parent', user?._id);
+  const { showSuccess, showError } = useToast();
   const [filter, setFilter] = useState<'all' | 'sent' | 'responded' | 'closed'>('all');
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
 
-  // For demo users, show all enquiries. For real users, filter by parent ID
-  const isDemoUser = localStorage.getItem('demoUser');
-  const userEnquiries = isDemoUser 
-    ? mockEnquiries 
-    : mockEnquiries.filter(enquiry => enquiry.parent === user?._id);
-    
-  const filteredEnquiries = userEnquiries.filter(enquiry => 
+  const filteredEnquiries = enquiries.filter(enquiry => 
     filter === 'all' || enquiry.status === filter
   );
 
+  const handleClose = async (enquiryId: string) => {
+    if (!confirm('Close this enquiry? The provider will see that you no longer need a reply.')) return;
+
+    try {
+      setUpdatingId(enquiryId);
+      await closeEnquiry(enquiryId);
+      showSuccess('Enquiry Closed');
+    } catch (err) {
+      showError('Could Not Close Enquiry', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleWithdraw = async (enquiryId: string) => {
+    if (!confirm('Withdraw this enquiry? It will be removed for you and the provider.')) return;
+
+    try {
+      setUpdatingId(enquiryId);
+      await withdrawEnquiry(enquiryId);
+      showSuccess('Enquiry Withdrawn');
+    } catch (err) {
+      showError('Could Not Withdraw Enquiry', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleBook = async (enquiryId: string) => {
+    if (!confirm('Request a booking for this class? The provider will confirm it.')) return;
+
+    if (localStorage.getItem('demoUser')) {
+      showSuccess('Booking Requested', 'The provider will confirm your booking soon.');
+      navigate('/bookings');
+      return;
+    }
+
+    try {
+      setUpdatingId(enquiryId);
+      await BookingService.createFromEnquiry(enquiryId);
+      showSuccess('Booking Requested', 'The provider will confirm your booking soon.');
+      navigate('/bookings');
+    } catch (err) {
+      showError('Could Not Request Booking', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'responded':
@@ -54,6 +107,11 @@ export default function Enquiries() {
             <ArrowLeft className="w-5 h-5" />
           </button>
           <h1 className="text-lg font-semibold">My Enquiries</h1>
+          {totalUnread > 0 && (
+            <span className="ml-2 px-2 py-0.5 bg-purple-600 text-white text-xs font-medium rounded-full">
+              {totalUnread} unread
+            </span>
+          )}
         </div>
       </div>
 
@@ -75,72 +133,153 @@ export default function Enquiries() {
           ))}
         </div>
 
-        {/* Enquiries List */}
-        <div className="space-y-4">
-          {filteredEnquiries.length > 0 ? (
-            filteredEnquiries.map(enquiry => (
-              <Card key={enquiry.id} className="p-4">
-                <div className="flex items-start justify-between mb-3">
-                  <div className="flex-1">
-                    <h3 className="font-semibold text-gray-900 mb-1">
-                      {enquiry.providerName}
-                    </h3>
-                    <p className="text-sm text-gray-600">
-                      For {enquiry.childName} • {enquiry.interestedIn}
-                    </p>
-                  </div>
-                  <div className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(enquiry.status)}`}>
-                    {getStatusIcon(enquiry.status)}
-                    <span className="capitalize">{enquiry.status}</span>
-                  </div>
-                </div>
+        {loading && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading enquiries...</p>
+          </div>
+        )}
 
-                <div className="bg-gray-50 rounded-lg p-3 mb-3">
-                  <p className="text-sm text-gray-700">{enquiry.message}</p>
-                </div>
+        {!loading && error && (
+          <div className="text-center py-12">
+            <div className="text-red-500 mb-4">
+              <span className="text-4xl">⚠️</span>
+              <h3 className="text-xl font-medium mt-2">Error Loading Enquiries</h3>
+              <p className="text-red-400 mt-2">{error}</p>
+            </div>
+            <Button onClick={refetch} variant="outline">
+              Retry
+            </Button>
+          </div>
+        )}
 
-                {enquiry.response && (
-                  <div className="bg-purple-50 border-l-4 border-purple-500 rounded-lg p-3 mb-3">
-                    <p className="text-sm font-medium text-purple-900 mb-1">Provider Response:</p>
-                    <p className="text-sm text-purple-800">{enquiry.response}</p>
-                    <p className="text-xs text-purple-600 mt-2">
-                      {enquiry.responseAt?.toLocaleDateString()}
-                    </p>
+        {/* Enquiries List */}
+        {!loading && !error && (
+          <div className="space-y-4">
+            {filteredEnquiries.length > 0 ? (
+              filteredEnquiries.map(enquiry => (
+                <Card key={enquiry.id} className="p-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 mb-1">
+                        {enquiry.providerName}
+                      </h3>
+                      <p className="text-sm text-gray-600">
+                        For {enquiry.childName} • {enquiry.interestedIn}
+                      </p>
+                    </div>
+                    <div className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(enquiry.status)}`}>
+                      {getStatusIcon(enquiry.status)}
+                      <span className="capitalize">{enquiry.status}</span>
+                    </div>
                   </div>
-                )}
 
-                <div className="flex items-center justify-between text-sm text-gray-500">
-                  <span>Sent on {enquiry.createdAt.toLocaleDateString()}</span>
-                  {enquiry.status === 'responded' && (
-                    <Button size="sm" variant="outline">
-                      <Phone className="w-3 h-3 mr-1" />
-                      Call Now
-                    </Button>
+                  {openThreadId === enquiry.id ? (
+                    <div className="border-t border-gray-100 pt-3 mb-3">
+                      <EnquiryThread
+                        enquiryId={enquiry.id}
+                        viewerRole="parent"
+                        canReply={enquiry.status !== 'closed'}
+                        onRead={() => markRead(enquiry.id)}
+                        onSent={() => markAwaitingReply(enquiry.id)}
+                      />
+                    </div>
+                  ) : (
+                    <>
+                      <div className="bg-gray-50 rounded-lg p-3 mb-3">
+                        <p className="text-sm text-gray-700">{enquiry.message}</p>
+                      </div>
+
+                      {enquiry.response && (
+                        <div className="bg-purple-50 border-l-4 border-purple-500 rounded-lg p-3 mb-3">
+                          <p className="text-sm font-medium text-purple-900 mb-1">Latest Provider Reply:</p>
+                          <p className="text-sm text-purple-800">{enquiry.response}</p>
+                          <p className="text-xs text-purple-600 mt-2">
+                            {enquiry.responseAt?.toLocaleDateString()}
+                          </p>
+                        </div>
+                      )}
+                    </>
                   )}
+
+                  <button
+                    onClick={() => setOpenThreadId(openThreadId === enquiry.id ? null : enquiry.id)}
+                    className="flex items-center space-x-2 text-sm font-medium text-purple-600 hover:text-purple-700 mb-3"
+                  >
+                    <MessageCircle className="w-4 h-4" />
+                    <span>{openThreadId === enquiry.id ? 'Hide conversation' : 'View conversation'}</span>
+                    {unreadCounts[enquiry.id] > 0 && openThreadId !== enquiry.id && (
+                      <span className="px-2 py-0.5 bg-purple-600 text-white text-xs rounded-full">
+                        {unreadCounts[enquiry.id]} new
+                      </span>
+                    )}
+                  </button>
+
+                  <div className="flex items-center justify-between text-sm text-gray-500">
+                    <span>Sent on {enquiry.createdAt.toLocaleDateString()}</span>
+                    <div className="flex items-center space-x-2">
+                      {enquiry.status === 'sent' && !enquiry.responseAt && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleWithdraw(enquiry.id)}
+                          disabled={updatingId === enquiry.id}
+                        >
+                          Withdraw
+                        </Button>
+                      )}
+                      {enquiry.status !== 'closed' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleClose(enquiry.id)}
+                          disabled={updatingId === enquiry.id}
+                        >
+                          Close
+                        </Button>
+                      )}
+                      {enquiry.status === 'responded' && enquiry.classId && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleBook(enquiry.id)}
+                          disabled={updatingId === enquiry.id}
+                        >
+                          <Calendar className="w-3 h-3 mr-1" />
+                          Book
+                        </Button>
+                      )}
+                      {enquiry.status === 'responded' && enquiry.providerPhone && (
+                        <Button size="sm" variant="outline" onClick={() => window.open(`tel:${enquiry.providerPhone}`)}>
+                          <Phone className="w-3 h-3 mr-1" />
+                          Call Now
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              ))
+            ) : (
+              <div className="text-center py-12">
+                <div className="text-gray-500 mb-4">
+                  <MessageCircle className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <h3 className="text-xl font-medium">No enquiries found</h3>
+                  <p className="text-gray-400 mt-2">
+                    {filter === 'all' 
+                      ? "You haven't made any enquiries yet. Start exploring providers!" 
+                      : `No ${filter} enquiries found.`
+                    }
+                  </p>
                 </div>
-              </Card>
-            ))
-          ) : (
-            <div className="text-center py-12">
-              <div className="text-gray-500 mb-4">
-                <MessageCircle className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                <h3 className="text-xl font-medium">No enquiries found</h3>
-                <p className="text-gray-400 mt-2">
-                  {filter === 'all' 
-                    ? "You haven't made any enquiries yet. Start exploring providers!" 
-                    : `No ${filter} enquiries found.`
-                  }
-                </p>
+                {filter === 'all' && (
+                  <Button to="/home">
+                    Explore Providers
+                  </Button>
+                )}
               </div>
-              {filter === 'all' && (
-                <Button to="/home">
-                  Explore Providers
-                </Button>
-              )}
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,52 +1,77 @@
-import React, { useState, useEffect } from 'react';
-import { Search, MapPin, Star, Heart, Filter, ChevronRight, LogOut } from 'lucide-react';
-import { categories, mockProviders } from '../data/mockData';
+import { useState, useEffect, useMemo } from 'react';
+import { Search, Filter, LogOut } from 'lucide-react';
+import { mockProviders } from '../data/mockData';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-import Card from '../components/UI/Card';
 import Button from '../components/UI/Button';
-import StarRating from '../components/UI/StarRating';
+import ProviderCard from '../components/Provider/ProviderCard';
+import NotificationBell from '../components/Notifications/NotificationBell';
+import PlaceSwitcher from '../components/Location/PlaceSwitcher';
 import { ProviderService } from '../services/providerService';
+import { useWishlist } from '../hooks/useWishlist';
+import { useToast } from '../hooks/useToast';
+import { useTaxonomy } from '../hooks/useTaxonomy';
+import { Provider, ScheduleSlot, Weekday } from '../types';
+import { toProvider } from '../utils/providerAdapter';
+import { getCategoryBranch } from '../utils/categoryTree';
+import { Coordinates, getDistanceKm, roundDistance } from '../utils/geo';
+import { radiusOptions } from '../utils/providerSearch';
+import { isAgeInRange } from '../utils/ageRange';
+import {
+  ScheduleFilter,
+  TimeBand,
+  WEEKDAYS,
+  isScheduleFilterActive,
+  matchProvidersLocally,
+  timeBandLabels,
+  weekdayLabels,
+  weekdayPresets,
+  withMatchingSlots
+} from '../utils/schedule';
 
-// Service categories mapping for display
-const categoryIcons = {
-  tuition: '📚',
-  music: '🎵',
-  dance: '💃',
-  sports: '⚽',
-  coding: '💻',
-  art: '🎨',
-  daycare: '🏠',
-  camps: '🏕️'
-};
-
-// 📏 Helper to calculate distance (Haversine formula)
-function getDistance(loc1, loc2) {
-  if (!loc1 || !loc2) return 0;
-  
-  const toRad = (val) => (val * Math.PI) / 180;
-  const R = 6371; // Earth's radius in km
-  const dLat = toRad(loc2.latitude - loc1.latitude);
-  const dLon = toRad(loc2.longitude - loc1.longitude);
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(loc1.latitude)) *
-      Math.cos(toRad(loc2.latitude)) *
-      Math.sin(dLon / 2) ** 2;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
+const DEFAULT_RADIUS_KM = 10;
+
+const emptyScheduleFilter: ScheduleFilter = { weekdays: [], timeBands: [] };
+
+const withinRadius = (providers: Provider[], radiusKm: number | null) =>
+  radiusKm === null
+    ? providers
+    : providers.filter(provider => provider.distance !== undefined && provider.distance <= radiusKm);
+
+// Measured providers first, nearest first; unmeasured ones keep their order at the end
+const sortByDistance = (providers: Provider[]) =>
+  [...providers].sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
 
 export default function Home() {
   const { user, logout } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
   const [showFilters, setShowFilters] = useState(false);
-  const [providers, setProviders] = useState([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(null);
-  const [userLocation, setUserLocation] = useState(null);
-  const [showAllProviders, setShowAllProviders] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
+  const [locationResolved, setLocationResolved] = useState(false);
+  // null means "Anywhere"
+  const [radiusKm, setRadiusKm] = useState<number | null>(DEFAULT_RADIUS_KM);
+  const [scheduleFilter, setScheduleFilter] = useState<ScheduleFilter>(emptyScheduleFilter);
+  // Narrow the list to classes suitable for the parent's saved children
+  const [matchChildAges, setMatchChildAges] = useState(true);
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const { showError } = useToast();
+  const { categories, getCategory, getCategoryLevels } = useTaxonomy();
+  // The chosen category matches its subcategories too
+  const categoryBranch = useMemo(
+    () => selectedCategory ? getCategoryBranch(categories, selectedCategory) : [],
+    [selectedCategory, categories]
+  );
+
+  const handleToggleWishlist = async (providerId: string) => {
+    try {
+      await toggleWishlist(providerId);
+    } catch (err) {
+      showError('Wishlist Not Updated', err instanceof Error ? err.message : 'Please try again');
+    }
+  };
 
   // 🌍 Get Current Location or use user's saved location
   useEffect(() => {
@@ -54,24 +79,23 @@ export default function Home() {
     
     if (user?.location?.coordinates) {
       console.log('📍 Using saved user location:', user.location.coordinates);
-      setUserLocation({
-        latitude: user.location.coordinates.lat,
-        longitude: user.location.coordinates.lng
-      });
+      setUserLocation(user.location.coordinates);
+      setLocationResolved(true);
     } else {
       console.log('🔍 Attempting to get current GPS location...');
       navigator.geolocation.getCurrentPosition(
         (pos) => {
           console.log('✅ GPS location captured:', pos.coords);
           setUserLocation({
-            latitude: pos.coords.latitude,
-            longitude: pos.coords.longitude
+            lat: pos.coords.latitude,
+            lng: pos.coords.longitude
           });
+          setLocationResolved(true);
         },
         (error) => {
-          console.warn('❌ GPS location failed:', error);
-          console.log('🔄 Using fallback location (Gurgaon)');
-          setUserLocation({ latitude: 28.4595, longitude: 77.0266 });
+          console.warn('❌ GPS location failed, distances unavailable:', error);
+          setUserLocation(null);
+          setLocationResolved(true);
         },
         {
           enableHighAccuracy: true,
@@ -83,12 +107,26 @@ export default function Home() {
   }, [user]);
 
   useEffect(() => {
-    if (userLocation) {
-      loadProviders();
-    }
-  }, [userLocation, selectedCategory, user]);
+    if (!locationResolved) return;
+
+    // A slower earlier load must not overwrite the results for the current filters
+    let cancelled = false;
+    loadProviders(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [locationResolved, userLocation, radiusKm, categoryBranch, scheduleFilter, matchChildAges, user]);
+
+  const savedChildren = (user?.children || []).filter(child => Number.isFinite(child.age));
+  const childAges = matchChildAges && savedChildren.length > 0
+    ? [...new Set(savedChildren.map(child => child.age))]
+    : undefined;
+
+  const loadProviders = async (isCancelled: () => boolean) => {
+    const showProviders = (next: Provider[]) => {
+      if (!isCancelled()) setProviders(next);
+    };
 
-  const loadProviders = async () => {
     setLoading(true);
     setError(null);
     
@@ -98,209 +136,146 @@ export default function Home() {
       
       if (isDemoUser) {
         console.log('👤 Demo user detected, using mock data');
-        // Use mock data for demo users
-        let sortedProviders = [...mockProviders];
-        
-        // Only sort by distance if user has location and not showing all providers
-        if (userLocation && !showAllProviders) {
-          sortedProviders = mockProviders
-            .map(provider => ({
-              ...provider,
-              calculatedDistance: getDistance(userLocation, provider.location.coordinates)
-            }))
-            .sort((a, b) => a.calculatedDistance - b.calculatedDistance)
-            .map(({ calculatedDistance, ...provider }) => ({
-              ...provider,
-              distance: Math.round(calculatedDistance * 10) / 10 // Round to 1 decimal
-            }));
-        } else {
-          // Show all providers without distance sorting
-          sortedProviders = mockProviders.map(provider => ({
-            ...provider,
-            distance: 0 // Set distance to 0 for "All locations"
-          }));
-        }
-        
-        setProviders(sortedProviders);
-        setLoading(false);
+        // Mock providers are not in the database, so measure them locally
+        const forChildren = childAges
+          ? mockProviders.filter(provider =>
+              provider.classes.some(cls => childAges.some(age => isAgeInRange(age, cls.minAge, cls.maxAge)))
+            )
+          : mockProviders;
+        const scheduled = isScheduleFilterActive(scheduleFilter)
+          ? matchProvidersLocally(forChildren, scheduleFilter)
+          : forChildren;
+        const withDistance = scheduled.map(provider => ({
+          ...provider,
+          distance: userLocation && provider.location.coordinates
+            ? roundDistance(getDistanceKm(userLocation, provider.location.coordinates))
+            : undefined
+        }));
+
+        showProviders(userLocation ? sortByDistance(withinRadius(withDistance, radiusKm)) : withDistance);
         return;
-      } else {
-        console.log('🔗 Regular user, fetching from Supabase');
-        // Fetch published providers from Supabase for real users
-        let query = supabase
-          .from('providers')
-          .select(`
-            *,
-            provider_services(category),
-            provider_classes(id, name, price, mode, age_group, duration),
-            provider_media(file_path, media_type)
-          `)
-          .eq('is_published', true)
-          .eq('status', 'approved');
-
-        // Filter by category if selected
-        if (selectedCategory) {
-          query = query.eq('provider_services.category', selectedCategory);
-        }
+      }
 
-        // Filter by user's location if available and not showing all providers
-        if (user?.location?.city && !showAllProviders) {
-          query = query.eq('city', user.location.city);
+      console.log('🔗 Regular user, fetching from Supabase');
+      // Day/time filters are matched against class schedules in the database first,
+      // then narrow the provider queries to the providers that had a match
+      let slotMatches: Record<string, ScheduleSlot[]> | null = null;
+      let providerIds: string[] | undefined;
+      if (isScheduleFilterActive(scheduleFilter)) {
+        const matches = await ProviderService.matchClassSchedules(scheduleFilter);
+        if (matches.length === 0) {
+          showProviders([]);
+          return;
         }
+        slotMatches = Object.fromEntries(matches.map(match => [match.class_id, match.matching_slots]));
+        providerIds = [...new Set(matches.map(match => match.provider_id))];
+      }
+      const highlight = (provider: Provider) => slotMatches ? withMatchingSlots(provider, slotMatches) : provider;
 
-        const { data: publishedProviders, error: fetchError } = await query.order('created_at', { ascending: false });
-        
-        if (fetchError) {
-          throw fetchError;
-        }
-        
-        console.log('📊 Published providers from Supabase:', publishedProviders);
-        
-        // Convert to display format and sort by distance
-        let convertedProviders = (publishedProviders || []).map((provider, index) => ({
-          id: provider.id,
-          name: provider.business_name,
-          description: provider.description || `Professional services in ${provider.city}`,
-          categories: provider.provider_services?.map(s => s.category) || [],
-          location: {
-            address: `${provider.area}, ${provider.city}`,
-            city: provider.city,
-            area: provider.area,
-            coordinates: { 
-              lat: provider.latitude || 28.4595, 
-              lng: provider.longitude || 77.0266 
-            }
-          },
-          contact: {
-            phone: provider.phone,
-            whatsapp: provider.whatsapp,
-            email: provider.email
-          },
-          classes: provider.provider_classes?.map(cls => ({
-            id: cls.id,
-            name: cls.name,
-            description: cls.description,
-            ageGroup: cls.age_group,
-            mode: cls.mode,
-            price: cls.price,
-            duration: cls.duration,
-            schedule: cls.schedule || [],
-            type: cls.mode,
-            batchSize: cls.batch_size,
-            feeType: cls.fee_type
-          })) || [],
-          images: provider.provider_media?.filter(m => m.media_type === 'profile_image').map(m => m.file_path) || 
-                  [`https://images.pexels.com/photos/5212320/pexels-photo-5212320.jpeg?auto=compress&cs=tinysrgb&w=400`],
-          isVerified: provider.is_verified,
-          averageRating: 4.5 + Math.random() * 0.5,
-          totalReviews: Math.floor(Math.random() * 50) + 10,
-          distance: 0, // Will be calculated below
-          tags: provider.is_verified ? ['verified', 'experienced'] : ['experienced'],
-          priceRange: provider.provider_classes?.length > 0 ? {
-            min: Math.min(...provider.provider_classes.map(c => c.price)),
-            max: Math.max(...provider.provider_classes.map(c => c.price))
-          } : { min: 1200, max: 2000 },
-          createdAt: new Date(provider.created_at),
-          updatedAt: new Date(provider.updated_at),
-          status: provider.status
-        }));
+      if (!userLocation) {
+        // Without an origin there is nothing to measure from: fall back to the saved city
+        const rows = await ProviderService.getPublishedProviders({ categories: categoryBranch, city: user?.location?.city, providerIds, childAges });
+        showProviders(rows.map(toProvider).map(highlight));
+        return;
+      }
 
-        // Sort by distance if user location is available
-        if (userLocation && !showAllProviders) {
-          convertedProviders = convertedProviders
-            .map(provider => ({
-              ...provider,
-              distance: getDistance(userLocation, provider.location.coordinates)
-            }))
-            .sort((a, b) => a.distance - b.distance)
-            .map(provider => ({
-              ...provider,
-              distance: Math.round(provider.distance * 10) / 10 // Round to 1 decimal
-            }));
-        } else if (showAllProviders) {
-          // When showing all providers, set distance to 0
-          convertedProviders = convertedProviders.map(provider => ({
-            ...provider,
-            distance: 0
-          }));
-        }
-        
-        console.log('✅ Converted and sorted providers for display:', convertedProviders);
-        setProviders(convertedProviders);
+      const nearby = (await ProviderService.getProvidersNearby(userLocation, radiusKm, { categories: categoryBranch, providerIds, childAges }))
+        .map(row => highlight({ ...toProvider(row), distance: roundDistance(row.distance_km) }));
+
+      if (radiusKm !== null) {
+        showProviders(nearby);
+        return;
       }
+
+      // "Anywhere" also lists providers that have no coordinates, after the measured ones
+      const nearbyIds = new Set(nearby.map(provider => provider.id));
+      const unlocated = (await ProviderService.getPublishedProviders({ categories: categoryBranch, providerIds, childAges }))
+        .filter(row => !nearbyIds.has(row.id))
+        .map(toProvider)
+        .map(highlight);
+
+      showProviders([...nearby, ...unlocated]);
     } catch (err) {
+      if (isCancelled()) return;
       console.error('❌ Error loading providers:', err);
-      setError(err.message || 'Failed to load providers');
-      
-      // Fallback to mock data on error
-      console.log('🔄 Falling back to mock data due to error');
-      let sortedMockProviders = [...mockProviders];
-      
-      if (userLocation) {
-        sortedMockProviders = mockProviders
-          .map(provider => ({
-            ...provider,
-            distance: getDistance(userLocation, provider.location.coordinates)
-          }))
-          .sort((a, b) => a.distance - b.distance)
-          .map(provider => ({
-            ...provider,
-            distance: Math.round(provider.distance * 10) / 10
-          }));
-      }
-      
-      setProviders(sortedMockProviders);
+      setError(err instanceof Error ? err.message : 'Failed to load providers');
+      setProviders([]);
     } finally {
-      setLoading(false);
+      if (!isCancelled()) setLoading(false);
     }
   };
 
   const filteredProviders = providers.filter(provider => {
     const matchesSearch = provider.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          provider.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = !selectedCategory || provider.categories.includes(selectedCategory);
+    const matchesCategory = !selectedCategory || provider.categories.some(category => categoryBranch.includes(category));
     return matchesSearch && matchesCategory;
   });
 
-  const getDistanceText = (distance) => {
-    if (distance === 0) return 'Online';
-    if (showAllProviders) return 'All locations';
-    return `${distance} km away`;
+  const getDistanceText = (provider: Provider) => {
+    if (provider.distance !== undefined) return `${provider.distance} km away`;
+    if (!provider.location.coordinates) return 'Location not listed';
+    return provider.location.area;
   };
 
-  const handleViewAllProviders = () => {
-    setShowAllProviders(!showAllProviders);
+  const isNearby = Boolean(userLocation) && radiusKm !== null;
+  const activeScheduleFilters = scheduleFilter.weekdays.length + scheduleFilter.timeBands.length;
+
+  const toggleWeekday = (weekday: Weekday) => {
+    setScheduleFilter(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(weekday)
+        ? prev.weekdays.filter(day => day !== weekday)
+        : [...prev.weekdays, weekday]
+    }));
+  };
+
+  const toggleTimeBand = (band: TimeBand) => {
+    setScheduleFilter(prev => ({
+      ...prev,
+      timeBands: prev.timeBands.includes(band)
+        ? prev.timeBands.filter(b => b !== band)
+        : [...prev.timeBands, band]
+    }));
   };
 
+  const isPresetActive = (weekdays: Weekday[]) =>
+    weekdays.length === scheduleFilter.weekdays.length && weekdays.every(day => scheduleFilter.weekdays.includes(day));
+
+  const chipClasses = (active: boolean) => `flex-shrink-0 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
+    active ? 'bg-purple-600 text-white' : 'bg-white text-gray-600 border border-gray-200'
+  }`;
+
+  const browsingLabel = !user?.location
+    ? 'All Locations'
+    : userLocation && radiusKm !== null
+      ? `Within ${radiusKm} km of ${user.location.area}`
+      : `${user.location.area}, ${user.location.city}`;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header with Location */}
       <div className="bg-white shadow-sm sticky top-0 z-10">
         <div className="px-4 py-3">
           <div className="flex items-center justify-between mb-3">
+            <PlaceSwitcher label={browsingLabel} />
             <div className="flex items-center space-x-2">
-              <MapPin className="w-4 h-4 text-purple-600" />
-              <div>
-                <p className="text-xs text-gray-500">You're browsing in</p>
-                <p className="font-medium text-gray-900">
-                  {showAllProviders ? 'All Locations' : 
-                   user?.location ? `${user.location.area}, ${user.location.city}` : 'All Locations'}
-                </p>
-              </div>
-            </div>
-            <div className="flex items-center space-x-2">
-              {user?.location && (
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  onClick={handleViewAllProviders}
-                >
-                  {showAllProviders ? 'Show Nearby' : 'View All'}
-                </Button>
-              )}
+              <select
+                value={radiusKm ?? ''}
+                onChange={(e) => setRadiusKm(e.target.value ? Number(e.target.value) : null)}
+                disabled={!userLocation}
+                title={userLocation ? 'Search radius' : 'Set your location to search by distance'}
+                className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white disabled:opacity-50"
+              >
+                {radiusOptions.map(radius => (
+                  <option key={radius} value={radius}>{radius} km</option>
+                ))}
+                <option value="">Anywhere</option>
+              </select>
               <Button variant="outline" size="sm" to="/location">
                 {user?.location ? 'Change' : 'Set Location'}
               </Button>
+              <NotificationBell />
               <button
                 onClick={logout}
                 className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
@@ -324,52 +299,130 @@ export default function Home() {
             <button
               onClick={() => setShowFilters(!showFilters)}
               className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1"
+              title="Filter by day and time"
             >
-              <Filter className="w-4 h-4 text-gray-400" />
+              <Filter className={`w-4 h-4 ${activeScheduleFilters > 0 ? 'text-purple-600' : 'text-gray-400'}`} />
+              {activeScheduleFilters > 0 && (
+                <span className="absolute -top-1 -right-1 w-2 h-2 bg-purple-600 rounded-full" />
+              )}
             </button>
           </div>
+
+          {/* Day and time filters */}
+          {showFilters && (
+            <div className="mt-3 space-y-3">
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-2">Days</p>
+                <div className="flex space-x-2 overflow-x-auto pb-1">
+                  {weekdayPresets.map(preset => (
+                    <button
+                      key={preset.label}
+                      onClick={() => setScheduleFilter(prev => ({
+                        ...prev,
+                        weekdays: isPresetActive(preset.weekdays) ? [] : preset.weekdays
+                      }))}
+                      className={chipClasses(isPresetActive(preset.weekdays))}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                  {WEEKDAYS.map(day => (
+                    <button
+                      key={day}
+                      onClick={() => toggleWeekday(day)}
+                      className={chipClasses(scheduleFilter.weekdays.includes(day))}
+                    >
+                      {weekdayLabels[day]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-2">Time</p>
+                <div className="flex space-x-2 overflow-x-auto pb-1">
+                  {(Object.keys(timeBandLabels) as TimeBand[]).map(band => (
+                    <button
+                      key={band}
+                      onClick={() => toggleTimeBand(band)}
+                      className={chipClasses(scheduleFilter.timeBands.includes(band))}
+                    >
+                      {timeBandLabels[band]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {activeScheduleFilters > 0 && (
+                <button
+                  onClick={() => setScheduleFilter(emptyScheduleFilter)}
+                  className="text-xs font-medium text-purple-600"
+                >
+                  Clear day & time filters
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
       <div className="px-4 py-6">
-        {/* Categories */}
+        {/* Categories, one row per level down to the chosen one */}
         <div className="mb-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Browse Categories</h2>
-          <div className="flex space-x-3 overflow-x-auto pb-2">
+          <div className="space-y-3">
+            {getCategoryLevels(selectedCategory).map(level => (
+              <div key={level.parent?.id || 'top'} className="flex space-x-3 overflow-x-auto pb-2">
+                <button
+                  onClick={() => setSelectedCategory(level.parent?.id || '')}
+                  className={`flex-shrink-0 px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                    !level.selectedId
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-white text-gray-600 border border-gray-200'
+                  }`}
+                >
+                  {level.parent ? `All ${level.parent.name}` : 'All'}
+                </button>
+                {level.options.map(category => (
+                  <button
+                    key={category.id}
+                    onClick={() => setSelectedCategory(category.id)}
+                    className={`flex-shrink-0 flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                      level.selectedId === category.id
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-white text-gray-600 border border-gray-200'
+                    }`}
+                  >
+                    <span>{category.icon}</span>
+                    <span>{category.name}</span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Children's ages */}
+        {savedChildren.length > 0 && (
+          <div className="flex items-center justify-between bg-purple-50 rounded-lg px-3 py-2 mb-4">
+            <p className="text-sm text-purple-800">
+              {matchChildAges
+                ? `Showing classes for ${savedChildren.map(child => `${child.name} (${child.age})`).join(', ')}`
+                : 'Showing classes for all ages'}
+            </p>
             <button
-              onClick={() => setSelectedCategory('')}
-              className={`flex-shrink-0 px-4 py-2 rounded-full text-sm font-medium transition-all ${
-                !selectedCategory
-                  ? 'bg-purple-600 text-white'
-                  : 'bg-white text-gray-600 border border-gray-200'
-              }`}
+              onClick={() => setMatchChildAges(!matchChildAges)}
+              className="text-sm font-medium text-purple-600 flex-shrink-0 ml-2"
             >
-              All
+              {matchChildAges ? 'Show all ages' : 'Match my children'}
             </button>
-            {categories.map(category => (
-              <button
-                key={category.id}
-                onClick={() => setSelectedCategory(category.id)}
-                className={`flex-shrink-0 flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
-                  selectedCategory === category.id
-                    ? 'bg-purple-600 text-white'
-                    : 'bg-white text-gray-600 border border-gray-200'
-                }`}
-              >
-                <span>{category.icon}</span>
-                <span>{category.name}</span>
-              </button>
-            ))}
           </div>
-        </div>
+        )}
 
         {/* Results Header */}
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold text-gray-900">
             {selectedCategory 
-              ? `${categories.find(c => c.id === selectedCategory)?.name} ${showAllProviders ? 'everywhere' : 'near you'}`
-              : showAllProviders ? 'All providers' 
-              : user?.location ? 'Top-rated providers near you'
+              ? `${getCategory(selectedCategory)?.name} ${isNearby ? 'near you' : 'everywhere'}`
+              : isNearby ? 'Providers near you'
               : 'All providers'
             }
           </h3>
@@ -407,91 +460,13 @@ export default function Home() {
         {!loading && !error && (
           <div className="space-y-4">
             {filteredProviders.map(provider => (
-              <Card key={provider.id} hover className="p-4">
-                <div className="flex space-x-4">
-                  {/* Provider Image */}
-                  <div className="relative flex-shrink-0">
-                    <img
-                      src={provider.images[0]}
-                      alt={provider.name}
-                      className="w-20 h-20 rounded-xl object-cover"
-                    />
-                    {provider.isVerified && (
-                      <div className="absolute -top-1 -right-1 w-6 h-6 bg-green-500 rounded-full flex items-center justify-center">
-                        <span className="text-white text-xs">✓</span>
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Provider Info */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex-1">
-                        <h4 className="font-semibold text-gray-900 truncate">
-                          {provider.name}
-                        </h4>
-                        <p className="text-sm text-gray-600 line-clamp-2 mt-1">
-                          {provider.description}
-                        </p>
-                      </div>
-                      <button className="ml-2 p-1">
-                        <Heart className="w-5 h-5 text-gray-400" />
-                      </button>
-                    </div>
-
-                    {/* Tags */}
-                    <div className="flex flex-wrap gap-1 mb-2">
-                      {provider.tags.slice(0, 3).map(tag => (
-                        <span
-                          key={tag}
-                          className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-full"
-                        >
-                          {tag}
-                        </span>
-                      ))}
-                    </div>
-
-                    {/* Rating and Distance */}
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <div className="flex items-center space-x-1">
-                          <StarRating rating={provider.averageRating || 0} size="sm" />
-                          <span className="text-sm font-medium text-gray-900">
-                            {provider.averageRating}
-                          </span>
-                          <span className="text-sm text-gray-500">
-                            ({provider.totalReviews})
-                          </span>
-                        </div>
-                        <span className="text-sm text-gray-500">
-                          {showAllProviders ? 'All locations' : getDistanceText(provider.distance || 0)}
-                        </span>
-                      </div>
-                      
-                      {provider.priceRange && (
-                        <div className="text-right">
-                          <p className="text-sm font-medium text-gray-900">
-                            ₹{provider.priceRange.min}-{provider.priceRange.max}
-                          </p>
-                          <p className="text-xs text-gray-500">per session</p>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                </div>
-
-                {/* Action Button */}
-                <div className="mt-4 pt-4 border-t border-gray-100">
-                  <Button
-                    to={`/provider/${provider.id}`}
-                    variant="outline"
-                    className="w-full group"
-                  >
-                    <span>View Details & Enquire</span>
-                    <ChevronRight className="ml-2 w-4 h-4 group-hover:translate-x-1 transition-transform" />
-                  </Button>
-                </div>
-              </Card>
+              <ProviderCard
+                key={provider.id}
+                provider={provider}
+                isWishlisted={isWishlisted(provider.id)}
+                onToggleWishlist={() => handleToggleWishlist(provider.id)}
+                distanceLabel={getDistanceText(provider)}
+              />
             ))}
           </div>
         )}
@@ -503,8 +478,12 @@ export default function Home() {
               <h3 className="text-xl font-medium">No providers found</h3>
               <p className="text-gray-400 mt-2">
                 {providers.length === 0 
-                  ? showAllProviders 
-                    ? "No providers available anywhere."
+                  ? activeScheduleFilters > 0
+                    ? 'No classes run at the days and times you picked. Try widening them.'
+                    : childAges
+                    ? "No classes match your children's ages here. Try showing all ages."
+                    : isNearby
+                    ? `No providers within ${radiusKm} km. Try a larger radius.`
                     : "No providers have been added yet. Contact admin to add providers."
                   : "Try adjusting your search or browse different categories"
                 }
@@ -514,6 +493,7 @@ export default function Home() {
               onClick={() => {
                 setSearchTerm('');
                 setSelectedCategory('');
+                setScheduleFilter(emptyScheduleFilter);
               }}
               variant="outline"
             >
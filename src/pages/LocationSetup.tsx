@@ -1,20 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { MapPin, Navigation, Search, ArrowRight, Loader } from 'lucide-react';
+import { MapPin, Navigation, Search, ArrowRight, Loader, Trash2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { placeLabelSuggestions, useSavedPlaces } from '../hooks/useSavedPlaces';
+import { useTaxonomy } from '../hooks/useTaxonomy';
+import { SavedPlace, UserLocation } from '../types';
 import Button from '../components/UI/Button';
 import Card from '../components/UI/Card';
 
-const cities = [
-  'Delhi', 'Mumbai', 'Bangalore', 'Hyderabad', 'Chennai', 'Kolkata', 
-  'Pune', 'Gurgaon', 'Noida', 'Ahmedabad', 'Jaipur', 'Lucknow'
-];
-
-const areas = {
-  'Gurgaon': ['Sector 15', 'Sector 22', 'Phase 2', 'DLF City', 'Cyber City', 'Golf Course Road'],
-  'Delhi': ['Connaught Place', 'Karol Bagh', 'Lajpat Nagar', 'Saket', 'Dwarka', 'Rohini'],
-  'Mumbai': ['Bandra', 'Andheri', 'Powai', 'Thane', 'Navi Mumbai', 'Borivali']
-};
 
 export default function LocationSetup() {
   const [method, setMethod] = useState<'auto' | 'manual'>('auto');
@@ -22,30 +15,66 @@ export default function LocationSetup() {
   const [selectedCity, setSelectedCity] = useState('');
   const [selectedArea, setSelectedArea] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [pincode, setPincode] = useState('');
   const { setUserLocation } = useAuth();
+  const { places, activeLabel, savePlace, switchPlace, removePlace } = useSavedPlaces();
+  // The first place is saved as Home unless the parent names it otherwise; clear it to skip saving
+  const [placeLabel, setPlaceLabel] = useState(places.length === 0 ? 'Home' : '');
+  const { cityNames, getAreaNames, getAreaPincode, geocodeArea, lookupPincode, reverseGeocode } = useTaxonomy();
   const navigate = useNavigate();
 
+  const applyLocation = async (location: UserLocation) => {
+    try {
+      if (placeLabel.trim()) {
+        await savePlace(placeLabel, location);
+      } else {
+        await setUserLocation(location);
+      }
+      navigate('/home');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Unable to save your location. Please try again.');
+    }
+  };
+
+  const handleSwitchPlace = async (place: SavedPlace) => {
+    try {
+      await switchPlace(place);
+      navigate('/home');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Unable to change your location. Please try again.');
+    }
+  };
+
+  const handleRemovePlace = async (place: SavedPlace) => {
+    if (!place.id || !confirm(`Remove ${place.label} from your places?`)) return;
+
+    try {
+      await removePlace(place.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Unable to remove this place. Please try again.');
+    }
+  };
+
   const handleAutoDetect = () => {
     setIsDetecting(true);
     
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
-        (position) => {
-          // Mock reverse geocoding
-          setTimeout(() => {
-            const mockLocation = {
-              city: 'Gurgaon',
-              area: 'Sector 15',
-              coordinates: {
-                lat: position.coords.latitude,
-                lng: position.coords.longitude
-              }
-            };
-            
-            setUserLocation(mockLocation);
+        async (position) => {
+          const location = reverseGeocode({
+            lat: position.coords.latitude,
+            lng: position.coords.longitude
+          });
+
+          if (!location) {
             setIsDetecting(false);
-            navigate('/home');
-          }, 2000);
+            setMethod('manual');
+            alert("We don't cover your area yet. Please select the nearest city and area manually.");
+            return;
+          }
+
+          await applyLocation(location);
+          setIsDetecting(false);
         },
         (error) => {
           setIsDetecting(false);
@@ -60,7 +89,7 @@ export default function LocationSetup() {
     }
   };
 
-  const handleManualSubmit = () => {
+  const handleManualSubmit = async () => {
     if (!selectedCity || !selectedArea) {
       alert('Please select both city and area');
       return;
@@ -68,18 +97,29 @@ export default function LocationSetup() {
 
     const location = {
       city: selectedCity,
-      area: selectedArea,
-      coordinates: {
-        lat: 28.4595, // Mock coordinates for Gurgaon
-        lng: 77.0266
-      }
+      area: selectedArea.trim(),
+      pincode: pincode || getAreaPincode(selectedCity, selectedArea),
+      coordinates: geocodeArea(selectedCity, selectedArea)
     };
 
-    setUserLocation(location);
-    navigate('/home');
+    await applyLocation(location);
+  };
+
+  // A known pincode picks the city and area for the parent
+  const handlePincodeChange = (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, 6);
+    setPincode(digits);
+
+    const match = digits.length === 6 ? lookupPincode(digits) : null;
+    if (match) {
+      setSelectedCity(match.city);
+      setSelectedArea(match.area);
+    }
   };
 
-  const filteredCities = cities.filter(city =>
+  const cityAreas = selectedCity ? getAreaNames(selectedCity) : [];
+
+  const filteredCities = cityNames.filter(city =>
     city.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
@@ -96,7 +136,66 @@ export default function LocationSetup() {
           <p className="text-gray-600">We'll show you the best classes nearby</p>
         </div>
 
+        {places.length > 0 && (
+          <Card className="p-4 mb-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Your places</h3>
+            <div className="space-y-2">
+              {places.map(place => (
+                <div
+                  key={place.id || place.label}
+                  className={`flex items-center justify-between p-3 border rounded-lg ${
+                    place.label === activeLabel ? 'border-purple-500 bg-purple-50' : 'border-gray-200'
+                  }`}
+                >
+                  <button type="button" onClick={() => handleSwitchPlace(place)} className="flex-1 text-left">
+                    <p className="text-sm font-medium text-gray-900">{place.label}</p>
+                    <p className="text-xs text-gray-500">{place.area}, {place.city}</p>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePlace(place)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Remove place"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         <Card className="p-6">
+          {/* Place name */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Save this place as
+            </label>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {placeLabelSuggestions.map(suggestion => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  onClick={() => setPlaceLabel(suggestion)}
+                  className={`px-3 py-1.5 text-sm border rounded-full transition-all ${
+                    placeLabel === suggestion
+                      ? 'border-purple-500 bg-purple-50 text-purple-700'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={placeLabel}
+              onChange={(e) => setPlaceLabel(e.target.value)}
+              placeholder="Leave empty to use it without saving"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+
           {method === 'auto' ? (
             <div className="space-y-6">
               <div className="text-center">
@@ -157,6 +256,21 @@ export default function LocationSetup() {
                 <p className="text-gray-600 text-sm">Choose your city and area</p>
               </div>
 
+              {/* Pincode */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Pin Code
+                </label>
+                <input
+                  type="text"
+                  value={pincode}
+                  onChange={(e) => handlePincodeChange(e.target.value)}
+                  placeholder="Enter 6-digit pin code to fill in your area"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  maxLength={6}
+                />
+              </div>
+
               {/* City Search */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -187,6 +301,7 @@ export default function LocationSetup() {
                       onClick={() => {
                         setSelectedCity(city);
                         setSelectedArea('');
+                        setPincode('');
                       }}
                       className={`p-3 text-sm border rounded-lg transition-all ${
                         selectedCity === city
@@ -206,13 +321,16 @@ export default function LocationSetup() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Select Area in {selectedCity}
                   </label>
-                  {areas[selectedCity as keyof typeof areas] ? (
+                  {cityAreas.length > 0 ? (
                     <div className="grid grid-cols-1 gap-2 max-h-40 overflow-y-auto">
-                      {areas[selectedCity as keyof typeof areas].map(area => (
+                      {cityAreas.map(area => (
                         <button
                           key={area}
                           type="button"
-                          onClick={() => setSelectedArea(area)}
+                          onClick={() => {
+                            setSelectedArea(area);
+                            setPincode('');
+                          }}
                           className={`p-3 text-sm border rounded-lg transition-all text-left ${
                             selectedArea === area
                               ? 'border-purple-500 bg-purple-50 text-purple-700'
@@ -0,0 +1,230 @@
+import { FormEvent, useState } from 'react';
+import { ArrowLeft, Baby, Edit, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useChildren } from '../hooks/useChildren';
+import { useToast } from '../hooks/useToast';
+import { useTaxonomy } from '../hooks/useTaxonomy';
+import { UserService } from '../services/userService';
+import Card from '../components/UI/Card';
+import Button from '../components/UI/Button';
+import ChildForm from '../components/Profile/ChildForm';
+
+const inputClasses = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+export default function Profile() {
+  const { user, updateUser } = useAuth();
+  const { children, loading, error, addChild, updateChild, removeChild, refetch } = useChildren();
+  const { showSuccess, showError } = useToast();
+  const { getCategoryLabel } = useTaxonomy();
+  const [details, setDetails] = useState(() => ({
+    name: user?.name || '',
+    email: user?.email || '',
+    phone: user?.phone || ''
+  }));
+  const [savingDetails, setSavingDetails] = useState(false);
+  // 'new' while adding, a child id while editing
+  const [editingChild, setEditingChild] = useState<string | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const handleSaveDetails = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const changes = { name: details.name.trim(), email: details.email.trim(), phone: details.phone.trim() };
+    if (!changes.name || !changes.email) {
+      showError('Missing Information', 'Name and email are required');
+      return;
+    }
+
+    try {
+      setSavingDetails(true);
+
+      let savedEmail = changes.email;
+      if (!localStorage.getItem('demoUser')) {
+        const saved = await UserService.updateProfile(user._id, { ...changes, phone: changes.phone || null }, user.email);
+        // Still the old address while the new one waits for confirmation
+        savedEmail = saved.email;
+      }
+      updateUser({ ...changes, email: savedEmail, phone: changes.phone || undefined });
+
+      showSuccess(
+        'Profile Updated',
+        changes.email !== user.email ? 'Check your new email inbox to confirm the change.' : undefined
+      );
+    } catch (err) {
+      showError('Profile Not Updated', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setSavingDetails(false);
+    }
+  };
+
+  const handleRemoveChild = async (childId: string, name: string) => {
+    if (!confirm(`Remove ${name} from your profile?`)) return;
+
+    try {
+      setRemovingId(childId);
+      await removeChild(childId);
+      showSuccess('Child Removed');
+    } catch (err) {
+      showError('Could Not Remove Child', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-16">
+      {/* Header */}
+      <div className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="flex items-center p-4">
+          <button onClick={() => window.history.back()} className="p-2 -ml-2 mr-2">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-semibold">My Profile</h1>
+        </div>
+      </div>
+
+      <div className="px-4 py-6 space-y-6">
+        {/* Parent details */}
+        <Card className="p-4">
+          <h2 className="font-semibold text-gray-900 mb-4">Your Details</h2>
+          <form onSubmit={handleSaveDetails} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+              <input
+                type="text"
+                value={details.name}
+                onChange={(e) => setDetails(prev => ({ ...prev, name: e.target.value }))}
+                className={inputClasses}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Email *</label>
+              <input
+                type="email"
+                value={details.email}
+                onChange={(e) => setDetails(prev => ({ ...prev, email: e.target.value }))}
+                className={inputClasses}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
+              <input
+                type="tel"
+                value={details.phone}
+                onChange={(e) => setDetails(prev => ({ ...prev, phone: e.target.value }))}
+                placeholder="+91 98765 43210"
+                className={inputClasses}
+              />
+            </div>
+            <Button type="submit" disabled={savingDetails} className="w-full">
+              {savingDetails ? 'Saving...' : 'Save Details'}
+            </Button>
+          </form>
+        </Card>
+
+        {/* Children */}
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-semibold text-gray-900">Children</h2>
+            {editingChild === null && (
+              <Button size="sm" variant="outline" onClick={() => setEditingChild('new')}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Child
+              </Button>
+            )}
+          </div>
+
+          {loading && (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600 mx-auto"></div>
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="text-center py-6">
+              <p className="text-red-500 mb-3">{error}</p>
+              <Button size="sm" variant="outline" onClick={refetch}>Retry</Button>
+            </div>
+          )}
+
+          {editingChild === 'new' && (
+            <div className="mb-4 pb-4 border-b border-gray-100">
+              <ChildForm
+                onSave={async (childDetails) => {
+                  await addChild(childDetails);
+                  setEditingChild(null);
+                  showSuccess('Child Added');
+                }}
+                onCancel={() => setEditingChild(null)}
+              />
+            </div>
+          )}
+
+          {!loading && !error && children.length === 0 && editingChild !== 'new' && (
+            <div className="text-center py-6 text-gray-500">
+              <Baby className="w-10 h-10 mx-auto mb-2 opacity-50" />
+              <p>Add your children to send enquiries and see classes that suit their ages.</p>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {children.map(child => (
+              editingChild === child.id ? (
+                <ChildForm
+                  key={child.id}
+                  child={child}
+                  onSave={async (childDetails) => {
+                    await updateChild(child.id!, childDetails);
+                    setEditingChild(null);
+                    showSuccess('Child Updated');
+                  }}
+                  onCancel={() => setEditingChild(null)}
+                />
+              ) : (
+                <div key={child.id} className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <h3 className="font-medium text-gray-900">{child.name}</h3>
+                    <p className="text-sm text-gray-600">
+                      {child.age} years
+                      {child.dateOfBirth && ` • Born ${new Date(`${child.dateOfBirth}T00:00:00`).toLocaleDateString()}`}
+                    </p>
+                    {child.interests.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {child.interests.map(interest => (
+                          <span key={interest} className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full">
+                            {getCategoryLabel(interest)}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {child.notes && <p className="text-sm text-gray-500 mt-2">{child.notes}</p>}
+                  </div>
+                  <div className="flex space-x-1 ml-2">
+                    <button
+                      onClick={() => setEditingChild(child.id!)}
+                      className="p-2 text-gray-400 hover:text-purple-600"
+                      title="Edit"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemoveChild(child.id!, child.name)}
+                      disabled={removingId === child.id}
+                      className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )
+            ))}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
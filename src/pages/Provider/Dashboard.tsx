@@ -1,10 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { useProvider, useProviderClasses } from '../../hooks/useProvider';
+import { useProvider, useProviderClasses, useProviderEnquiries, useProviderStats } from '../../hooks/useProvider';
+import { useUnreadMessageCounts } from '../../hooks/useEnquiries';
+import { useClassAvailability, useProviderBookings } from '../../hooks/useBookings';
+import { useProviderReviews } from '../../hooks/useReviews';
 import { ProviderService } from '../../services/providerService';
 import { useToast } from '../../hooks/useToast';
+import { useTaxonomy } from '../../hooks/useTaxonomy';
 import Card from '../../components/UI/Card';
 import Button from '../../components/UI/Button';
+import EnquiryInbox from '../../components/Provider/EnquiryInbox';
+import BookingList from '../../components/Provider/BookingList';
+import ReviewList from '../../components/Provider/ReviewList';
+import NotificationBell from '../../components/Notifications/NotificationBell';
+import ScheduleEditor from '../../components/Provider/ScheduleEditor';
+import { emptySchedule, isClassSchedule, validateSchedule } from '../../utils/schedule';
+import { normalizeSchedule } from '../../utils/providerAdapter';
+import { MAX_CLASS_AGE, ageRanges, formatAgeRange } from '../../utils/ageRange';
 import { 
   BookOpen, 
   Users, 
@@ -28,30 +40,31 @@ import {
   User
 } from 'lucide-react';
 
-const serviceCategories = [
-  { id: 'tuition', name: 'Academic Tuitions', icon: '📚' },
-  { id: 'music', name: 'Music Classes', icon: '🎵' },
-  { id: 'dance', name: 'Dance Classes', icon: '💃' },
-  { id: 'sports', name: 'Sports Training', icon: '⚽' },
-  { id: 'coding', name: 'Coding / STEM', icon: '💻' },
-  { id: 'art', name: 'Art & Craft', icon: '🎨' },
-  { id: 'daycare', name: 'Daycare / After-school', icon: '🏠' },
-  { id: 'camps', name: 'Summer Camps', icon: '🏕️' }
-];
-
-const ageGroups = ['3-5 years', '6-8 years', '9-12 years', '13-16 years', '16+ years'];
-
 export default function ProviderDashboard() {
   const { user, logout } = useAuth();
   const { provider, loading: providerLoading, updateProvider } = useProvider();
   const { classes, loading: classesLoading, createClass, updateClass, deleteClass } = useProviderClasses(provider?.id);
+  const { topCategories, getCategory, getCategoryBranch, getCategoryLabel } = useTaxonomy();
+  const {
+    enquiries,
+    loading: enquiriesLoading,
+    respondToEnquiry,
+    closeEnquiry,
+    markResponded
+  } = useProviderEnquiries(provider?.id);
+  const { counts: unreadCounts, total: totalUnread, markRead } = useUnreadMessageCounts('provider', provider?.id);
+  const { stats: providerStats, refetch: refetchStats } = useProviderStats(provider?.id);
+  const { bookings, loading: bookingsLoading, updateStatus: updateBookingStatus } = useProviderBookings(provider?.id);
+  const { availability, refetch: refetchAvailability } = useClassAvailability(classes.map(c => c.id));
+  const { reviews, loading: reviewsLoading, replyToReview } = useProviderReviews(provider?.id);
   const { showSuccess, showError } = useToast();
   
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'profile' | 'courses'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'profile' | 'courses' | 'enquiries' | 'bookings' | 'reviews'>('dashboard');
   const [showProfileEdit, setShowProfileEdit] = useState(false);
   const [showCourseForm, setShowCourseForm] = useState(false);
   const [editingCourse, setEditingCourse] = useState<any>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
 
   // Profile form state
   const [profileForm, setProfileForm] = useState({
@@ -73,12 +86,16 @@ export default function ProviderDashboard() {
     name: '',
     category: '',
     description: '',
-    age_group: '',
+    // Kept as strings for the inputs; a blank max_age means no upper limit
+    min_age: '',
+    max_age: '',
     mode: 'offline' as 'online' | 'offline' | 'hybrid',
     duration: '',
     price: 0,
     fee_type: 'per_session' as 'per_session' | 'monthly',
-    schedule: '',
+    schedule: emptySchedule(),
+    // Blank means no seat limit
+    batch_size: '',
     is_active: true
   });
 
@@ -121,12 +138,32 @@ export default function ProviderDashboard() {
     e.preventDefault();
     if (!provider) return;
 
+    const { schedule } = courseForm;
+    const invalidSchedule = validateSchedule(schedule);
+    setScheduleError(invalidSchedule);
+    if (invalidSchedule) return;
+
+    const ageRange = {
+      min: parseInt(courseForm.min_age),
+      max: courseForm.max_age ? parseInt(courseForm.max_age) : null
+    };
+    if (ageRange.max !== null && ageRange.max < ageRange.min) {
+      showError('Invalid Age Range', 'Maximum age must be at least the minimum age');
+      return;
+    }
+
     setIsSubmitting(true);
     try {
+      const hasSchedule = schedule.slots.length > 0 || Boolean(schedule.start_date || schedule.end_date || schedule.note);
       const courseData = {
         ...courseForm,
         provider_id: provider.id,
-        schedule: courseForm.schedule ? { timing: courseForm.schedule } : null
+        // Sessions replace any free text carried over from the old schedule format
+        schedule: hasSchedule ? { ...schedule, note: schedule.slots.length > 0 ? null : schedule.note } : null,
+        batch_size: courseForm.batch_size ? parseInt(courseForm.batch_size) : null,
+        age_group: formatAgeRange(ageRange),
+        min_age: ageRange.min,
+        max_age: ageRange.max
       };
 
       if (editingCourse) {
@@ -152,15 +189,18 @@ export default function ProviderDashboard() {
       name: course.name || '',
       category: course.category || '',
       description: course.description || '',
-      age_group: course.age_group || '',
+      min_age: course.min_age != null ? String(course.min_age) : '',
+      max_age: course.max_age != null ? String(course.max_age) : '',
       mode: course.mode || 'offline',
       duration: course.duration || '',
       price: course.price || 0,
       fee_type: course.fee_type || 'per_session',
-      schedule: course.schedule?.timing || '',
+      schedule: isClassSchedule(course.schedule) ? course.schedule : emptySchedule(),
+      batch_size: course.batch_size ? String(course.batch_size) : '',
       is_active: course.is_active !== false
     });
     setEditingCourse(course);
+    setScheduleError(null);
     setShowCourseForm(true);
   };
 
@@ -176,16 +216,19 @@ export default function ProviderDashboard() {
   };
 
   const resetCourseForm = () => {
+    setScheduleError(null);
     setCourseForm({
       name: '',
       category: '',
       description: '',
-      age_group: '',
+      min_age: '',
+      max_age: '',
       mode: 'offline',
       duration: '',
       price: 0,
       fee_type: 'per_session',
-      schedule: '',
+      schedule: emptySchedule(),
+      batch_size: '',
       is_active: true
     });
   };
@@ -231,6 +274,7 @@ export default function ProviderDashboard() {
               <p className="text-gray-600">Welcome back, {provider.owner_name}!</p>
             </div>
             <div className="flex items-center space-x-4">
+              <NotificationBell accent="blue" />
               <Button 
                 onClick={logout}
                 variant="outline"
@@ -247,7 +291,10 @@ export default function ProviderDashboard() {
             {[
               { id: 'dashboard', label: 'Dashboard', icon: TrendingUp },
               { id: 'profile', label: 'Profile', icon: User },
-              { id: 'courses', label: 'Courses', icon: BookOpen }
+              { id: 'courses', label: 'Courses', icon: BookOpen },
+              { id: 'enquiries', label: 'Enquiries', icon: MessageSquare, badge: providerStats.pendingEnquiries },
+              { id: 'bookings', label: 'Bookings', icon: Calendar, badge: bookings.filter(b => b.status === 'pending').length },
+              { id: 'reviews', label: 'Reviews', icon: Star, badge: reviews.filter(r => !r.reply).length }
             ].map(tab => (
               <button
                 key={tab.id}
@@ -260,6 +307,9 @@ export default function ProviderDashboard() {
               >
                 <tab.icon className="w-4 h-4" />
                 <span>{tab.label}</span>
+                {tab.badge ? (
+                  <span className="px-2 py-0.5 bg-blue-600 text-white text-xs rounded-full">{tab.badge}</span>
+                ) : null}
               </button>
             ))}
           </div>
@@ -592,27 +642,59 @@ export default function ProviderDashboard() {
                         required
                       >
                         <option value="">Select Category</option>
-                        {serviceCategories.map(cat => (
-                          <option key={cat.id} value={cat.id}>{cat.name}</option>
+                        {/* Each category followed by its subcategories */}
+                        {topCategories.map(cat => (
+                          <optgroup key={cat.id} label={`${cat.icon} ${cat.name}`}>
+                            {getCategoryBranch(cat.id).map(getCategory).map(option => option && (
+                              <option key={option.id} value={option.id}>{option.serviceName}</option>
+                            ))}
+                          </optgroup>
                         ))}
                       </select>
                     </div>
 
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Age Group *
+                        Age Range *
                       </label>
-                      <select
-                        value={courseForm.age_group}
-                        onChange={(e) => setCourseForm(prev => ({ ...prev, age_group: e.target.value }))}
-                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        required
-                      >
-                        <option value="">Select Age Group</option>
-                        {ageGroups.map(age => (
-                          <option key={age} value={age}>{age}</option>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="number"
+                          min={0}
+                          max={MAX_CLASS_AGE}
+                          value={courseForm.min_age}
+                          onChange={(e) => setCourseForm(prev => ({ ...prev, min_age: e.target.value }))}
+                          placeholder="From"
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          required
+                        />
+                        <span className="text-gray-500 text-sm">to</span>
+                        <input
+                          type="number"
+                          min={courseForm.min_age || 0}
+                          max={MAX_CLASS_AGE}
+                          value={courseForm.max_age}
+                          onChange={(e) => setCourseForm(prev => ({ ...prev, max_age: e.target.value }))}
+                          placeholder="Any"
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {ageRanges.map(range => (
+                          <button
+                            key={formatAgeRange(range)}
+                            type="button"
+                            onClick={() => setCourseForm(prev => ({
+                              ...prev,
+                              min_age: String(range.min),
+                              max_age: range.max !== null ? String(range.max) : ''
+                            }))}
+                            className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700 hover:bg-blue-100 hover:text-blue-800"
+                          >
+                            {formatAgeRange(range)}
+                          </button>
                         ))}
-                      </select>
+                      </div>
                     </div>
 
                     <div>
@@ -668,15 +750,27 @@ export default function ProviderDashboard() {
                       </div>
                     </div>
 
-                    <div>
+                    <div className="md:col-span-2">
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Schedule
                       </label>
-                      <input
-                        type="text"
+                      <ScheduleEditor
                         value={courseForm.schedule}
-                        onChange={(e) => setCourseForm(prev => ({ ...prev, schedule: e.target.value }))}
-                        placeholder="e.g., Mon-Wed-Fri 4-5 PM"
+                        onChange={(schedule) => setCourseForm(prev => ({ ...prev, schedule }))}
+                        error={scheduleError}
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Batch Size
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={courseForm.batch_size}
+                        onChange={(e) => setCourseForm(prev => ({ ...prev, batch_size: e.target.value }))}
+                        placeholder="Seats per batch (leave blank for no limit)"
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       />
                     </div>
@@ -749,7 +843,7 @@ export default function ProviderDashboard() {
                         </h3>
                         <div className="flex items-center space-x-2 mb-2">
                           <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
-                            {course.category}
+                            {getCategoryLabel(course.category)}
                           </span>
                           <span className="px-2 py-1 bg-gray-100 text-gray-800 text-xs rounded-full">
                             {course.age_group}
@@ -769,8 +863,15 @@ export default function ProviderDashboard() {
                           <p><strong>Mode:</strong> {course.mode}</p>
                           <p><strong>Duration:</strong> {course.duration}</p>
                           <p><strong>Fee:</strong> ₹{course.price} {course.fee_type === 'per_session' ? 'per session' : 'monthly'}</p>
-                          {course.schedule?.timing && (
-                            <p><strong>Schedule:</strong> {course.schedule.timing}</p>
+                          {normalizeSchedule(course.schedule).length > 0 && (
+                            <p><strong>Schedule:</strong> {normalizeSchedule(course.schedule).join(', ')}</p>
+                          )}
+                          {course.batch_size && (
+                            <p>
+                              <strong>Seats:</strong>{' '}
+                              {availability[course.id]?.seats_left ?? course.batch_size} of {course.batch_size} left
+                              {availability[course.id]?.waitlist_count ? ` • ${availability[course.id].waitlist_count} on waitlist` : ''}
+                            </p>
                           )}
                         </div>
                       </div>
@@ -820,6 +921,75 @@ export default function ProviderDashboard() {
             )}
           </>
         )}
+
+        {/* Enquiries Tab */}
+        {activeTab === 'enquiries' && (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-semibold text-gray-900">Enquiries</h2>
+              {totalUnread > 0 && (
+                <span className="text-sm text-gray-600">{totalUnread} unread messages</span>
+              )}
+            </div>
+            <EnquiryInbox
+              enquiries={enquiries}
+              classes={classes}
+              loading={enquiriesLoading}
+              unreadCounts={unreadCounts}
+              onReply={async (enquiryId, message) => {
+                await respondToEnquiry(enquiryId, message);
+                refetchStats();
+              }}
+              onClose={async (enquiryId) => {
+                await closeEnquiry(enquiryId);
+                refetchStats();
+              }}
+              onRead={markRead}
+              onReplied={(enquiryId) => {
+                markResponded(enquiryId);
+                refetchStats();
+              }}
+            />
+          </>
+        )}
+
+        {/* Bookings Tab */}
+        {activeTab === 'bookings' && (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-semibold text-gray-900">Bookings</h2>
+              <span className="text-sm text-gray-600">{providerStats.activeBookings} active</span>
+            </div>
+            <BookingList
+              bookings={bookings}
+              loading={bookingsLoading}
+              onUpdateStatus={async (bookingId, status) => {
+                await updateBookingStatus(bookingId, status);
+                refetchStats();
+                refetchAvailability();
+              }}
+            />
+          </>
+        )}
+
+        {/* Reviews Tab */}
+        {activeTab === 'reviews' && (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-semibold text-gray-900">Reviews</h2>
+              {provider && provider.review_count > 0 && (
+                <span className="text-sm text-gray-600">
+                  {Number(provider.average_rating).toFixed(1)} average from {provider.review_count} reviews
+                </span>
+              )}
+            </div>
+            <ReviewList
+              reviews={reviews}
+              loading={reviewsLoading}
+              onReply={replyToReview}
+            />
+          </>
+        )}
       </div>
     </div>
   );
@@ -6,38 +6,30 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useProvider } from '../../hooks/useProvider';
+import { useTaxonomy } from '../../hooks/useTaxonomy';
 import { ProviderService } from '../../services/providerService';
+import { DEFAULT_TIMEZONE } from '../../utils/schedule';
+import { ageRanges, formatAgeRange, spanAgeRanges } from '../../utils/ageRange';
+import { Coordinates } from '../../utils/geo';
 import Button from '../../components/UI/Button';
 import Card from '../../components/UI/Card';
+import SubcategoryPicker from '../../components/Provider/SubcategoryPicker';
 
-const cities = [
-  'Delhi', 'Mumbai', 'Bangalore', 'Hyderabad', 'Chennai', 'Kolkata', 
-  'Pune', 'Gurgaon', 'Noida', 'Ahmedabad', 'Jaipur', 'Lucknow'
-];
-
-const areas = {
-  'Gurgaon': ['Sector 15', 'Sector 22', 'Phase 2', 'DLF City', 'Cyber City', 'Golf Course Road'],
-  'Delhi': ['Connaught Place', 'Karol Bagh', 'Lajpat Nagar', 'Saket', 'Dwarka', 'Rohini'],
-  'Mumbai': ['Bandra', 'Andheri', 'Powai', 'Thane', 'Navi Mumbai', 'Borivali']
-};
-
-const serviceCategories = [
-  { id: 'tuition', name: 'Academic Tuitions', icon: '📚' },
-  { id: 'music', name: 'Music Classes', icon: '🎵' },
-  { id: 'dance', name: 'Dance Classes', icon: '💃' },
-  { id: 'sports', name: 'Sports Training', icon: '⚽' },
-  { id: 'coding', name: 'Coding / STEM', icon: '💻' },
-  { id: 'art', name: 'Art & Craft', icon: '🎨' },
-  { id: 'daycare', name: 'Daycare / After-school', icon: '🏠' },
-  { id: 'camps', name: 'Summer Camps', icon: '🏕️' }
-];
-
-const ageGroups = ['3-5 years', '6-8 years', '9-12 years', '13-16 years', '16+ years'];
 const timings = ['Morning (6-12 PM)', 'Afternoon (12-6 PM)', 'Evening (6-10 PM)', 'Flexible'];
 
 export default function ProviderOnboarding() {
   const { user, supabaseUser } = useAuth();
   const { provider, createProvider } = useProvider();
+  const {
+    topCategories,
+    getCategory,
+    getCategoryBranch,
+    cityNames,
+    getAreaNames,
+    geocodeArea,
+    lookupPincode,
+    reverseGeocode
+  } = useTaxonomy();
   const navigate = useNavigate();
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -48,6 +40,7 @@ export default function ProviderOnboarding() {
   const [selectedCity, setSelectedCity] = useState('');
   const [selectedArea, setSelectedArea] = useState('');
   const [pincode, setPincode] = useState('');
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
 
   // Business info state
@@ -90,23 +83,23 @@ export default function ProviderOnboarding() {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setTimeout(() => {
-            const mockLocation = {
-              city: 'Gurgaon',
-              area: 'Sector 15',
-              pincode: '122001',
-              coordinates: {
-                lat: position.coords.latitude,
-                lng: position.coords.longitude
-              }
-            };
-            
-            setSelectedCity(mockLocation.city);
-            setSelectedArea(mockLocation.area);
-            setPincode(mockLocation.pincode);
-            setIsDetecting(false);
-            setCurrentStep(2);
-          }, 2000);
+          const location = reverseGeocode({
+            lat: position.coords.latitude,
+            lng: position.coords.longitude
+          });
+          setIsDetecting(false);
+
+          if (!location) {
+            setLocationMethod('manual');
+            alert("We don't cover your area yet. Please select the nearest city and area manually.");
+            return;
+          }
+
+          setSelectedCity(location.city);
+          setSelectedArea(location.area);
+          setPincode(location.pincode || '');
+          setCoordinates(location.coordinates || null);
+          setCurrentStep(2);
         },
         (error) => {
           setIsDetecting(false);
@@ -127,9 +120,22 @@ export default function ProviderOnboarding() {
       return;
     }
 
+    setCoordinates(geocodeArea(selectedCity, selectedArea) || null);
     setCurrentStep(2);
   };
 
+  // A known pincode picks the city and area for the provider
+  const handlePincodeChange = (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, 6);
+    setPincode(digits);
+
+    const match = digits.length === 6 ? lookupPincode(digits) : null;
+    if (match) {
+      setSelectedCity(match.city);
+      setSelectedArea(match.area);
+    }
+  };
+
   const handleBusinessInfo = () => {
     if (!businessInfo.businessName || !businessInfo.ownerName || !businessInfo.phone || !businessInfo.email) {
       alert('Please fill all required fields');
@@ -139,6 +145,15 @@ export default function ProviderOnboarding() {
     setCurrentStep(3);
   };
 
+  // Dropping a category also drops the subcategories chosen under it
+  const toggleService = (categoryId: string) => {
+    setSelectedServices(prev =>
+      prev.includes(categoryId)
+        ? prev.filter(id => !getCategoryBranch(categoryId).includes(id))
+        : [...prev, categoryId]
+    );
+  };
+
   const handleServices = () => {
     if (selectedServices.length === 0) {
       alert('Please select at least one service category');
@@ -180,8 +195,8 @@ export default function ProviderOnboarding() {
         city: selectedCity,
         area: selectedArea,
         pincode: pincode,
-        latitude: 28.4595, // Mock coordinates
-        longitude: 77.0266,
+        latitude: coordinates?.lat ?? null,
+        longitude: coordinates?.lng ?? null,
         status: 'pending' as const
       };
 
@@ -191,18 +206,24 @@ export default function ProviderOnboarding() {
       await ProviderService.addProviderServices(newProvider.id, selectedServices);
 
       // Create a sample class
-      if (classDetails.ageGroups.length > 0) {
+      const selectedRanges = ageRanges.filter(range => classDetails.ageGroups.includes(formatAgeRange(range)));
+      if (selectedRanges.length > 0) {
+        // One sample class covering every age group the provider serves
+        const ageSpan = spanAgeRanges(selectedRanges);
         await ProviderService.createClass({
           provider_id: newProvider.id,
           name: `${selectedServices[0]} Classes`,
           description: `Professional ${selectedServices[0]} training`,
           category: selectedServices[0],
-          age_group: classDetails.ageGroups[0],
+          age_group: formatAgeRange(ageSpan),
+          min_age: ageSpan.min,
+          max_age: ageSpan.max,
           mode: classDetails.type,
           duration: classDetails.duration,
           price: classDetails.feeStructure.amount,
           fee_type: classDetails.feeStructure.type,
-          schedule: classDetails.timings.map(timing => ({ timing }))
+          // Onboarding only asks for preferred times of day; exact sessions are added from the dashboard
+          schedule: { timezone: DEFAULT_TIMEZONE, slots: [], note: classDetails.timings.join(', ') }
         });
       }
 
@@ -216,7 +237,9 @@ export default function ProviderOnboarding() {
     }
   };
 
-  const filteredCities = cities.filter(city =>
+  const cityAreas = selectedCity ? getAreaNames(selectedCity) : [];
+
+  const filteredCities = cityNames.filter(city =>
     city.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
@@ -316,13 +339,13 @@ export default function ProviderOnboarding() {
                   </div>
                 </div>
 
-                {selectedCity && areas[selectedCity as keyof typeof areas] && (
+                {cityAreas.length > 0 && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Select Area in {selectedCity}
                     </label>
                     <div className="grid grid-cols-1 gap-2 max-h-40 overflow-y-auto">
-                      {areas[selectedCity as keyof typeof areas].map(area => (
+                      {cityAreas.map(area => (
                         <button
                           key={area}
                           type="button"
@@ -347,7 +370,7 @@ export default function ProviderOnboarding() {
                   <input
                     type="text"
                     value={pincode}
-                    onChange={(e) => setPincode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    onChange={(e) => handlePincodeChange(e.target.value)}
                     placeholder="Enter 6-digit pin code"
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     maxLength={6}
@@ -494,17 +517,11 @@ export default function ProviderOnboarding() {
             </div>
 
             <div className="grid grid-cols-2 gap-3">
-              {serviceCategories.map(category => (
+              {topCategories.map(category => (
                 <button
                   key={category.id}
                   type="button"
-                  onClick={() => {
-                    setSelectedServices(prev => 
-                      prev.includes(category.id)
-                        ? prev.filter(id => id !== category.id)
-                        : [...prev, category.id]
-                    );
-                  }}
+                  onClick={() => toggleService(category.id)}
                   className={`p-4 border-2 rounded-xl transition-all text-left ${
                     selectedServices.includes(category.id)
                       ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -512,11 +529,13 @@ export default function ProviderOnboarding() {
                   }`}
                 >
                   <div className="text-2xl mb-2">{category.icon}</div>
-                  <div className="font-medium text-sm">{category.name}</div>
+                  <div className="font-medium text-sm">{category.serviceName}</div>
                 </button>
               ))}
             </div>
 
+            <SubcategoryPicker selected={selectedServices} onToggle={toggleService} />
+
             <div className="flex space-x-3">
               <Button
                 onClick={() => setCurrentStep(2)}
@@ -575,7 +594,7 @@ export default function ProviderOnboarding() {
                   Age Groups Served *
                 </label>
                 <div className="space-y-2">
-                  {ageGroups.map(age => (
+                  {ageRanges.map(formatAgeRange).map(age => (
                     <label key={age} className="flex items-center">
                       <input
                         type="checkbox"
@@ -895,10 +914,10 @@ export default function ProviderOnboarding() {
                 <h3 className="font-semibold text-gray-900 mb-2">Services</h3>
                 <div className="flex flex-wrap gap-2">
                   {selectedServices.map(serviceId => {
-                    const service = serviceCategories.find(s => s.id === serviceId);
+                    const service = getCategory(serviceId);
                     return (
                       <span key={serviceId} className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
-                        {service?.icon} {service?.name}
+                        {service?.icon} {service?.serviceName}
                       </span>
                     );
                   })}
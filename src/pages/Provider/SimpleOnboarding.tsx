@@ -4,27 +4,15 @@ import { MapPin, User, Phone, Navigation, Search, ArrowRight, Save } from 'lucid
 import { useAuth } from '../../contexts/AuthContext';
 import { ProviderService } from '../../services/providerService';
 import { useToast } from '../../hooks/useToast';
+import { useTaxonomy } from '../../hooks/useTaxonomy';
 import Button from '../../components/UI/Button';
 import Card from '../../components/UI/Card';
 
-const cities = [
-  'Delhi', 'Mumbai', 'Bangalore', 'Hyderabad', 'Chennai', 'Kolkata', 
-  'Pune', 'Gurgaon', 'Noida', 'Ahmedabad', 'Jaipur', 'Lucknow'
-];
-
-const areas = {
-  'Gurgaon': ['Sector 15', 'Sector 22', 'Phase 2', 'DLF City', 'Cyber City', 'Golf Course Road'],
-  'Delhi': ['Connaught Place', 'Karol Bagh', 'Lajpat Nagar', 'Saket', 'Dwarka', 'Rohini'],
-  'Mumbai': ['Bandra', 'Andheri', 'Powai', 'Thane', 'Navi Mumbai', 'Borivali'],
-  'Bangalore': ['Koramangala', 'Indiranagar', 'Whitefield', 'Electronic City', 'HSR Layout', 'Marathahalli'],
-  'Hyderabad': ['Hitech City', 'Banjara Hills', 'Jubilee Hills', 'Kondapur', 'Gachibowli', 'Secunderabad'],
-  'Chennai': ['T Nagar', 'Anna Nagar', 'Velachery', 'Adyar', 'Tambaram', 'OMR']
-};
-
 export default function SimpleOnboarding() {
   const { user, supabaseUser } = useAuth();
   const navigate = useNavigate();
   const { showSuccess, showError } = useToast();
+  const { cityNames, getAreaNames, geocodeArea, lookupPincode, reverseGeocode } = useTaxonomy();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDetecting, setIsDetecting] = useState(false);
 
@@ -83,18 +71,23 @@ export default function SimpleOnboarding() {
       });
 
       const { latitude, longitude } = position.coords;
+      const location = reverseGeocode({ lat: latitude, lng: longitude });
+
+      if (!location) {
+        showError('Location Not Covered', "We don't cover your area yet. Please select the nearest city and area.");
+        return;
+      }
 
-      // Mock reverse geocoding (in real app, use Google Maps API)
       setFormData(prev => ({
         ...prev,
-        city: 'Gurgaon',
-        area: 'Sector 15',
-        pincode: '122001',
+        city: location.city,
+        area: location.area,
+        pincode: location.pincode || '',
         latitude,
         longitude
       }));
 
-      showSuccess('Location Detected', 'Location detected successfully!');
+      showSuccess('Location Detected', `${location.area}, ${location.city}`);
     } catch (error) {
       console.error('Error detecting location:', error);
       showError('Location Error', 'Could not detect location. Please enter manually.');
@@ -103,6 +96,33 @@ export default function SimpleOnboarding() {
     }
   };
 
+  // Chosen areas are placed at their centroid; a known pincode also picks the city and area
+  const handleAreaChange = (city: string, area: string) => {
+    const coordinates = geocodeArea(city, area);
+    setFormData(prev => ({
+      ...prev,
+      city,
+      area,
+      latitude: coordinates?.lat ?? null,
+      longitude: coordinates?.lng ?? null
+    }));
+  };
+
+  const handlePincodeChange = (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, 6);
+    const match = digits.length === 6 ? lookupPincode(digits) : null;
+    setFormData(prev => match ? {
+      ...prev,
+      pincode: digits,
+      city: match.city,
+      area: match.area,
+      latitude: match.coordinates?.lat ?? null,
+      longitude: match.coordinates?.lng ?? null
+    } : { ...prev, pincode: digits });
+  };
+
+  const cityAreas = formData.city ? getAreaNames(formData.city) : [];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -131,8 +151,8 @@ export default function SimpleOnboarding() {
         city: formData.city,
         area: formData.area,
         pincode: formData.pincode,
-        latitude: formData.latitude || 28.4595, // Default to Gurgaon
-        longitude: formData.longitude || 77.0266,
+        latitude: formData.latitude,
+        longitude: formData.longitude,
         status: 'pending' as const
       };
 
@@ -221,14 +241,12 @@ export default function SimpleOnboarding() {
                   </label>
                   <select
                     value={formData.city}
-                    onChange={(e) => {
-                      setFormData(prev => ({ ...prev, city: e.target.value, area: '' }));
-                    }}
+                    onChange={(e) => handleAreaChange(e.target.value, '')}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     required
                   >
                     <option value="">Select City</option>
-                    {cities.map(city => (
+                    {cityNames.map(city => (
                       <option key={city} value={city}>{city}</option>
                     ))}
                   </select>
@@ -238,15 +256,15 @@ export default function SimpleOnboarding() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Area *
                   </label>
-                  {formData.city && areas[formData.city as keyof typeof areas] ? (
+                  {cityAreas.length > 0 ? (
                     <select
                       value={formData.area}
-                      onChange={(e) => setFormData(prev => ({ ...prev, area: e.target.value }))}
+                      onChange={(e) => handleAreaChange(formData.city, e.target.value)}
                       className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       required
                     >
                       <option value="">Select Area</option>
-                      {areas[formData.city as keyof typeof areas].map(area => (
+                      {cityAreas.map(area => (
                         <option key={area} value={area}>{area}</option>
                       ))}
                     </select>
@@ -254,7 +272,7 @@ export default function SimpleOnboarding() {
                     <input
                       type="text"
                       value={formData.area}
-                      onChange={(e) => setFormData(prev => ({ ...prev, area: e.target.value }))}
+                      onChange={(e) => handleAreaChange(formData.city, e.target.value)}
                       placeholder={formData.city ? `Enter area in ${formData.city}` : "Select city first"}
                       className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       required
@@ -270,7 +288,7 @@ export default function SimpleOnboarding() {
                   <input
                     type="text"
                     value={formData.pincode}
-                    onChange={(e) => setFormData(prev => ({ ...prev, pincode: e.target.value.replace(/\D/g, '').slice(0, 6) }))}
+                    onChange={(e) => handlePincodeChange(e.target.value)}
                     placeholder="Enter 6-digit pin code"
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     maxLength={6}
@@ -1,15 +1,29 @@
-import React, { useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useToast } from '../hooks/useToast';
 import { 
   ArrowLeft, MapPin, Phone, MessageCircle, Star, Clock, Users, 
-  Heart, Share, CheckCircle, Camera, Calendar
+  Heart, Share, CheckCircle, Calendar, Flag
 } from 'lucide-react';
 import { mockProviders, mockReviews } from '../data/mockData';
 import { useAuth } from '../contexts/AuthContext';
+import { useWishlist } from '../hooks/useWishlist';
+import { useChildren } from '../hooks/useChildren';
+import { useClassAvailability } from '../hooks/useBookings';
+import { ProviderService } from '../services/providerService';
+import { EnquiryService } from '../services/enquiryService';
+import { BookingService } from '../services/bookingService';
+import { WaitlistService } from '../services/waitlistService';
+import { ReviewableBooking, ReviewService } from '../services/reviewService';
+import { Provider, RatingAspect, ReportTargetType, Review } from '../types';
+import { ProviderPhoto, toProvider, toProviderPhotos, toReview } from '../utils/providerAdapter';
+import { getDistanceKm, roundDistance } from '../utils/geo';
+import { ratingAspectLabels, ratingAspects, ReviewSort, reviewSortLabels, sortReviews } from '../utils/reviewStats';
 import Card from '../components/UI/Card';
 import Button from '../components/UI/Button';
 import StarRating from '../components/UI/StarRating';
+import RatingBreakdown from '../components/Review/RatingBreakdown';
+import ReportDialog from '../components/Report/ReportDialog';
 
 export default function ProviderDetails() {
   const { id } = useParams<{ id: string }>();
@@ -20,9 +34,97 @@ export default function ProviderDetails() {
   const [selectedChild, setSelectedChild] = useState('');
   const [interestedClass, setInterestedClass] = useState('');
   const [message, setMessage] = useState('');
+  const [contactPhone, setContactPhone] = useState(user?.phone || '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [bookingClassId, setBookingClassId] = useState<string | null>(null);
+  const [bookingChild, setBookingChild] = useState('');
+  const [bookingStartDate, setBookingStartDate] = useState('');
+  const [bookingNotes, setBookingNotes] = useState('');
+  const [showReviewForm, setShowReviewForm] = useState(false);
+  const [reviewBookingId, setReviewBookingId] = useState('');
+  const [reviewRating, setReviewRating] = useState(0);
+  const [reviewAspects, setReviewAspects] = useState<Partial<Record<RatingAspect, number>>>({});
+  const [reviewComment, setReviewComment] = useState('');
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const { children } = useChildren();
 
-  const provider = mockProviders.find(p => p.id === id);
-  const reviews = mockReviews.filter(r => r.provider === id);
+  const [provider, setProvider] = useState<Provider | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [photos, setPhotos] = useState<ProviderPhoto[]>([]);
+  const [reportTarget, setReportTarget] = useState<{ type: ReportTargetType; id: string; subject: string } | null>(null);
+  const [reviewableBookings, setReviewableBookings] = useState<ReviewableBooking[]>([]);
+  const [votedReviewIds, setVotedReviewIds] = useState<string[]>([]);
+  const [reviewSort, setReviewSort] = useState<ReviewSort>('helpful');
+  const [showAllReviews, setShowAllReviews] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { availability } = useClassAvailability(provider?.classes.map(c => c.id) || []);
+
+  useEffect(() => {
+    if (id) {
+      loadProvider(id);
+    }
+  }, [id, user?._id]);
+
+  const loadProvider = async (providerId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Demo sessions browse the mock catalogue, so their details come from it too
+      if (localStorage.getItem('demoUser')) {
+        setProvider(mockProviders.find(p => p.id === providerId) || null);
+        setReviews(mockReviews.filter(r => r.provider === providerId));
+        return;
+      }
+
+      const [row, bookings] = await Promise.all([
+        ProviderService.getProviderDetails(providerId),
+        user?._id ? ReviewService.getReviewableBookings(user._id, providerId) : []
+      ]);
+      const providerReviews = (row?.reviews || []).map(toReview);
+      setProvider(row ? toProvider(row) : null);
+      setPhotos(row ? toProviderPhotos(row) : []);
+      setReviews(providerReviews);
+      setReviewableBookings(bookings);
+      setVotedReviewIds(user?._id
+        ? await ReviewService.getVotedReviewIds(user._id, providerReviews.map(review => review.id))
+        : []);
+    } catch (err) {
+      console.error('❌ Error loading provider:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load provider');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading provider...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-500 mb-4">
+            <span className="text-4xl">⚠️</span>
+            <h2 className="text-xl font-medium mt-2">Error Loading Provider</h2>
+            <p className="text-red-400 mt-2">{error}</p>
+          </div>
+          <Button onClick={() => id && loadProvider(id)} variant="outline">
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
 
   if (!provider) {
     return (
@@ -35,16 +137,204 @@ export default function ProviderDetails() {
     );
   }
 
-  const handleEnquiry = () => {
-    if (!selectedChild || !interestedClass || !message.trim()) {
+  const handleEnquiry = async () => {
+    const child = children.find(c => c.id === selectedChild);
+    const classItem = provider.classes.find(c => c.id === interestedClass);
+
+    if (!child || !classItem || !message.trim() || !contactPhone.trim()) {
       showError('Missing Information', 'Please fill all fields');
       return;
     }
 
-    // Mock enquiry submission
-    showSuccess('Enquiry Sent', 'Your enquiry has been sent successfully! The provider will contact you soon.');
-    setShowEnquiryForm(false);
-    navigate('/enquiries');
+    if (localStorage.getItem('demoUser')) {
+      // Demo sessions have no database account to send from
+      showSuccess('Enquiry Sent', 'Your enquiry has been sent successfully! The provider will contact you soon.');
+      setShowEnquiryForm(false);
+      navigate('/enquiries');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      if (!user?._id) throw new Error('User not authenticated');
+
+      await EnquiryService.createEnquiry({
+        provider_id: provider.id,
+        parent_id: user._id,
+        parent_name: user.name,
+        parent_phone: contactPhone.trim(),
+        parent_email: user.email || null,
+        child_id: child.id || null,
+        child_name: child.name,
+        child_age: child.age,
+        interested_class_id: classItem.id,
+        message: message.trim()
+      });
+
+      showSuccess('Enquiry Sent', 'Your enquiry has been sent successfully! The provider will contact you soon.');
+      setShowEnquiryForm(false);
+      navigate('/enquiries');
+    } catch (err) {
+      console.error('❌ Error sending enquiry:', err);
+      showError('Enquiry Not Sent', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Full classes take waitlist sign-ups instead of bookings
+  const isClassFull = (classId: string) => availability[classId]?.seats_left === 0;
+
+  const getSeatsLabel = (classId: string) => {
+    const seats = availability[classId];
+    if (!seats || seats.seats_left === null) return null;
+    if (seats.seats_left === 0) {
+      return seats.waitlist_count > 0 ? `Full • ${seats.waitlist_count} on waitlist` : 'Full';
+    }
+    return `${seats.seats_left} ${seats.seats_left === 1 ? 'seat' : 'seats'} left`;
+  };
+
+  const openBookingForm = (classId: string) => {
+    setBookingClassId(classId);
+    setBookingChild('');
+    setBookingStartDate('');
+    setBookingNotes('');
+  };
+
+  const handleBooking = async () => {
+    const child = children.find(c => c.id === bookingChild);
+    const classItem = provider.classes.find(c => c.id === bookingClassId);
+
+    if (!child || !classItem) {
+      showError('Missing Information', 'Please choose a child');
+      return;
+    }
+
+    if (localStorage.getItem('demoUser')) {
+      showSuccess('Booking Requested', `${provider.name} will confirm your booking soon.`);
+      setBookingClassId(null);
+      navigate('/bookings');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      if (!user?._id) throw new Error('User not authenticated');
+
+      if (isClassFull(classItem.id)) {
+        const entry = await WaitlistService.joinWaitlist(classItem.id, child.name, child.age);
+        showSuccess(
+          entry.status === 'offered' ? 'Seat Held' : 'Added to Waitlist',
+          entry.status === 'offered'
+            ? `A seat just opened up and is held for ${child.name}. Accept it from My Bookings.`
+            : `We'll hold the next free seat for ${child.name} and let you know.`
+        );
+        setBookingClassId(null);
+        navigate('/bookings');
+        return;
+      }
+
+      await BookingService.createBooking({
+        provider_id: provider.id,
+        parent_id: user._id,
+        class_id: classItem.id,
+        child_name: child.name,
+        child_age: child.age,
+        start_date: bookingStartDate || null,
+        notes: bookingNotes.trim() || null
+      });
+
+      showSuccess('Booking Requested', `${provider.name} will confirm your booking soon.`);
+      setBookingClassId(null);
+      navigate('/bookings');
+    } catch (err) {
+      console.error('❌ Error requesting booking:', err);
+      showError('Booking Not Requested', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openReviewForm = () => {
+    setReviewBookingId(reviewableBookings[0]?.id || '');
+    setReviewRating(0);
+    setReviewAspects({});
+    setReviewComment('');
+    setShowReviewForm(true);
+  };
+
+  const handleReview = async () => {
+    if (!reviewBookingId || !reviewRating) {
+      showError('Missing Information', 'Please choose a booking and a rating');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      if (!user?._id) throw new Error('User not authenticated');
+
+      await ReviewService.createReview({
+        providerId: provider.id,
+        parentId: user._id,
+        parentName: user.name,
+        bookingId: reviewBookingId,
+        rating: reviewRating,
+        aspectRatings: reviewAspects,
+        comment: reviewComment
+      });
+
+      showSuccess('Review Posted', `Thanks for reviewing ${provider.name}!`);
+      setShowReviewForm(false);
+      // Picks up the new review along with the provider's updated rating
+      await loadProvider(provider.id);
+    } catch (err) {
+      console.error('❌ Error posting review:', err);
+      showError('Review Not Posted', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleHelpful = async (review: Review) => {
+    const voted = votedReviewIds.includes(review.id);
+    const applyVote = (hasVoted: boolean) => {
+      setVotedReviewIds(prev => hasVoted ? [...prev, review.id] : prev.filter(id => id !== review.id));
+      setReviews(prev => prev.map(r =>
+        r.id === review.id ? { ...r, helpful: (r.helpful || 0) + (hasVoted ? 1 : -1) } : r
+      ));
+    };
+
+    // Demo sessions keep their votes on screen only
+    if (localStorage.getItem('demoUser')) {
+      applyVote(!voted);
+      return;
+    }
+
+    try {
+      if (!user?._id) throw new Error('User not authenticated');
+
+      applyVote(!voted);
+      if (voted) {
+        await ReviewService.removeHelpfulVote(review.id, user._id);
+      } else {
+        await ReviewService.addHelpfulVote(review.id, user._id);
+      }
+    } catch (err) {
+      applyVote(voted);
+      showError('Vote Not Saved', err instanceof Error ? err.message : 'Please try again');
+    }
+  };
+
+  const handleToggleWishlist = async () => {
+    try {
+      const saved = await toggleWishlist(provider.id);
+      if (saved) showSuccess('Saved', `${provider.name} was added to your wishlist.`);
+    } catch (err) {
+      showError('Wishlist Not Updated', err instanceof Error ? err.message : 'Please try again');
+    }
   };
 
   const handleWhatsApp = () => {
@@ -55,9 +345,12 @@ export default function ProviderDetails() {
     }
   };
 
-  const getDistanceText = (distance: number) => {
-    if (distance === 0) return 'Online Classes';
-    return `${distance} km away`;
+  const getDistanceText = () => {
+    const origin = user?.location?.coordinates;
+    if (origin && provider.location.coordinates) {
+      return `${roundDistance(getDistanceKm(origin, provider.location.coordinates))} km away`;
+    }
+    return provider.location.area;
   };
 
   return (
@@ -69,12 +362,24 @@ export default function ProviderDetails() {
             <ArrowLeft className="w-5 h-5" />
           </button>
           <div className="flex space-x-2">
-            <button className="p-2">
-              <Heart className="w-5 h-5 text-gray-600" />
+            <button
+              onClick={handleToggleWishlist}
+              className="p-2"
+              aria-pressed={isWishlisted(provider.id)}
+              title={isWishlisted(provider.id) ? 'Remove from wishlist' : 'Save to wishlist'}
+            >
+              <Heart className={`w-5 h-5 ${isWishlisted(provider.id) ? 'text-red-500 fill-red-500' : 'text-gray-600'}`} />
             </button>
             <button className="p-2">
               <Share className="w-5 h-5 text-gray-600" />
             </button>
+            <button
+              onClick={() => setReportTarget({ type: 'provider', id: provider.id, subject: provider.name })}
+              className="p-2"
+              title="Report this provider"
+            >
+              <Flag className="w-5 h-5 text-gray-600" />
+            </button>
           </div>
         </div>
       </div>
@@ -100,7 +405,7 @@ export default function ProviderDetails() {
                     </div>
                   )}
                   <span className="text-sm opacity-90">
-                    {getDistanceText(provider.distance || 0)}
+                    {getDistanceText()}
                   </span>
                 </div>
               </div>
@@ -115,7 +420,7 @@ export default function ProviderDetails() {
               <div className="flex items-center space-x-1">
                 <StarRating rating={provider.averageRating || 0} size="sm" />
                 <span className="font-semibold text-gray-900">
-                  {provider.averageRating}
+                  {provider.averageRating ? provider.averageRating.toFixed(1) : '–'}
                 </span>
               </div>
               <span className="text-gray-600">
@@ -177,6 +482,9 @@ export default function ProviderDetails() {
         {/* Classes Offered */}
         <Card className="p-4 mb-4">
           <h3 className="font-semibold text-gray-900 mb-3">Classes Offered</h3>
+          {provider.classes.length === 0 && (
+            <p className="text-sm text-gray-500">No classes are open right now.</p>
+          )}
           <div className="space-y-3">
             {provider.classes.map(classItem => (
               <div key={classItem.id} className="border border-gray-200 rounded-lg p-3">
@@ -202,28 +510,91 @@ export default function ProviderDetails() {
                     {classItem.mode}
                   </span>
                 </div>
-                <div className="mt-2">
+                <div className="mt-2 flex items-center justify-between">
                   <p className="text-sm text-gray-600">
                     <strong>Schedule:</strong> {classItem.schedule.join(', ')}
                   </p>
+                  <Button size="sm" variant="outline" onClick={() => openBookingForm(classItem.id)}>
+                    <Calendar className="w-3 h-3 mr-1" />
+                    {isClassFull(classItem.id) ? 'Join Waitlist' : 'Book'}
+                  </Button>
                 </div>
+                {getSeatsLabel(classItem.id) && (
+                  <p className={`text-xs font-medium mt-1 ${isClassFull(classItem.id) ? 'text-red-600' : 'text-green-600'}`}>
+                    {getSeatsLabel(classItem.id)}
+                  </p>
+                )}
               </div>
             ))}
           </div>
         </Card>
 
+        {/* Photos */}
+        {photos.length > 0 && (
+          <Card className="p-4 mb-4">
+            <h3 className="font-semibold text-gray-900 mb-3">Photos</h3>
+            <div className="flex space-x-3 overflow-x-auto">
+              {photos.map(photo => (
+                <div key={photo.id} className="relative flex-shrink-0">
+                  <img src={photo.url} alt={provider.name} className="w-32 h-24 rounded-lg object-cover" />
+                  <button
+                    onClick={() => setReportTarget({ type: 'media', id: photo.id, subject: 'this photo' })}
+                    className="absolute top-1 right-1 p-1 bg-white/80 rounded-full"
+                    title="Report this photo"
+                  >
+                    <Flag className="w-3 h-3 text-gray-600" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Reviews */}
         <Card className="p-4 mb-4">
           <div className="flex items-center justify-between mb-4">
             <h3 className="font-semibold text-gray-900">Reviews</h3>
-            <Button variant="outline" size="sm">
-              View All
-            </Button>
+            <div className="flex space-x-2">
+              {reviewableBookings.length > 0 && (
+                <Button size="sm" onClick={openReviewForm}>
+                  Write a Review
+                </Button>
+              )}
+              {reviews.length > 3 && (
+                <Button variant="outline" size="sm" onClick={() => setShowAllReviews(!showAllReviews)}>
+                  {showAllReviews ? 'Show Less' : 'View All'}
+                </Button>
+              )}
+            </div>
           </div>
           
+          {reviews.length > 0 && (
+            <div className="border-b border-gray-200 pb-4 mb-4">
+              <RatingBreakdown reviews={reviews} />
+            </div>
+          )}
+
+          {reviews.length > 1 && (
+            <div className="flex space-x-2 mb-4">
+              {(Object.keys(reviewSortLabels) as ReviewSort[]).map(sort => (
+                <button
+                  key={sort}
+                  onClick={() => setReviewSort(sort)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium ${
+                    reviewSort === sort
+                      ? 'bg-purple-100 text-purple-700'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {reviewSortLabels[sort]}
+                </button>
+              ))}
+            </div>
+          )}
+
           {reviews.length > 0 ? (
             <div className="space-y-4">
-              {reviews.slice(0, 3).map(review => (
+              {sortReviews(reviews, reviewSort).slice(0, showAllReviews ? undefined : 3).map(review => (
                 <div key={review.id} className="border-b border-gray-200 last:border-b-0 pb-4 last:pb-0">
                   <div className="flex items-start justify-between mb-2">
                     <div>
@@ -238,13 +609,44 @@ export default function ProviderDetails() {
                     </span>
                   </div>
                   <p className="text-gray-700 text-sm">{review.comment}</p>
-                  {review.helpful && (
-                    <div className="mt-2 flex items-center space-x-2">
-                      <button className="text-sm text-gray-500 hover:text-gray-700">
-                        👍 Helpful ({review.helpful})
-                      </button>
+                  {review.reply && (
+                    <div className="mt-3 ml-4 bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs font-medium text-gray-900 mb-1">
+                        Reply from {provider.name}
+                        {review.repliedAt && (
+                          <span className="font-normal text-gray-500"> • {review.repliedAt.toLocaleDateString()}</span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-700">{review.reply}</p>
                     </div>
                   )}
+                  <div className="mt-2 flex items-center space-x-2">
+                    {user?.role === 'parent' && review.parent !== user._id ? (
+                      <button
+                        onClick={() => handleHelpful(review)}
+                        aria-pressed={votedReviewIds.includes(review.id)}
+                        className={`text-sm ${
+                          votedReviewIds.includes(review.id)
+                            ? 'text-purple-600 font-medium'
+                            : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        👍 Helpful{review.helpful ? ` (${review.helpful})` : ''}
+                      </button>
+                    ) : review.helpful ? (
+                      <span className="text-sm text-gray-500">
+                        👍 {review.helpful} found this helpful
+                      </span>
+                    ) : null}
+                    {review.parent !== user?._id && (
+                      <button
+                        onClick={() => setReportTarget({ type: 'review', id: review.id, subject: 'this review' })}
+                        className="text-sm text-gray-400 hover:text-gray-600"
+                      >
+                        Report
+                      </button>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -301,12 +703,17 @@ export default function ProviderDetails() {
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                 >
                   <option value="">Choose a child</option>
-                  {user?.children?.map(child => (
-                    <option key={child.name} value={child.name}>
+                  {children.map(child => (
+                    <option key={child.id} value={child.id}>
                       {child.name} (Age {child.age})
                     </option>
                   ))}
                 </select>
+                {!children.length && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    <Link to="/profile" className="text-purple-600 font-medium">Add your children to your profile</Link> to send an enquiry.
+                  </p>
+                )}
               </div>
 
               <div>
@@ -320,13 +727,26 @@ export default function ProviderDetails() {
                 >
                   <option value="">Select a class</option>
                   {provider.classes.map(classItem => (
-                    <option key={classItem.id} value={classItem.name}>
+                    <option key={classItem.id} value={classItem.id}>
                       {classItem.name}
                     </option>
                   ))}
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Contact Phone
+                </label>
+                <input
+                  type="tel"
+                  value={contactPhone}
+                  onChange={(e) => setContactPhone(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="Number the provider can reach you on"
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Message
@@ -350,10 +770,210 @@ export default function ProviderDetails() {
                 </Button>
                 <Button
                   onClick={handleEnquiry}
-                  disabled={!selectedChild || !interestedClass || !message.trim()}
+                  disabled={!selectedChild || !interestedClass || !message.trim() || !contactPhone.trim() || isSubmitting}
+                  className="flex-1"
+                >
+                  {isSubmitting ? 'Sending...' : 'Send Enquiry'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Review Form Modal */}
+      {showReviewForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end z-50">
+          <div className="bg-white rounded-t-2xl w-full max-h-[80vh] overflow-y-auto">
+            <div className="p-4 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Review {provider.name}</h3>
+                <button
+                  onClick={() => setShowReviewForm(false)}
+                  className="p-2 hover:bg-gray-100 rounded-full"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Completed Booking
+                </label>
+                <select
+                  value={reviewBookingId}
+                  onChange={(e) => setReviewBookingId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  {reviewableBookings.map(booking => (
+                    <option key={booking.id} value={booking.id}>
+                      {booking.provider_classes?.name || 'Class'} for {booking.child_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Rating
+                </label>
+                <StarRating rating={reviewRating} size="lg" readonly={false} onRatingChange={setReviewRating} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Rate in Detail (optional)
+                </label>
+                <div className="space-y-2">
+                  {ratingAspects.map(aspect => (
+                    <div key={aspect} className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">{ratingAspectLabels[aspect]}</span>
+                      <StarRating
+                        rating={reviewAspects[aspect] || 0}
+                        readonly={false}
+                        onRatingChange={(rating) => setReviewAspects(prev => ({ ...prev, [aspect]: rating }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Your Review (optional)
+                </label>
+                <textarea
+                  value={reviewComment}
+                  onChange={(e) => setReviewComment(e.target.value)}
+                  rows={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+                  placeholder="What did your child enjoy? How was the teaching?"
+                />
+              </div>
+
+              <div className="flex space-x-3 pt-4">
+                <Button
+                  onClick={() => setShowReviewForm(false)}
+                  variant="outline"
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleReview}
+                  disabled={!reviewBookingId || !reviewRating || isSubmitting}
+                  className="flex-1"
+                >
+                  {isSubmitting ? 'Posting...' : 'Post Review'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {reportTarget && (
+        <ReportDialog
+          targetType={reportTarget.type}
+          targetId={reportTarget.id}
+          subject={reportTarget.subject}
+          onClose={() => setReportTarget(null)}
+        />
+      )}
+
+      {/* Booking Form Modal */}
+      {bookingClassId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end z-50">
+          <div className="bg-white rounded-t-2xl w-full max-h-[80vh] overflow-y-auto">
+            <div className="p-4 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">
+                  {isClassFull(bookingClassId) ? 'Join Waitlist for' : 'Book'} {provider.classes.find(c => c.id === bookingClassId)?.name}
+                </h3>
+                <button
+                  onClick={() => setBookingClassId(null)}
+                  className="p-2 hover:bg-gray-100 rounded-full"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Select Child
+                </label>
+                <select
+                  value={bookingChild}
+                  onChange={(e) => setBookingChild(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">Choose a child</option>
+                  {children.map(child => (
+                    <option key={child.id} value={child.id}>
+                      {child.name} (Age {child.age})
+                    </option>
+                  ))}
+                </select>
+                {!children.length && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    <Link to="/profile" className="text-purple-600 font-medium">Add your children to your profile</Link> to book a class.
+                  </p>
+                )}
+              </div>
+
+              {isClassFull(bookingClassId) ? (
+                <p className="text-sm text-gray-600 bg-yellow-50 rounded-lg p-3">
+                  This class is full. When a seat opens up it will be held for 24 hours for the
+                  next child on the waitlist, and we'll notify you.
+                </p>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Preferred Start Date (optional)
+                    </label>
+                    <input
+                      type="date"
+                      value={bookingStartDate}
+                      min={new Date().toISOString().split('T')[0]}
+                      onChange={(e) => setBookingStartDate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Notes for the Provider (optional)
+                    </label>
+                    <textarea
+                      value={bookingNotes}
+                      onChange={(e) => setBookingNotes(e.target.value)}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+                      placeholder="Preferred batch, anything the provider should know, etc."
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="flex space-x-3 pt-4">
+                <Button
+                  onClick={() => setBookingClassId(null)}
+                  variant="outline"
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleBooking}
+                  disabled={!bookingChild || isSubmitting}
                   className="flex-1"
                 >
-                  Send Enquiry
+                  {isSubmitting ? 'Requesting...' : isClassFull(bookingClassId) ? 'Join Waitlist' : 'Request Booking'}
                 </Button>
               </div>
             </div>
@@ -0,0 +1,423 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Search as SearchIcon, SlidersHorizontal, X, ShieldCheck, Star } from 'lucide-react';
+import { mockProviders } from '../data/mockData';
+import { useAuth } from '../contexts/AuthContext';
+import { ProviderService } from '../services/providerService';
+import { toProvider } from '../utils/providerAdapter';
+import { getCategoryBranch } from '../utils/categoryTree';
+import {
+  SearchFilters,
+  ClassMode,
+  FeeType,
+  emptySearchFilters,
+  radiusOptions,
+  ratingOptions,
+  parseSearchParams,
+  toSearchParams,
+  countActiveFilters,
+  filterProviders
+} from '../utils/providerSearch';
+import { Provider } from '../types';
+import Button from '../components/UI/Button';
+import ProviderCard from '../components/Provider/ProviderCard';
+import { useWishlist } from '../hooks/useWishlist';
+import { useToast } from '../hooks/useToast';
+import { useTaxonomy } from '../hooks/useTaxonomy';
+
+const childAges = Array.from({ length: 16 }, (_, index) => index + 3);
+
+const modeOptions: { id: ClassMode; label: string }[] = [
+  { id: 'online', label: 'Online' },
+  { id: 'offline', label: 'Offline' },
+  { id: 'hybrid', label: 'Hybrid' }
+];
+
+const feeTypeOptions: { id: FeeType; label: string }[] = [
+  { id: 'per_session', label: 'Per Session' },
+  { id: 'monthly', label: 'Monthly' }
+];
+
+function chipClasses(active: boolean, disabled = false) {
+  return `flex-shrink-0 px-4 py-2 rounded-full text-sm font-medium transition-all ${
+    active
+      ? 'bg-purple-600 text-white'
+      : 'bg-white text-gray-600 border border-gray-200'
+  } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`;
+}
+
+export default function Search() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseSearchParams(searchParams), [searchParams]);
+  const [queryInput, setQueryInput] = useState(filters.q);
+  const [showFilters, setShowFilters] = useState(countActiveFilters(filters) === 0);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const { showError } = useToast();
+  const { categories, getCategoryLevels } = useTaxonomy();
+
+  const origin = user?.location?.coordinates;
+  const activeFilterCount = countActiveFilters(filters);
+  // The chosen category matches its subcategories too
+  const categoryBranch = useMemo(
+    () => filters.category ? getCategoryBranch(categories, filters.category) : [],
+    [filters.category, categories]
+  );
+
+  const updateFilters = useCallback((changes: Partial<SearchFilters>) => {
+    setSearchParams(toSearchParams({ ...filters, ...changes }), { replace: true });
+  }, [filters, setSearchParams]);
+
+  const handleToggleWishlist = async (providerId: string) => {
+    try {
+      await toggleWishlist(providerId);
+    } catch (err) {
+      showError('Wishlist Not Updated', err instanceof Error ? err.message : 'Please try again');
+    }
+  };
+
+  // Keep the input in sync when the URL changes (back/forward, shared links)
+  useEffect(() => {
+    setQueryInput(filters.q);
+  }, [filters.q]);
+
+  // Debounce free-text input into the URL
+  useEffect(() => {
+    if (queryInput === filters.q) return;
+    const timer = setTimeout(() => updateFilters({ q: queryInput }), 400);
+    return () => clearTimeout(timer);
+  }, [queryInput, filters.q, updateFilters]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadResults = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+        let candidates: Provider[];
+
+        if (isDemoUser) {
+          candidates = mockProviders;
+        } else {
+          const rows = await ProviderService.searchProviders({
+            categories: categoryBranch,
+            search: filters.q.trim() || undefined,
+            mode: filters.mode,
+            feeType: filters.feeType,
+            minPrice: filters.minPrice,
+            maxPrice: filters.maxPrice,
+            verifiedOnly: filters.verifiedOnly,
+            childAges: filters.childAge !== undefined ? [filters.childAge] : undefined
+          });
+          candidates = rows.map(toProvider);
+        }
+
+        if (!cancelled) {
+          setProviders(filterProviders(candidates, filters, origin, !isDemoUser, categoryBranch));
+        }
+      } catch (err) {
+        console.error('❌ Error searching providers:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to search providers');
+          setProviders([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadResults();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, origin, categoryBranch]);
+
+  const getDistanceLabel = (provider: Provider) => {
+    if (provider.distance === undefined) return provider.location.area;
+    if (provider.distance === 0) return 'Online';
+    return `${provider.distance} km away`;
+  };
+
+  const parsePriceInput = (value: string) => {
+    if (value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      {/* Header with Search */}
+      <div className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="px-4 py-3">
+          <div className="flex items-center mb-3">
+            <button onClick={() => navigate(-1)} className="p-2 -ml-2 mr-2">
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <h1 className="text-lg font-semibold flex-1">Search</h1>
+            {activeFilterCount > 0 && (
+              <button
+                onClick={() => setSearchParams(toSearchParams({ ...emptySearchFilters, q: filters.q }), { replace: true })}
+                className="text-sm font-medium text-purple-600 hover:text-purple-800"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+
+          <div className="relative">
+            <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Search for classes, tutors, activities..."
+              value={queryInput}
+              onChange={(e) => setQueryInput(e.target.value)}
+              className="w-full pl-10 pr-12 py-3 bg-gray-100 rounded-xl border-0 focus:ring-2 focus:ring-purple-500 focus:bg-white transition-all"
+            />
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1"
+              title="Filters"
+            >
+              <SlidersHorizontal className={`w-4 h-4 ${activeFilterCount > 0 ? 'text-purple-600' : 'text-gray-400'}`} />
+              {activeFilterCount > 0 && (
+                <span className="absolute -top-2 -right-2 w-4 h-4 bg-purple-600 text-white text-[10px] rounded-full flex items-center justify-center">
+                  {activeFilterCount}
+                </span>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="px-4 py-6">
+        {/* Filters */}
+        {showFilters && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-6 space-y-5">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Category</h3>
+              <div className="space-y-2">
+                {getCategoryLevels(filters.category).map(level => (
+                  <div key={level.parent?.id || 'top'} className="flex space-x-2 overflow-x-auto pb-1">
+                    <button
+                      onClick={() => updateFilters({ category: level.parent?.id || '' })}
+                      className={chipClasses(!level.selectedId)}
+                    >
+                      {level.parent ? `All ${level.parent.name}` : 'All'}
+                    </button>
+                    {level.options.map(category => (
+                      <button
+                        key={category.id}
+                        onClick={() => updateFilters({ category: category.id })}
+                        className={`${chipClasses(level.selectedId === category.id)} flex items-center space-x-2`}
+                      >
+                        <span>{category.icon}</span>
+                        <span>{category.name}</span>
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-2">Child's Age</label>
+                <select
+                  value={filters.childAge ?? ''}
+                  onChange={(e) => updateFilters({ childAge: e.target.value ? Number(e.target.value) : undefined })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">Any age</option>
+                  {user?.children?.map((child, index) => (
+                    <option key={child.id ?? `child-${index}`} value={child.age}>
+                      {child.name} ({child.age} yrs)
+                    </option>
+                  ))}
+                  {childAges.map(age => (
+                    <option key={age} value={age}>{age} years</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-2">Fee Type</label>
+                <select
+                  value={filters.feeType ?? ''}
+                  onChange={(e) => updateFilters({ feeType: (e.target.value || undefined) as FeeType | undefined })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">Any</option>
+                  {feeTypeOptions.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Class Mode</h3>
+              <div className="flex space-x-2 overflow-x-auto pb-1">
+                <button onClick={() => updateFilters({ mode: undefined })} className={chipClasses(!filters.mode)}>
+                  Any
+                </button>
+                {modeOptions.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => updateFilters({ mode: option.id })}
+                    className={chipClasses(filters.mode === option.id)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Price Range (₹)</h3>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Min"
+                  value={filters.minPrice ?? ''}
+                  onChange={(e) => updateFilters({ minPrice: parsePriceInput(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Max"
+                  value={filters.maxPrice ?? ''}
+                  onChange={(e) => updateFilters({ maxPrice: parsePriceInput(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Distance</h3>
+              <div className="flex space-x-2 overflow-x-auto pb-1">
+                <button onClick={() => updateFilters({ radiusKm: undefined })} className={chipClasses(filters.radiusKm === undefined)}>
+                  Any
+                </button>
+                {radiusOptions.map(radius => (
+                  <button
+                    key={radius}
+                    disabled={!origin}
+                    onClick={() => updateFilters({ radiusKm: radius })}
+                    className={chipClasses(filters.radiusKm === radius, !origin)}
+                  >
+                    Within {radius} km
+                  </button>
+                ))}
+              </div>
+              {!origin && (
+                <p className="text-xs text-gray-500 mt-2">Set your location to filter by distance.</p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Minimum Rating</h3>
+              <div className="flex space-x-2 overflow-x-auto pb-1">
+                <button onClick={() => updateFilters({ minRating: undefined })} className={chipClasses(filters.minRating === undefined)}>
+                  Any
+                </button>
+                {ratingOptions.map(rating => (
+                  <button
+                    key={rating}
+                    onClick={() => updateFilters({ minRating: rating })}
+                    className={`${chipClasses(filters.minRating === rating)} flex items-center space-x-1`}
+                  >
+                    <Star className="w-3 h-3" />
+                    <span>{rating}+</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center justify-between cursor-pointer">
+              <span className="flex items-center space-x-2 text-sm font-semibold text-gray-900">
+                <ShieldCheck className="w-4 h-4 text-green-600" />
+                <span>Verified providers only</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={filters.verifiedOnly}
+                onChange={(e) => updateFilters({ verifiedOnly: e.target.checked })}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+            </label>
+          </div>
+        )}
+
+        {/* Results Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {filters.q ? `Results for "${filters.q}"` : 'All providers'}
+          </h3>
+          <span className="text-sm text-gray-500">
+            {providers.length} found
+          </span>
+        </div>
+
+        {loading && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Searching providers...</p>
+          </div>
+        )}
+
+        {error && !loading && (
+          <div className="text-center py-12">
+            <div className="text-red-500 mb-4">
+              <span className="text-4xl">⚠️</span>
+              <h3 className="text-xl font-medium mt-2">Search Failed</h3>
+              <p className="text-red-400 mt-2">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {!loading && !error && providers.length > 0 && (
+          <div className="space-y-4">
+            {providers.map(provider => (
+              <ProviderCard
+                key={provider.id}
+                provider={provider}
+                isWishlisted={isWishlisted(provider.id)}
+                onToggleWishlist={() => handleToggleWishlist(provider.id)}
+                distanceLabel={getDistanceLabel(provider)}
+              />
+            ))}
+          </div>
+        )}
+
+        {!loading && !error && providers.length === 0 && (
+          <div className="text-center py-12">
+            <div className="text-gray-500 mb-4">
+              <SearchIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <h3 className="text-xl font-medium">No providers match</h3>
+              <p className="text-gray-400 mt-2">Try removing a few filters or searching for something else</p>
+            </div>
+            {(activeFilterCount > 0 || filters.q) && (
+              <Button
+                onClick={() => setSearchParams(new URLSearchParams(), { replace: true })}
+                variant="outline"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Reset Search
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
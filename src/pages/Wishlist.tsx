@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ArrowLeft, Heart } from 'lucide-react';
+import { mockProviders } from '../data/mockData';
+import { useAuth } from '../contexts/AuthContext';
+import { useWishlist } from '../hooks/useWishlist';
+import { useToast } from '../hooks/useToast';
+import { WishlistService } from '../services/wishlistService';
+import { Provider } from '../types';
+import { toProvider } from '../utils/providerAdapter';
+import Card from '../components/UI/Card';
+import Button from '../components/UI/Button';
+import ProviderCard from '../components/Provider/ProviderCard';
+
+interface SavedProvider {
+  providerId: string;
+  // null once the provider is no longer visible to parents
+  provider: Provider | null;
+  isListed: boolean;
+}
+
+function getAvailability(saved: SavedProvider): { label: string; open: boolean } {
+  if (!saved.provider || !saved.isListed) {
+    return { label: 'Not accepting enquiries right now', open: false };
+  }
+
+  const openClasses = saved.provider.classes.length;
+  if (openClasses === 0) {
+    return { label: 'No classes open right now', open: false };
+  }
+
+  return { label: `${openClasses} ${openClasses === 1 ? 'class' : 'classes'} open for enquiries`, open: true };
+}
+
+export default function Wishlist() {
+  const { user } = useAuth();
+  const { providerIds, isWishlisted, toggleWishlist, loading: wishlistLoading } = useWishlist();
+  const { showError } = useToast();
+  const [savedProviders, setSavedProviders] = useState<SavedProvider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDemoUser = Boolean(localStorage.getItem('demoUser'));
+
+  // Demo wishlists are resolved from the ids already held by useWishlist. Read through a ref so
+  // removing an entry does not reload the list; removed entries are hidden below instead
+  const providerIdsRef = useRef(providerIds);
+  providerIdsRef.current = providerIds;
+
+  const loadSavedProviders = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (isDemoUser) {
+        setSavedProviders(providerIdsRef.current.map(providerId => {
+          const provider = mockProviders.find(p => p.id === providerId) || null;
+          return { providerId, provider, isListed: Boolean(provider) };
+        }));
+        return;
+      }
+
+      if (!user?._id) return;
+
+      const entries = await WishlistService.getWishlist(user._id);
+      setSavedProviders(entries.map(entry => ({
+        providerId: entry.provider_id,
+        provider: entry.providers ? toProvider(entry.providers) : null,
+        isListed: Boolean(entry.providers?.is_published && entry.providers.status === 'approved')
+      })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load wishlist');
+    } finally {
+      setLoading(false);
+    }
+  }, [isDemoUser, user?._id]);
+
+  useEffect(() => {
+    if (user && !wishlistLoading) {
+      loadSavedProviders();
+    }
+  }, [user, wishlistLoading, loadSavedProviders]);
+
+  const handleRemove = async (providerId: string) => {
+    try {
+      await toggleWishlist(providerId);
+    } catch (err) {
+      showError('Wishlist Not Updated', err instanceof Error ? err.message : 'Please try again');
+    }
+  };
+
+  // Hide removed entries straight away; the hook rolls them back if the delete fails
+  const visibleProviders = savedProviders.filter(saved => isWishlisted(saved.providerId));
+  const isLoading = loading || wishlistLoading;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-16">
+      {/* Header */}
+      <div className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="flex items-center p-4">
+          <button onClick={() => window.history.back()} className="p-2 -ml-2 mr-2">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-semibold">My Wishlist</h1>
+        </div>
+      </div>
+
+      <div className="px-4 py-6">
+        {isLoading && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading your wishlist...</p>
+          </div>
+        )}
+
+        {!isLoading && error && (
+          <div className="text-center py-12">
+            <div className="text-red-500 mb-4">
+              <span className="text-4xl">⚠️</span>
+              <h3 className="text-xl font-medium mt-2">Error Loading Wishlist</h3>
+              <p className="text-red-400 mt-2">{error}</p>
+            </div>
+            <Button onClick={loadSavedProviders} variant="outline">
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {!isLoading && !error && visibleProviders.length > 0 && (
+          <div className="space-y-4">
+            {visibleProviders.map(saved => saved.provider ? (
+              <ProviderCard
+                key={saved.providerId}
+                provider={saved.provider}
+                distanceLabel={saved.provider.location.area}
+                availability={getAvailability(saved)}
+                isWishlisted
+                onToggleWishlist={() => handleRemove(saved.providerId)}
+              />
+            ) : (
+              <Card key={saved.providerId} className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="font-semibold text-gray-900">Provider unavailable</h4>
+                    <p className="text-sm text-gray-500 mt-1">
+                      This provider is no longer listed on BrightRoots.
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleRemove(saved.providerId)}>
+                    Remove
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {!isLoading && !error && visibleProviders.length === 0 && (
+          <div className="text-center py-12">
+            <div className="text-gray-500 mb-4">
+              <Heart className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <h3 className="text-xl font-medium">No saved providers yet</h3>
+              <p className="text-gray-400 mt-2">
+                Tap the heart on any provider to save it here
+              </p>
+            </div>
+            <Button to="/home" variant="outline">
+              Browse Providers
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+
+type Booking = Database['public']['Tables']['bookings']['Row'];
+type BookingInsert = Database['public']['Tables']['bookings']['Insert'];
+type ProviderRow = Database['public']['Tables']['providers']['Row'];
+type ProviderClassRow = Database['public']['Tables']['provider_classes']['Row'];
+type EnquiryRow = Database['public']['Tables']['enquiries']['Row'];
+type ReviewRow = Database['public']['Tables']['reviews']['Row'];
+
+export type BookingStatus = Booking['status'];
+
+// Booking as seen by the parent, with the provider and class it is for and the parent's review of it
+export type ParentBooking = Booking & {
+  providers: Pick<ProviderRow, 'business_name' | 'phone'> | null;
+  provider_classes: Pick<ProviderClassRow, 'name' | 'schedule'> | null;
+  reviews: Pick<ReviewRow, 'id'>[] | null;
+};
+
+// Booking as seen by the provider, with the class and the enquiry it came from
+export type ProviderBooking = Booking & {
+  provider_classes: Pick<ProviderClassRow, 'name' | 'schedule'> | null;
+  enquiries: Pick<EnquiryRow, 'parent_name' | 'parent_phone'> | null;
+};
+
+// Status changes are checked by the enforce_booking_transitions trigger; the
+// client only offers the moves that trigger allows.
+export const bookingTransitions: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  cancelled: [],
+  completed: []
+};
+
+export const bookingStatusLabels: Record<BookingStatus, string> = {
+  pending: 'Awaiting confirmation',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+export class BookingService {
+  static async createBooking(data: BookingInsert): Promise<Booking> {
+    const { data: booking, error } = await supabase
+      .from('bookings')
+      .insert(data)
+      .select()
+      .single();
+
+    // Raised by idx_bookings_active_child for a second open booking
+    if (error?.code === '23505') {
+      throw new Error(`${data.child_name} already has an open booking for this class.`);
+    }
+    if (error) throw error;
+    return booking;
+  }
+
+  // Books the class an enquiry was about, for the child it was sent for
+  static async createFromEnquiry(enquiryId: string, notes?: string): Promise<Booking> {
+    const { data: enquiry, error } = await supabase
+      .from('enquiries')
+      .select('id, provider_id, parent_id, interested_class_id, child_name, child_age')
+      .eq('id', enquiryId)
+      .single();
+
+    if (error) throw error;
+    if (!enquiry.interested_class_id) {
+      throw new Error('This enquiry is not about a specific class, so it cannot be booked.');
+    }
+
+    return BookingService.createBooking({
+      provider_id: enquiry.provider_id,
+      parent_id: enquiry.parent_id,
+      class_id: enquiry.interested_class_id,
+      enquiry_id: enquiry.id,
+      child_name: enquiry.child_name,
+      child_age: enquiry.child_age,
+      notes: notes || null
+    });
+  }
+
+  static async getParentBookings(parentId: string): Promise<ParentBooking[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        *,
+        providers(business_name, phone),
+        provider_classes(name, schedule),
+        reviews(id)
+      `)
+      .eq('parent_id', parentId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async getProviderBookings(providerId: string): Promise<ProviderBooking[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        *,
+        provider_classes(name, schedule),
+        enquiries(parent_name, parent_phone)
+      `)
+      .eq('provider_id', providerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async updateStatus(bookingId: string, status: BookingStatus): Promise<Booking> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .update({ status })
+      .eq('id', bookingId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
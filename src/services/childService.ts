@@ -0,0 +1,52 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+
+type ChildRow = Database['public']['Tables']['children']['Row'];
+type ChildInsert = Database['public']['Tables']['children']['Insert'];
+type ChildUpdate = Database['public']['Tables']['children']['Update'];
+
+export class ChildService {
+  // Youngest last, so siblings are listed oldest first
+  static async getChildren(parentId: string): Promise<ChildRow[]> {
+    const { data, error } = await supabase
+      .from('children')
+      .select('*')
+      .eq('parent_id', parentId)
+      .order('date_of_birth', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async createChild(data: ChildInsert): Promise<ChildRow> {
+    const { data: child, error } = await supabase
+      .from('children')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return child;
+  }
+
+  static async updateChild(childId: string, data: ChildUpdate): Promise<ChildRow> {
+    const { data: child, error } = await supabase
+      .from('children')
+      .update(data)
+      .eq('id', childId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return child;
+  }
+
+  static async deleteChild(childId: string): Promise<void> {
+    const { error } = await supabase
+      .from('children')
+      .delete()
+      .eq('id', childId);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,134 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+
+type Enquiry = Database['public']['Tables']['enquiries']['Row'];
+type EnquiryInsert = Database['public']['Tables']['enquiries']['Insert'];
+type ProviderRow = Database['public']['Tables']['providers']['Row'];
+type ProviderClassRow = Database['public']['Tables']['provider_classes']['Row'];
+type EnquiryMessage = Database['public']['Tables']['enquiry_messages']['Row'];
+
+export type EnquiryParticipant = EnquiryMessage['sender_role'];
+
+// Enquiry as seen by the parent, with the provider and class it was sent about
+export type ParentEnquiry = Enquiry & {
+  providers: Pick<ProviderRow, 'business_name' | 'phone'> | null;
+  provider_classes: Pick<ProviderClassRow, 'name'> | null;
+};
+
+// Parent-side enquiry operations plus the message threads both sides share.
+// Provider-side listing and stats live in ProviderService.
+export class EnquiryService {
+  static async createEnquiry(data: EnquiryInsert): Promise<Enquiry> {
+    const { data: enquiry, error } = await supabase
+      .from('enquiries')
+      .insert(data)
+      .select()
+      .single();
+
+    // Raised by the validate_enquiries trigger for repeats within its window
+    if (error?.code === '23505') {
+      throw new Error('You already sent this enquiry a few minutes ago. The provider will get back to you soon.');
+    }
+    if (error) throw error;
+    return enquiry;
+  }
+
+  static async getParentEnquiries(parentId: string): Promise<ParentEnquiry[]> {
+    const { data, error } = await supabase
+      .from('enquiries')
+      .select(`
+        *,
+        providers(business_name, phone),
+        provider_classes(name)
+      `)
+      .eq('parent_id', parentId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async closeEnquiry(enquiryId: string): Promise<void> {
+    const { error } = await supabase
+      .from('enquiries')
+      .update({ status: 'closed' })
+      .eq('id', enquiryId);
+
+    if (error) throw error;
+  }
+
+  // Only possible before the provider responds; RLS rejects anything else
+  static async withdrawEnquiry(enquiryId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('enquiries')
+      .delete()
+      .eq('id', enquiryId)
+      .eq('status', 'sent')
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error('This enquiry has already been answered and can no longer be withdrawn.');
+    }
+  }
+
+  // Threads
+  static async getMessages(enquiryId: string): Promise<EnquiryMessage[]> {
+    const { data, error } = await supabase
+      .from('enquiry_messages')
+      .select('*')
+      .eq('enquiry_id', enquiryId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async sendMessage(
+    enquiryId: string,
+    senderId: string,
+    senderRole: EnquiryParticipant,
+    body: string
+  ): Promise<EnquiryMessage> {
+    const { data, error } = await supabase
+      .from('enquiry_messages')
+      .insert({
+        enquiry_id: enquiryId,
+        sender_id: senderId,
+        sender_role: senderRole,
+        body
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Marks the other side's messages as read; returns how many were newly read
+  static async markThreadRead(enquiryId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('mark_enquiry_messages_read', {
+      target_enquiry_id: enquiryId
+    });
+
+    if (error) throw error;
+    return data || 0;
+  }
+
+  // Unread messages from the other side, keyed by enquiry id.
+  // `ownerId` is the parent's user id or the provider's id depending on `reader`.
+  static async getUnreadCounts(reader: EnquiryParticipant, ownerId: string): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('enquiry_messages')
+      .select('enquiry_id, enquiries!inner(parent_id, provider_id)')
+      .is('read_at', null)
+      .eq('sender_role', reader === 'parent' ? 'provider' : 'parent')
+      .eq(reader === 'parent' ? 'enquiries.parent_id' : 'enquiries.provider_id', ownerId);
+
+    if (error) throw error;
+    return (data || []).reduce((counts: Record<string, number>, message: Pick<EnquiryMessage, 'enquiry_id'>) => {
+      counts[message.enquiry_id] = (counts[message.enquiry_id] || 0) + 1;
+      return counts;
+    }, {});
+  }
+}
@@ -0,0 +1,28 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+
+type Notification = Database['public']['Tables']['notifications']['Row'];
+
+export class NotificationService {
+  static async getNotifications(userId: string, limit = 20): Promise<Notification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async markAllRead(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+
+    if (error) throw error;
+  }
+}
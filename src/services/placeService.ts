@@ -0,0 +1,55 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+
+type SavedPlaceRow = Database['public']['Tables']['saved_places']['Row'];
+type SavedPlaceInsert = Database['public']['Tables']['saved_places']['Insert'];
+type SavedPlaceUpdate = Database['public']['Tables']['saved_places']['Update'];
+
+export class PlaceService {
+  static async getSavedPlaces(userId: string): Promise<SavedPlaceRow[]> {
+    const { data, error } = await supabase
+      .from('saved_places')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async createPlace(data: SavedPlaceInsert): Promise<SavedPlaceRow> {
+    const { data: place, error } = await supabase
+      .from('saved_places')
+      .insert(data)
+      .select()
+      .single();
+
+    // Raised by idx_saved_places_user_label for a label the parent already uses
+    if (error?.code === '23505') {
+      throw new Error(`You already have a place called ${data.label}.`);
+    }
+    if (error) throw error;
+    return place;
+  }
+
+  static async updatePlace(placeId: string, data: SavedPlaceUpdate): Promise<SavedPlaceRow> {
+    const { data: place, error } = await supabase
+      .from('saved_places')
+      .update(data)
+      .eq('id', placeId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return place;
+  }
+
+  static async deletePlace(placeId: string): Promise<void> {
+    const { error } = await supabase
+      .from('saved_places')
+      .delete()
+      .eq('id', placeId);
+
+    if (error) throw error;
+  }
+}
@@ -1,5 +1,9 @@
-import { supabase, supabaseAdmin } from '../lib/supabase';
+import { supabase } from '../lib/supabase';
 import { Database } from '../types/database';
+import { ProviderDetailsRow, ProviderWithRelations } from '../utils/providerAdapter';
+import { Coordinates } from '../utils/geo';
+import { ScheduleFilter } from '../utils/schedule';
+import { EnquiryService } from './enquiryService';
 
 type Provider = Database['public']['Tables']['providers']['Row'];
 type ProviderInsert = Database['public']['Tables']['providers']['Insert'];
@@ -10,6 +14,48 @@ type ProviderService = Database['public']['Tables']['provider_services']['Row'];
 type ProviderDocument = Database['public']['Tables']['provider_documents']['Row'];
 type ProviderMedia = Database['public']['Tables']['provider_media']['Row'];
 type Enquiry = Database['public']['Tables']['enquiries']['Row'];
+type SearchProvidersResult = Database['public']['Functions']['search_providers']['Returns'];
+type ProvidersWithinRadiusResult = Database['public']['Functions']['providers_within_radius']['Returns'];
+export type ClassScheduleMatch = Database['public']['Functions']['classes_matching_schedule']['Returns'][number];
+
+// Enquiry as listed in the provider inbox, with the class it is about
+export type ProviderEnquiry = Enquiry & {
+  provider_classes: Pick<ProviderClass, 'name'> | null;
+};
+
+export type NearbyProvider = ProviderWithRelations & { distance_km: number };
+
+const providerClassColumns = 'id, name, description, price, mode, fee_type, age_group, min_age, max_age, duration, schedule, batch_size, is_active';
+
+// Columns embedded in provider listings. !inner joins turn filters on the embedded
+// services/classes into filters on the providers themselves.
+export const providerListSelect = (options: { innerServices?: boolean; innerClasses?: boolean } = {}) => `
+  *,
+  provider_services${options.innerServices ? '!inner' : ''}(category),
+  provider_classes${options.innerClasses ? '!inner' : ''}(${providerClassColumns}),
+  provider_media(file_path, media_type)
+`;
+
+// Embedded-class filter for classes suitable for any of the ages; classes without a known
+// range (min_age NULL) always match
+const ageRangeFilter = (ages: number[]) => [
+  'min_age.is.null',
+  ...ages.map(age => `and(min_age.lte.${age},or(max_age.is.null,max_age.gte.${age}))`)
+].join(',');
+
+export interface ProviderSearchFilters {
+  city?: string;
+  area?: string;
+  // Providers listed under any of these, usually a category and its subcategories (getCategoryBranch)
+  categories?: string[];
+  search?: string;
+  mode?: 'online' | 'offline' | 'hybrid';
+  feeType?: 'per_session' | 'monthly';
+  minPrice?: number;
+  maxPrice?: number;
+  verifiedOnly?: boolean;
+  childAges?: number[];
+}
 
 export class ProviderService {
   // Provider CRUD operations
@@ -47,6 +93,26 @@ export class ProviderService {
     return data;
   }
 
+  // Public profile for the parent-facing details page, with active classes and newest reviews first
+  static async getProviderDetails(id: string): Promise<ProviderDetailsRow | null> {
+    const { data, error } = await supabase
+      .from('providers')
+      .select(`
+        *,
+        provider_services(category),
+        provider_classes(${providerClassColumns}),
+        provider_media(id, file_path, media_type),
+        reviews(*)
+      `)
+      .eq('id', id)
+      .eq('provider_classes.is_active', true)
+      .order('created_at', { referencedTable: 'reviews', ascending: false })
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
   static async getProviderByUserId(userId: string): Promise<Provider | null> {
     const { data, error } = await supabase
       .from('providers')
@@ -79,7 +145,7 @@ export class ProviderService {
 
   // Publish/Unpublish providers
   static async publishProvider(id: string): Promise<Provider> {
-    const { data: provider, error } = await supabaseAdmin
+    const { data: provider, error } = await supabase
       .from('providers')
       .update({ is_published: true, status: 'approved' })
       .eq('id', id)
@@ -91,7 +157,7 @@ export class ProviderService {
   }
 
   static async unpublishProvider(id: string): Promise<Provider> {
-    const { data: provider, error } = await supabaseAdmin
+    const { data: provider, error } = await supabase
       .from('providers')
       .update({ is_published: false })
       .eq('id', id)
@@ -106,19 +172,25 @@ export class ProviderService {
   static async getPublishedProviders(filters?: {
     city?: string;
     area?: string;
-    category?: string;
+    // Providers listed under any of these, usually a category and its subcategories
+    categories?: string[];
     search?: string;
-  }): Promise<any[]> {
+    // Restrict to these providers, e.g. the ones with classes matching a schedule filter
+    providerIds?: string[];
+    // Only providers with a class suitable for one of these ages
+    childAges?: number[];
+  }): Promise<ProviderWithRelations[]> {
+    const rankedIds = filters?.search ? await ProviderService.rankProviderIds(filters.search) : null;
+    if (rankedIds && rankedIds.length === 0) return [];
+
+    const childAges = filters?.childAges?.length ? filters.childAges : null;
+
     let query = supabase
       .from('providers')
-      .select(`
-        *,
-        provider_services(category),
-        provider_classes(id, name, price, mode, age_group, duration),
-        provider_media(file_path, media_type)
-      `)
+      .select(providerListSelect({ innerServices: Boolean(filters?.categories?.length), innerClasses: Boolean(childAges) }))
       .eq('is_published', true)
-      .eq('status', 'approved');
+      .eq('status', 'approved')
+      .eq('provider_classes.is_active', true);
 
     if (filters?.city) {
       query = query.eq('city', filters.city);
@@ -128,28 +200,110 @@ export class ProviderService {
       query = query.eq('area', filters.area);
     }
 
-    if (filters?.search) {
-      query = query.or(`business_name.ilike.%${filters.search}%,description.ilike.%${filters.search}%`);
+    if (filters?.categories?.length) {
+      query = query.in('provider_services.category', filters.categories);
+    }
+
+    if (rankedIds) {
+      query = query.in('id', rankedIds);
+    }
+
+    if (filters?.providerIds) {
+      query = query.in('id', filters.providerIds);
+    }
+
+    if (childAges) {
+      query = query.or(ageRangeFilter(childAges), { referencedTable: 'provider_classes' });
     }
 
     const { data, error } = await query.order('created_at', { ascending: false });
 
-    if (error) {
-      console.error('Error fetching published providers:', error);
-      return [];
+    if (error) throw error;
+    return rankedIds ? ProviderService.orderByRank(data || [], rankedIds) : data || [];
+  }
+
+  // Published providers within radiusKm of origin (every provider with coordinates when radiusKm is null),
+  // nearest first. Distances are computed in the database by providers_within_radius.
+  static async getProvidersNearby(
+    origin: Coordinates,
+    radiusKm: number | null,
+    filters?: { categories?: string[]; providerIds?: string[]; childAges?: number[] }
+  ): Promise<NearbyProvider[]> {
+    const { data: nearby, error: nearbyError } = await supabase.rpc('providers_within_radius', {
+      origin_lat: origin.lat,
+      origin_lng: origin.lng,
+      radius_km: radiusKm
+    });
+
+    if (nearbyError) throw nearbyError;
+
+    const allowedIds = filters?.providerIds ? new Set(filters.providerIds) : null;
+    const distances = new Map(
+      ((nearby || []) as ProvidersWithinRadiusResult)
+        .filter(result => !allowedIds || allowedIds.has(result.provider_id))
+        .map(result => [result.provider_id, result.distance_km])
+    );
+    if (distances.size === 0) return [];
+
+    const childAges = filters?.childAges?.length ? filters.childAges : null;
+
+    let query = supabase
+      .from('providers')
+      .select(providerListSelect({ innerServices: Boolean(filters?.categories?.length), innerClasses: Boolean(childAges) }))
+      .in('id', [...distances.keys()])
+      .eq('provider_classes.is_active', true);
+
+    if (filters?.categories?.length) {
+      query = query.in('provider_services.category', filters.categories);
     }
 
-    return data || [];
+    if (childAges) {
+      query = query.or(ageRangeFilter(childAges), { referencedTable: 'provider_classes' });
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return ((data || []) as ProviderWithRelations[])
+      .map(provider => ({ ...provider, distance_km: distances.get(provider.id) ?? Infinity }))
+      .sort((a, b) => a.distance_km - b.distance_km);
+  }
+
+  // Ranked full-text search (with trigram fallback) over published providers
+  static async rankProviderIds(search: string): Promise<string[]> {
+    const { data, error } = await supabase.rpc('search_providers', {
+      search_query: search,
+      result_limit: 100
+    });
+
+    if (error) throw error;
+    return ((data || []) as SearchProvidersResult).map(result => result.provider_id);
+  }
+
+  // Active classes with weekly slots on the given days/time bands, matched in the database
+  static async matchClassSchedules(filter: ScheduleFilter): Promise<ClassScheduleMatch[]> {
+    const { data, error } = await supabase.rpc('classes_matching_schedule', {
+      weekdays: filter.weekdays,
+      time_bands: filter.timeBands
+    });
+
+    if (error) throw error;
+    return (data || []) as ClassScheduleMatch[];
+  }
+
+  static orderByRank<T extends { id: string }>(rows: T[], rankedIds: string[]): T[] {
+    const position = new Map(rankedIds.map((id, index) => [id, index]));
+    return [...rows].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
   }
 
   // Provider Services
   static async addProviderServices(providerId: string, categories: string[]): Promise<void> {
     const services = categories.map(category => ({
       provider_id: providerId,
-      category: category as any
+      category
     }));
 
-    const { error } = await supabaseAdmin
+    const { error } = await supabase
       .from('provider_services')
       .insert(services);
 
@@ -168,7 +322,7 @@ export class ProviderService {
 
   // Provider Classes
   static async createClass(data: ProviderClassInsert): Promise<ProviderClass> {
-    const { data: providerClass, error } = await supabaseAdmin
+    const { data: providerClass, error } = await supabase
       .from('provider_classes')
       .insert(data)
       .select()
@@ -307,10 +461,10 @@ export class ProviderService {
   }
 
   // Enquiry Management
-  static async getProviderEnquiries(providerId: string): Promise<Enquiry[]> {
+  static async getProviderEnquiries(providerId: string): Promise<ProviderEnquiry[]> {
     const { data, error } = await supabase
       .from('enquiries')
-      .select('*')
+      .select('*, provider_classes(name)')
       .eq('provider_id', providerId)
       .order('created_at', { ascending: false });
 
@@ -318,17 +472,29 @@ export class ProviderService {
     return data || [];
   }
 
+  // Replies go into the enquiry thread; the sync_enquiry_after_message trigger
+  // marks the enquiry responded
   static async respondToEnquiry(
     enquiryId: string,
+    senderId: string,
     response: string
   ): Promise<Enquiry> {
+    await EnquiryService.sendMessage(enquiryId, senderId, 'provider', response);
+
     const { data, error } = await supabase
       .from('enquiries')
-      .update({
-        response,
-        response_at: new Date().toISOString(),
-        status: 'responded'
-      })
+      .select('*')
+      .eq('id', enquiryId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async closeEnquiry(enquiryId: string): Promise<Enquiry> {
+    const { data, error } = await supabase
+      .from('enquiries')
+      .update({ status: 'closed' })
       .eq('id', enquiryId)
       .select()
       .single();
@@ -369,21 +535,21 @@ export class ProviderService {
   }
 
   // Search and Filter
-  static async searchProviders(filters: {
-    city?: string;
-    area?: string;
-    category?: string;
-    search?: string;
-  }) {
+  static async searchProviders(filters: ProviderSearchFilters): Promise<ProviderWithRelations[]> {
+    const rankedIds = filters.search ? await ProviderService.rankProviderIds(filters.search) : null;
+    if (rankedIds && rankedIds.length === 0) return [];
+
+    const hasClassFilter = Boolean(
+      filters.mode || filters.feeType || filters.minPrice !== undefined || filters.maxPrice !== undefined ||
+      filters.childAges?.length
+    );
+
     let query = supabase
       .from('providers')
-      .select(`
-        *,
-        provider_services(category),
-        provider_classes(id, name, price, mode),
-        provider_media(file_path, media_type)
-      `)
-      .eq('status', 'approved');
+      .select(providerListSelect({ innerServices: Boolean(filters.categories?.length), innerClasses: hasClassFilter }))
+      .eq('is_published', true)
+      .eq('status', 'approved')
+      .eq('provider_classes.is_active', true);
 
     if (filters.city) {
       query = query.eq('city', filters.city);
@@ -393,13 +559,42 @@ export class ProviderService {
       query = query.eq('area', filters.area);
     }
 
-    if (filters.search) {
-      query = query.or(`business_name.ilike.%${filters.search}%,description.ilike.%${filters.search}%`);
+    if (filters.categories?.length) {
+      query = query.in('provider_services.category', filters.categories);
+    }
+
+    if (filters.verifiedOnly) {
+      query = query.eq('is_verified', true);
+    }
+
+    if (filters.mode) {
+      // Hybrid classes are offered both online and offline
+      query = query.in('provider_classes.mode', [filters.mode, 'hybrid']);
+    }
+
+    if (filters.feeType) {
+      query = query.eq('provider_classes.fee_type', filters.feeType);
+    }
+
+    if (filters.minPrice !== undefined) {
+      query = query.gte('provider_classes.price', filters.minPrice);
+    }
+
+    if (filters.maxPrice !== undefined) {
+      query = query.lte('provider_classes.price', filters.maxPrice);
+    }
+
+    if (filters.childAges?.length) {
+      query = query.or(ageRangeFilter(filters.childAges), { referencedTable: 'provider_classes' });
+    }
+
+    if (rankedIds) {
+      query = query.in('id', rankedIds);
     }
 
     const { data, error } = await query;
 
     if (error) throw error;
-    return data || [];
+    return rankedIds ? ProviderService.orderByRank(data || [], rankedIds) : data || [];
   }
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+import { ModerationDecision, ReportReason, ReportTargetType } from '../types';
+
+type ReportRow = Database['public']['Tables']['reports']['Row'];
+type ModerationActionRow = Database['public']['Tables']['moderation_actions']['Row'];
+type ReviewRow = Database['public']['Tables']['reviews']['Row'];
+type ProviderRow = Database['public']['Tables']['providers']['Row'];
+type ProviderMediaRow = Database['public']['Tables']['provider_media']['Row'];
+
+export const reportReasonLabels: Record<ReportReason, string> = {
+  fake: 'Fake or misleading',
+  inappropriate: 'Inappropriate content',
+  unsafe: 'Safety concern',
+  spam: 'Spam or advertising',
+  other: 'Something else'
+};
+
+export const reportTargetLabels: Record<ReportTargetType, string> = {
+  review: 'Review',
+  media: 'Photo',
+  provider: 'Provider'
+};
+
+export interface NewReport {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+  reporterId: string;
+}
+
+// Rows a report can point at, as shown in the moderation queue
+export type ReportedReview = Pick<ReviewRow, 'id' | 'parent_name' | 'child_name' | 'rating' | 'comment' | 'is_hidden'> & {
+  providers: Pick<ProviderRow, 'business_name'> | null;
+};
+export type ReportedMedia = Pick<ProviderMediaRow, 'id' | 'file_path' | 'media_type' | 'caption' | 'is_hidden'> & {
+  providers: Pick<ProviderRow, 'business_name'> | null;
+};
+export type ReportedProvider = Pick<ProviderRow, 'id' | 'business_name' | 'city' | 'area' | 'is_hidden'>;
+
+export interface ReportTargets {
+  reviews: ReportedReview[];
+  media: ReportedMedia[];
+  providers: ReportedProvider[];
+}
+
+export class ReportService {
+  static async createReport(report: NewReport): Promise<ReportRow> {
+    const { data, error } = await supabase
+      .from('reports')
+      .insert({
+        target_type: report.targetType,
+        target_id: report.targetId,
+        reason: report.reason,
+        details: report.details?.trim() || null,
+        reporter_id: report.reporterId
+      })
+      .select()
+      .single();
+
+    // Raised by idx_reports_open_reporter while the reporter's earlier report is still open
+    if (error?.code === '23505') {
+      throw new Error('You have already reported this. Our team will look at it soon.');
+    }
+    if (error) throw error;
+    return data;
+  }
+
+  // Moderation queue: open reports, oldest first
+  static async getOpenReports(): Promise<ReportRow[]> {
+    const { data, error } = await supabase
+      .from('reports')
+      .select('*')
+      .eq('status', 'open')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // The reviews, photos and providers the given reports are about, whether hidden or not
+  static async getReportTargets(reports: Pick<ReportRow, 'target_type' | 'target_id'>[]): Promise<ReportTargets> {
+    const idsOf = (type: ReportTargetType) => [
+      ...new Set(reports.filter(report => report.target_type === type).map(report => report.target_id))
+    ];
+
+    const [reviews, media, providers] = await Promise.all([
+      supabase
+        .from('reviews')
+        .select('id, parent_name, child_name, rating, comment, is_hidden, providers(business_name)')
+        .in('id', idsOf('review')),
+      supabase
+        .from('provider_media')
+        .select('id, file_path, media_type, caption, is_hidden, providers(business_name)')
+        .in('id', idsOf('media')),
+      supabase
+        .from('providers')
+        .select('id, business_name, city, area, is_hidden')
+        .in('id', idsOf('provider'))
+    ]);
+
+    if (reviews.error) throw reviews.error;
+    if (media.error) throw media.error;
+    if (providers.error) throw providers.error;
+
+    return {
+      reviews: reviews.data || [],
+      media: media.data || [],
+      providers: providers.data || []
+    };
+  }
+
+  // Items currently hidden by moderation, so they can be restored
+  static async getHiddenTargets(): Promise<ReportTargets> {
+    const [reviews, media, providers] = await Promise.all([
+      supabase
+        .from('reviews')
+        .select('id, parent_name, child_name, rating, comment, is_hidden, providers(business_name)')
+        .eq('is_hidden', true),
+      supabase
+        .from('provider_media')
+        .select('id, file_path, media_type, caption, is_hidden, providers(business_name)')
+        .eq('is_hidden', true),
+      supabase
+        .from('providers')
+        .select('id, business_name, city, area, is_hidden')
+        .eq('is_hidden', true)
+    ]);
+
+    if (reviews.error) throw reviews.error;
+    if (media.error) throw media.error;
+    if (providers.error) throw providers.error;
+
+    return {
+      reviews: reviews.data || [],
+      media: media.data || [],
+      providers: providers.data || []
+    };
+  }
+
+  static async getRecentDecisions(limit = 20): Promise<ModerationActionRow[]> {
+    const { data, error } = await supabase
+      .from('moderation_actions')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Hides, restores or dismisses the item, closes its open reports and records the decision
+  static async moderate(
+    targetType: ReportTargetType,
+    targetId: string,
+    decision: ModerationDecision,
+    note?: string
+  ): Promise<ModerationActionRow> {
+    const { data, error } = await supabase.rpc('moderate_reported_item', {
+      item_type: targetType,
+      item_id: targetId,
+      decision,
+      decision_note: note || null
+    });
+
+    if (error) throw error;
+    return data;
+  }
+}
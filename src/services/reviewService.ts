@@ -0,0 +1,130 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+import { RatingAspect } from '../types';
+
+type ReviewRow = Database['public']['Tables']['reviews']['Row'];
+type ReviewVoteRow = Database['public']['Tables']['review_votes']['Row'];
+type Booking = Database['public']['Tables']['bookings']['Row'];
+type ProviderClassRow = Database['public']['Tables']['provider_classes']['Row'];
+
+// A completed booking the parent can still review
+export type ReviewableBooking = Pick<Booking, 'id' | 'child_name' | 'updated_at'> & {
+  provider_classes: Pick<ProviderClassRow, 'name'> | null;
+};
+
+export interface NewReview {
+  providerId: string;
+  parentId: string;
+  parentName: string;
+  bookingId: string;
+  rating: number;
+  aspectRatings?: Partial<Record<RatingAspect, number>>;
+  comment?: string;
+}
+
+export class ReviewService {
+  // Completed bookings with the provider that don't have a review yet
+  static async getReviewableBookings(parentId: string, providerId: string): Promise<ReviewableBooking[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('id, child_name, updated_at, provider_classes(name), reviews(id)')
+      .eq('parent_id', parentId)
+      .eq('provider_id', providerId)
+      .eq('status', 'completed')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).filter(
+      (booking: ReviewableBooking & { reviews: Pick<ReviewRow, 'id'>[] | null }) => !booking.reviews?.length
+    );
+  }
+
+  // The validate_reviews trigger checks the booking and fills in the child's name from it
+  static async createReview(review: NewReview): Promise<ReviewRow> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .insert({
+        provider_id: review.providerId,
+        parent_id: review.parentId,
+        parent_name: review.parentName,
+        booking_id: review.bookingId,
+        child_name: '',
+        rating: review.rating,
+        teaching_rating: review.aspectRatings?.teaching ?? null,
+        communication_rating: review.aspectRatings?.communication ?? null,
+        facilities_rating: review.aspectRatings?.facilities ?? null,
+        value_rating: review.aspectRatings?.value ?? null,
+        comment: review.comment?.trim() || null
+      })
+      .select()
+      .single();
+
+    // Raised by idx_reviews_booking_id for a booking that was already reviewed
+    if (error?.code === '23505') {
+      throw new Error('You have already reviewed this booking.');
+    }
+    if (error) throw error;
+    return data;
+  }
+
+  static async getProviderReviews(providerId: string): Promise<ReviewRow[]> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*')
+      .eq('provider_id', providerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // The validate_reviews trigger only lets the provider set the reply, and stamps replied_at
+  static async replyToReview(reviewId: string, reply: string): Promise<ReviewRow> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .update({ reply: reply.trim() })
+      .eq('id', reviewId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Which of the given reviews the parent has marked helpful
+  static async getVotedReviewIds(parentId: string, reviewIds: string[]): Promise<string[]> {
+    if (reviewIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('review_votes')
+      .select('review_id')
+      .eq('parent_id', parentId)
+      .in('review_id', reviewIds);
+
+    if (error) throw error;
+    return (data || []).map((vote: Pick<ReviewVoteRow, 'review_id'>) => vote.review_id);
+  }
+
+  // helpful_count is kept current by the refresh_helpful_count_on_votes trigger
+  static async addHelpfulVote(reviewId: string, parentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('review_votes')
+      .insert({ review_id: reviewId, parent_id: parentId });
+
+    // Raised by the unique (review_id, parent_id) constraint for a second vote
+    if (error?.code === '23505') {
+      throw new Error('You have already marked this review as helpful.');
+    }
+    if (error) throw error;
+  }
+
+  static async removeHelpfulVote(reviewId: string, parentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('review_votes')
+      .delete()
+      .eq('review_id', reviewId)
+      .eq('parent_id', parentId);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+
+type CategoryRow = Database['public']['Tables']['categories']['Row'];
+type CityRow = Database['public']['Tables']['cities']['Row'];
+type CityInsert = Database['public']['Tables']['cities']['Insert'];
+type AreaRow = Database['public']['Tables']['areas']['Row'];
+type AreaInsert = Database['public']['Tables']['areas']['Insert'];
+
+export type AreaWithCity = AreaRow & { cities: Pick<CityRow, 'name'> };
+
+export class TaxonomyService {
+  static async getCategories(): Promise<CategoryRow[]> {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async getCities(): Promise<CityRow[]> {
+    const { data, error } = await supabase
+      .from('cities')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async getAreas(): Promise<AreaWithCity[]> {
+    const { data, error } = await supabase
+      .from('areas')
+      .select('*, cities(name)')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Admin operations
+  static async addCity(data: CityInsert): Promise<CityRow> {
+    const { data: city, error } = await supabase
+      .from('cities')
+      .insert(data)
+      .select()
+      .single();
+
+    // Raised by idx_cities_name
+    if (error?.code === '23505') {
+      throw new Error(`${data.name} is already listed.`);
+    }
+    if (error) throw error;
+    return city;
+  }
+
+  static async addArea(data: AreaInsert): Promise<AreaRow> {
+    const { data: area, error } = await supabase
+      .from('areas')
+      .insert(data)
+      .select()
+      .single();
+
+    // Raised by idx_areas_city_name
+    if (error?.code === '23505') {
+      throw new Error(`${data.name} is already listed in this city.`);
+    }
+    if (error) throw error;
+    return area;
+  }
+}
@@ -0,0 +1,58 @@
+import { supabase } from '../lib/supabase';
+import { UserLocation } from '../types';
+import { Database } from '../types/database';
+
+type UserRow = Database['public']['Tables']['users']['Row'];
+
+export type ProfileDetails = Pick<UserRow, 'name' | 'email' | 'phone'>;
+
+export class UserService {
+  // The display name also lives in auth metadata, which is where the session reads it from.
+  // Changing the email makes Supabase send a confirmation link to the new address; auth keeps the
+  // old address until the link is clicked, and users.email follows auth (see syncEmail).
+  static async updateProfile(userId: string, details: ProfileDetails, currentEmail: string): Promise<UserRow> {
+    const { data: authData, error: authError } = await supabase.auth.updateUser({
+      data: { name: details.name },
+      ...(details.email !== currentEmail ? { email: details.email } : {})
+    });
+
+    if (authError) throw authError;
+
+    const { data, error } = await supabase
+      .from('users')
+      .update({ ...details, email: authData.user.email || currentEmail })
+      .eq('id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Called when a session starts, to pick up an email change confirmed since the last one
+  static async syncEmail(userId: string, email: string): Promise<void> {
+    const { error } = await supabase
+      .from('users')
+      .update({ email })
+      .eq('id', userId);
+
+    if (error) throw error;
+  }
+
+  static async updateLocation(userId: string, location: UserLocation | null): Promise<void> {
+    const { error } = await supabase
+      .from('users')
+      .update({ location })
+      .eq('id', userId);
+
+    if (error) throw error;
+  }
+
+  // Checked against users.role by the database, not against anything the session claims
+  static async isAdmin(): Promise<boolean> {
+    const { data, error } = await supabase.rpc('is_admin');
+
+    if (error) throw error;
+    return Boolean(data);
+  }
+}
@@ -0,0 +1,86 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+import { BookingService } from './bookingService';
+
+type WaitlistEntry = Database['public']['Tables']['class_waitlist']['Row'];
+type Booking = Database['public']['Tables']['bookings']['Row'];
+type ProviderRow = Database['public']['Tables']['providers']['Row'];
+type ProviderClassRow = Database['public']['Tables']['provider_classes']['Row'];
+
+export type ClassAvailability = Database['public']['Functions']['get_class_availability']['Returns'][number];
+
+// Waitlist entry as seen by the parent, with the class and provider it is for
+export type ParentWaitlistEntry = WaitlistEntry & {
+  providers: Pick<ProviderRow, 'business_name'> | null;
+  provider_classes: Pick<ProviderClassRow, 'name'> | null;
+};
+
+// Seat counting, queueing and hold expiry all happen in the database (see the
+// patient_queue migration); this only reads and requests changes.
+export class WaitlistService {
+  // Seats left and queue length per class id
+  static async getClassAvailability(classIds: string[]): Promise<Record<string, ClassAvailability>> {
+    if (classIds.length === 0) return {};
+
+    const { data, error } = await supabase.rpc('get_class_availability', { class_ids: classIds });
+
+    if (error) throw error;
+    return (data || []).reduce((availability: Record<string, ClassAvailability>, row: ClassAvailability) => {
+      availability[row.class_id] = row;
+      return availability;
+    }, {});
+  }
+
+  static async joinWaitlist(classId: string, childName: string, childAge: number): Promise<WaitlistEntry> {
+    const { data, error } = await supabase.rpc('join_waitlist', {
+      target_class_id: classId,
+      waiting_child_name: childName,
+      waiting_child_age: childAge
+    });
+
+    // Raised by idx_class_waitlist_active_child
+    if (error?.code === '23505') {
+      throw new Error(`${childName} is already on the waitlist for this class.`);
+    }
+    if (error) throw error;
+    return data;
+  }
+
+  // Entries still in the queue or holding a seat
+  static async getParentWaitlist(parentId: string): Promise<ParentWaitlistEntry[]> {
+    const { data, error } = await supabase
+      .from('class_waitlist')
+      .select(`
+        *,
+        providers(business_name),
+        provider_classes(name)
+      `)
+      .eq('parent_id', parentId)
+      .in('status', ['waiting', 'offered'])
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async leaveWaitlist(entryId: string): Promise<void> {
+    const { error } = await supabase
+      .from('class_waitlist')
+      .update({ status: 'withdrawn' })
+      .eq('id', entryId);
+
+    if (error) throw error;
+  }
+
+  // A confirmed booking for the held class and child takes up the held seat
+  static async acceptOffer(entry: WaitlistEntry): Promise<Booking> {
+    return BookingService.createBooking({
+      provider_id: entry.provider_id,
+      parent_id: entry.parent_id,
+      class_id: entry.class_id,
+      child_name: entry.child_name,
+      child_age: entry.child_age,
+      status: 'confirmed'
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+import { ProviderWithRelations } from '../utils/providerAdapter';
+import { providerListSelect } from './providerService';
+
+type Wishlist = Database['public']['Tables']['wishlists']['Row'];
+
+// A saved provider with its current listing. `providers` is null once the
+// provider is no longer visible to parents (suspended, rejected or deleted).
+export type WishlistEntry = Pick<Wishlist, 'provider_id' | 'created_at'> & {
+  providers: ProviderWithRelations | null;
+};
+
+export class WishlistService {
+  static async getWishlistProviderIds(userId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('wishlists')
+      .select('provider_id')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map((entry: Pick<Wishlist, 'provider_id'>) => entry.provider_id);
+  }
+
+  static async getWishlist(userId: string): Promise<WishlistEntry[]> {
+    const { data, error } = await supabase
+      .from('wishlists')
+      .select(`provider_id, created_at, providers(${providerListSelect()})`)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async addToWishlist(userId: string, providerId: string): Promise<void> {
+    // Saving twice is a no-op rather than a unique violation
+    const { error } = await supabase
+      .from('wishlists')
+      .upsert({ user_id: userId, provider_id: providerId }, { onConflict: 'user_id,provider_id', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  static async removeFromWishlist(userId: string, providerId: string): Promise<void> {
+    const { error } = await supabase
+      .from('wishlists')
+      .delete()
+      .eq('user_id', userId)
+      .eq('provider_id', providerId);
+
+    if (error) throw error;
+  }
+}
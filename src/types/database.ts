@@ -1,3 +1,13 @@
+import {
+  Child,
+  ClassSchedule,
+  ModerationDecision,
+  ReportReason,
+  ReportTargetType,
+  ScheduleSlot,
+  UserLocation
+} from './index';
+
 export interface Database {
   public: {
     Tables: {
@@ -25,6 +35,12 @@ export interface Database {
           updated_at: string;
           approved_at: string | null;
           approved_by: string | null;
+          is_published: boolean;
+          search_vector: unknown | null;
+          search_text: string | null;
+          average_rating: number; // kept current from reviews by a trigger
+          review_count: number;
+          is_hidden: boolean; // set by moderation
         };
         Insert: {
           id?: string;
@@ -49,6 +65,12 @@ export interface Database {
           updated_at?: string;
           approved_at?: string | null;
           approved_by?: string | null;
+          is_published?: boolean;
+          search_vector?: unknown | null;
+          search_text?: string | null;
+          average_rating?: number;
+          review_count?: number;
+          is_hidden?: boolean;
         };
         Update: {
           id?: string;
@@ -73,25 +95,31 @@ export interface Database {
           updated_at?: string;
           approved_at?: string | null;
           approved_by?: string | null;
+          is_published?: boolean;
+          search_vector?: unknown | null;
+          search_text?: string | null;
+          average_rating?: number;
+          review_count?: number;
+          is_hidden?: boolean;
         };
       };
       provider_services: {
         Row: {
           id: string;
           provider_id: string;
-          category: 'tuition' | 'music' | 'dance' | 'sports' | 'coding' | 'art' | 'daycare' | 'camps';
+          category: string; // categories.id, top-level or subcategory
           created_at: string;
         };
         Insert: {
           id?: string;
           provider_id: string;
-          category: 'tuition' | 'music' | 'dance' | 'sports' | 'coding' | 'art' | 'daycare' | 'camps';
+          category: string;
           created_at?: string;
         };
         Update: {
           id?: string;
           provider_id?: string;
-          category?: 'tuition' | 'music' | 'dance' | 'sports' | 'coding' | 'art' | 'daycare' | 'camps';
+          category?: string;
           created_at?: string;
         };
       };
@@ -103,12 +131,14 @@ export interface Database {
           description: string | null;
           category: string;
           age_group: string;
+          min_age: number | null;
+          max_age: number | null;
           mode: 'online' | 'offline' | 'hybrid';
           duration: string;
           price: number;
           fee_type: 'per_session' | 'monthly';
           batch_size: number | null;
-          schedule: any; // JSON
+          schedule: ClassSchedule | null;
           is_active: boolean;
           created_at: string;
           updated_at: string;
@@ -120,12 +150,14 @@ export interface Database {
           description?: string | null;
           category: string;
           age_group: string;
+          min_age?: number | null;
+          max_age?: number | null;
           mode: 'online' | 'offline' | 'hybrid';
           duration: string;
           price: number;
           fee_type?: 'per_session' | 'monthly';
           batch_size?: number | null;
-          schedule?: any;
+          schedule?: ClassSchedule | null;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -137,12 +169,14 @@ export interface Database {
           description?: string | null;
           category?: string;
           age_group?: string;
+          min_age?: number | null;
+          max_age?: number | null;
           mode?: 'online' | 'offline' | 'hybrid';
           duration?: string;
           price?: number;
           fee_type?: 'per_session' | 'monthly';
           batch_size?: number | null;
-          schedule?: any;
+          schedule?: ClassSchedule | null;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -204,6 +238,7 @@ export interface Database {
           caption: string | null;
           display_order: number;
           is_active: boolean;
+          is_hidden: boolean; // set by moderation
           uploaded_at: string;
         };
         Insert: {
@@ -217,6 +252,7 @@ export interface Database {
           caption?: string | null;
           display_order?: number;
           is_active?: boolean;
+          is_hidden?: boolean;
           uploaded_at?: string;
         };
         Update: {
@@ -230,6 +266,7 @@ export interface Database {
           caption?: string | null;
           display_order?: number;
           is_active?: boolean;
+          is_hidden?: boolean;
           uploaded_at?: string;
         };
       };
@@ -243,6 +280,7 @@ export interface Database {
           parent_email: string | null;
           child_name: string;
           child_age: number;
+          child_id: string | null;
           interested_class_id: string | null;
           message: string;
           status: 'sent' | 'responded' | 'closed';
@@ -259,6 +297,7 @@ export interface Database {
           parent_email?: string | null;
           child_name: string;
           child_age: number;
+          child_id?: string | null;
           interested_class_id?: string | null;
           message: string;
           status?: 'sent' | 'responded' | 'closed';
@@ -275,6 +314,7 @@ export interface Database {
           parent_email?: string | null;
           child_name?: string;
           child_age?: number;
+          child_id?: string | null;
           interested_class_id?: string | null;
           message?: string;
           status?: 'sent' | 'responded' | 'closed';
@@ -283,6 +323,35 @@ export interface Database {
           created_at?: string;
         };
       };
+      enquiry_messages: {
+        Row: {
+          id: string;
+          enquiry_id: string;
+          sender_id: string | null;
+          sender_role: 'parent' | 'provider';
+          body: string;
+          created_at: string;
+          read_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          enquiry_id: string;
+          sender_id?: string | null;
+          sender_role: 'parent' | 'provider';
+          body: string;
+          created_at?: string;
+          read_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          enquiry_id?: string;
+          sender_id?: string | null;
+          sender_role?: 'parent' | 'provider';
+          body?: string;
+          created_at?: string;
+          read_at?: string | null;
+        };
+      };
       bookings: {
         Row: {
           id: string;
@@ -347,7 +416,14 @@ export interface Database {
           rating: number;
           comment: string | null;
           is_verified: boolean;
+          teaching_rating: number | null;
+          communication_rating: number | null;
+          facilities_rating: number | null;
+          value_rating: number | null;
+          reply: string | null;
+          replied_at: string | null;
           helpful_count: number;
+          is_hidden: boolean; // set by moderation
           created_at: string;
         };
         Insert: {
@@ -360,7 +436,14 @@ export interface Database {
           rating: number;
           comment?: string | null;
           is_verified?: boolean;
+          teaching_rating?: number | null;
+          communication_rating?: number | null;
+          facilities_rating?: number | null;
+          value_rating?: number | null;
+          reply?: string | null;
+          replied_at?: string | null;
           helpful_count?: number;
+          is_hidden?: boolean;
           created_at?: string;
         };
         Update: {
@@ -373,7 +456,98 @@ export interface Database {
           rating?: number;
           comment?: string | null;
           is_verified?: boolean;
+          teaching_rating?: number | null;
+          communication_rating?: number | null;
+          facilities_rating?: number | null;
+          value_rating?: number | null;
+          reply?: string | null;
+          replied_at?: string | null;
           helpful_count?: number;
+          is_hidden?: boolean;
+          created_at?: string;
+        };
+      };
+      review_votes: {
+        Row: {
+          id: string;
+          review_id: string;
+          parent_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          review_id: string;
+          parent_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          review_id?: string;
+          parent_id?: string;
+          created_at?: string;
+        };
+      };
+      reports: {
+        Row: {
+          id: string;
+          target_type: ReportTargetType;
+          target_id: string;
+          reason: ReportReason;
+          details: string | null;
+          reporter_id: string;
+          status: 'open' | 'actioned' | 'dismissed';
+          created_at: string;
+          resolved_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          target_type: ReportTargetType;
+          target_id: string;
+          reason: ReportReason;
+          details?: string | null;
+          reporter_id: string;
+          status?: 'open' | 'actioned' | 'dismissed';
+          created_at?: string;
+          resolved_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          target_type?: ReportTargetType;
+          target_id?: string;
+          reason?: ReportReason;
+          details?: string | null;
+          reporter_id?: string;
+          status?: 'open' | 'actioned' | 'dismissed';
+          created_at?: string;
+          resolved_at?: string | null;
+        };
+      };
+      moderation_actions: {
+        Row: {
+          id: string;
+          target_type: ReportTargetType;
+          target_id: string;
+          action: ModerationDecision;
+          note: string | null;
+          admin_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          target_type: ReportTargetType;
+          target_id: string;
+          action: ModerationDecision;
+          note?: string | null;
+          admin_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          target_type?: ReportTargetType;
+          target_id?: string;
+          action?: ModerationDecision;
+          note?: string | null;
+          admin_id?: string | null;
           created_at?: string;
         };
       };
@@ -409,12 +583,339 @@ export interface Database {
           created_at?: string;
         };
       };
+      wishlists: {
+        Row: {
+          id: string;
+          user_id: string;
+          provider_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          provider_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          provider_id?: string;
+          created_at?: string;
+        };
+      };
+      users: {
+        Row: {
+          id: string;
+          name: string;
+          email: string;
+          role: 'parent' | 'provider' | 'admin';
+          phone: string | null;
+          location: UserLocation | null;
+          children: Child[] | null; // superseded by the children table
+          wishlist: string[] | null; // superseded by the wishlists table
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          name: string;
+          email: string;
+          role?: 'parent' | 'provider' | 'admin';
+          phone?: string | null;
+          location?: UserLocation | null;
+          children?: Child[] | null;
+          wishlist?: string[] | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          email?: string;
+          role?: 'parent' | 'provider' | 'admin';
+          phone?: string | null;
+          location?: UserLocation | null;
+          children?: Child[] | null;
+          wishlist?: string[] | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      children: {
+        Row: {
+          id: string;
+          parent_id: string;
+          name: string;
+          date_of_birth: string;
+          interests: string[];
+          notes: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          parent_id: string;
+          name: string;
+          date_of_birth: string;
+          interests?: string[];
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          parent_id?: string;
+          name?: string;
+          date_of_birth?: string;
+          interests?: string[];
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      saved_places: {
+        Row: {
+          id: string;
+          user_id: string;
+          label: string;
+          city: string;
+          area: string;
+          pincode: string | null;
+          latitude: number | null;
+          longitude: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          label: string;
+          city: string;
+          area: string;
+          pincode?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          label?: string;
+          city?: string;
+          area?: string;
+          pincode?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      categories: {
+        Row: {
+          id: string;
+          parent_id: string | null;
+          name: string;
+          service_name: string;
+          icon: string;
+          color: string;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          parent_id?: string | null;
+          name: string;
+          service_name: string;
+          icon?: string;
+          color?: string;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          parent_id?: string | null;
+          name?: string;
+          service_name?: string;
+          icon?: string;
+          color?: string;
+          sort_order?: number;
+          created_at?: string;
+        };
+      };
+      cities: {
+        Row: {
+          id: string;
+          name: string;
+          latitude: number;
+          longitude: number;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          latitude: number;
+          longitude: number;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          latitude?: number;
+          longitude?: number;
+          sort_order?: number;
+          created_at?: string;
+        };
+      };
+      areas: {
+        Row: {
+          id: string;
+          city_id: string;
+          name: string;
+          pincode: string | null;
+          latitude: number | null;
+          longitude: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          city_id: string;
+          name: string;
+          pincode?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          city_id?: string;
+          name?: string;
+          pincode?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+          created_at?: string;
+        };
+      };
+      class_waitlist: {
+        Row: {
+          id: string;
+          class_id: string;
+          provider_id: string;
+          parent_id: string;
+          child_name: string;
+          child_age: number;
+          status: 'waiting' | 'offered' | 'accepted' | 'expired' | 'withdrawn';
+          offered_at: string | null;
+          hold_expires_at: string | null;
+          booking_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          class_id: string;
+          provider_id: string;
+          parent_id: string;
+          child_name: string;
+          child_age: number;
+          status?: 'waiting' | 'offered' | 'accepted' | 'expired' | 'withdrawn';
+          offered_at?: string | null;
+          hold_expires_at?: string | null;
+          booking_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          class_id?: string;
+          provider_id?: string;
+          parent_id?: string;
+          child_name?: string;
+          child_age?: number;
+          status?: 'waiting' | 'offered' | 'accepted' | 'expired' | 'withdrawn';
+          offered_at?: string | null;
+          hold_expires_at?: string | null;
+          booking_id?: string | null;
+          created_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      search_providers: {
+        Args: {
+          search_query: string;
+          result_limit?: number;
+        };
+        Returns: {
+          provider_id: string;
+          rank: number;
+          match_type: 'fulltext' | 'fuzzy';
+        }[];
+      };
+      mark_enquiry_messages_read: {
+        Args: {
+          target_enquiry_id: string;
+        };
+        Returns: number;
+      };
+      get_class_availability: {
+        Args: {
+          class_ids: string[];
+        };
+        Returns: {
+          class_id: string;
+          batch_size: number | null;
+          seats_left: number | null;
+          waitlist_count: number;
+        }[];
+      };
+      join_waitlist: {
+        Args: {
+          target_class_id: string;
+          waiting_child_name: string;
+          waiting_child_age: number;
+        };
+        Returns: Database['public']['Tables']['class_waitlist']['Row'];
+      };
+      classes_matching_schedule: {
+        Args: {
+          weekdays?: string[] | null;
+          time_bands?: string[] | null;
+        };
+        Returns: {
+          class_id: string;
+          provider_id: string;
+          matching_slots: ScheduleSlot[];
+        }[];
+      };
+      moderate_reported_item: {
+        Args: {
+          item_type: ReportTargetType;
+          item_id: string;
+          decision: ModerationDecision;
+          decision_note?: string | null;
+        };
+        Returns: Database['public']['Tables']['moderation_actions']['Row'];
+      };
+      providers_within_radius: {
+        Args: {
+          origin_lat: number;
+          origin_lng: number;
+          radius_km?: number | null;
+          result_limit?: number;
+        };
+        Returns: {
+          provider_id: string;
+          distance_km: number;
+        }[];
+      };
+      is_admin: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
     };
     Enums: {
       [_ in never]: never;
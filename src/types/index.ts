@@ -4,15 +4,8 @@ export interface User {
   email: string;
   phone?: string;
   role: 'parent' | 'provider' | 'admin';
-  location?: {
-    city: string;
-    area: string;
-    pincode?: string;
-    coordinates?: {
-      lat: number;
-      lng: number;
-    };
-  };
+  location?: UserLocation;
+  savedPlaces?: SavedPlace[];
   children?: Child[];
   wishlist?: string[];
   // Provider specific fields
@@ -29,10 +22,65 @@ export interface User {
   };
 }
 
+export interface ServiceCategory {
+  id: string;
+  // Set on subcategories, e.g. piano under music
+  parentId?: string;
+  // Short label for filters, e.g. "Music"
+  name: string;
+  // How providers describe the service, e.g. "Music Classes"
+  serviceName: string;
+  icon: string;
+  color: string;
+}
+
+export interface City {
+  id?: string;
+  name: string;
+  coordinates: {
+    lat: number;
+    lng: number;
+  };
+}
+
+export interface Area {
+  id?: string;
+  city: string;
+  name: string;
+  pincode?: string;
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+}
+
+export interface UserLocation {
+  city: string;
+  area: string;
+  pincode?: string;
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+  // Name of the saved place this location came from
+  label?: string;
+}
+
+// A named place a parent searches around, e.g. Home, School or Grandparents
+export interface SavedPlace extends UserLocation {
+  id?: string;
+  label: string;
+}
+
 export interface Child {
+  // Unset for children that only exist in a demo session
+  id?: string;
   name: string;
+  // Whole years, derived from dateOfBirth when it is known
   age: number;
+  dateOfBirth?: string;
   interests: string[];
+  notes?: string;
 }
 
 export interface Provider {
@@ -44,7 +92,7 @@ export interface Provider {
     address: string;
     city: string;
     area: string;
-    coordinates: {
+    coordinates?: {
       lat: number;
       lng: number;
     };
@@ -67,7 +115,7 @@ export interface Provider {
   };
   createdAt: Date;
   updatedAt: Date;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'suspended';
 }
 
 export interface Class {
@@ -75,23 +123,52 @@ export interface Class {
   name: string;
   description: string;
   ageGroup: string;
+  // Inclusive age range in years; no maxAge means no upper limit, no minAge means unknown
+  minAge?: number;
+  maxAge?: number;
   mode: 'online' | 'offline' | 'both';
   price: number;
   duration: string;
+  // Display labels derived from weeklySchedule
   schedule: string[];
+  weeklySchedule?: ClassSchedule;
+  // Slots that matched the active day/time filters, for highlighting
+  matchingSlots?: ScheduleSlot[];
   type: 'online' | 'offline' | 'hybrid';
   batchSize?: number;
   feeType: 'per_session' | 'monthly';
 }
 
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// One weekly session, in 24-hour HH:MM wall-clock time of the schedule's timezone
+export interface ScheduleSlot {
+  weekday: Weekday;
+  start: string;
+  end: string;
+}
+
+// Shape of provider_classes.schedule
+export interface ClassSchedule {
+  timezone: string;
+  slots: ScheduleSlot[];
+  // Fixed-period classes such as camps; ISO dates, both inclusive
+  start_date?: string | null;
+  end_date?: string | null;
+  // Free text kept from schedules that could not be parsed into slots
+  note?: string | null;
+}
+
 export interface Enquiry {
   id: string;
   provider: string;
   providerName: string;
+  providerPhone?: string;
   parent: string;
   childName: string;
   childAge: number;
   interestedIn: string;
+  classId?: string;
   message: string;
   status: 'sent' | 'responded' | 'closed';
   createdAt: Date;
@@ -99,18 +176,32 @@ export interface Enquiry {
   responseAt?: Date;
 }
 
+export type RatingAspect = 'teaching' | 'communication' | 'facilities' | 'value';
+
 export interface Review {
   id: string;
   provider: string;
   parent: string;
   childName: string;
   rating: number;
+  // Optional 1–5 ratings for individual aspects, alongside the overall rating
+  aspectRatings?: Partial<Record<RatingAspect, number>>;
   comment: string;
   createdAt: Date;
   parentName: string;
   helpful?: number;
+  // The provider's public reply, if they have posted one
+  reply?: string;
+  repliedAt?: Date;
 }
 
+// What a report can be about: a review, a provider_media row, or a provider as a whole
+export type ReportTargetType = 'review' | 'media' | 'provider';
+
+export type ReportReason = 'fake' | 'inappropriate' | 'unsafe' | 'spam' | 'other';
+
+export type ModerationDecision = 'hide' | 'restore' | 'dismiss';
+
 export interface OnboardingData {
   step: number;
   location?: {
@@ -0,0 +1,42 @@
+// Class age ranges in whole years, both ends inclusive; a null max means no upper limit
+export interface AgeRange {
+  min: number;
+  max: number | null;
+}
+
+// Ranges offered when providers describe who a class is for
+export const ageRanges: AgeRange[] = [
+  { min: 3, max: 5 },
+  { min: 6, max: 8 },
+  { min: 9, max: 12 },
+  { min: 13, max: 16 },
+  { min: 16, max: null }
+];
+
+export const MAX_CLASS_AGE = 25;
+
+// Same labels the sync_class_age_range trigger writes to age_group: '6-12 years', '16+ years'
+export function formatAgeRange(range: AgeRange): string {
+  return range.max === null ? `${range.min}+ years` : `${range.min}-${range.max} years`;
+}
+
+// Classes without a known range are treated as open to every age
+export function isAgeInRange(age: number, min?: number, max?: number | null): boolean {
+  if (min === undefined) return true;
+  return age >= min && (max === undefined || max === null || age <= max);
+}
+
+// Smallest range covering all of the given ones, e.g. 3-5 and 6-8 -> 3-8
+export function spanAgeRanges(ranges: AgeRange[]): AgeRange {
+  return {
+    min: Math.min(...ranges.map(range => range.min)),
+    max: ranges.some(range => range.max === null) ? null : Math.max(...ranges.map(range => range.max ?? 0))
+  };
+}
+
+// Completed years between an ISO date of birth and today
+export function getAgeFromDateOfBirth(dateOfBirth: string, today = new Date()): number {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const hadBirthday = today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day);
+  return today.getFullYear() - year - (hadBirthday ? 0 : 1);
+}
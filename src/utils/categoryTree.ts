@@ -0,0 +1,55 @@
+import { ServiceCategory } from '../types';
+
+export function getTopCategories(categories: ServiceCategory[]): ServiceCategory[] {
+  return categories.filter(category => !category.parentId);
+}
+
+export function getSubcategories(categories: ServiceCategory[], parentId: string): ServiceCategory[] {
+  return categories.filter(category => category.parentId === parentId);
+}
+
+// A category and everything filed under it, at any depth. Filtering by a category matches
+// providers and classes listed under any of these.
+export function getCategoryBranch(categories: ServiceCategory[], categoryId: string): string[] {
+  const branch = [categoryId];
+  for (let i = 0; i < branch.length; i++) {
+    for (const child of getSubcategories(categories, branch[i])) {
+      if (!branch.includes(child.id)) branch.push(child.id);
+    }
+  }
+  return branch;
+}
+
+// Top-level category first, down to the category itself; empty for unknown ids
+export function getCategoryPath(categories: ServiceCategory[], categoryId: string): ServiceCategory[] {
+  const path: ServiceCategory[] = [];
+  let current = categories.find(category => category.id === categoryId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId = current.parentId;
+    current = parentId ? categories.find(category => category.id === parentId) : undefined;
+  }
+  return path;
+}
+
+export interface CategoryLevel {
+  // Category the options are filed under; undefined for the top level
+  parent?: ServiceCategory;
+  options: ServiceCategory[];
+  // Option chosen at this level, if any
+  selectedId?: string;
+}
+
+// Filter rows for a chosen category: the top level, then each level down to the chosen
+// category, then its own subcategories when it has any
+export function getCategoryLevels(categories: ServiceCategory[], selectedId: string): CategoryLevel[] {
+  const path = selectedId ? getCategoryPath(categories, selectedId) : [];
+  const levels: CategoryLevel[] = [{ options: getTopCategories(categories), selectedId: path[0]?.id }];
+
+  path.forEach((parent, index) => {
+    const options = getSubcategories(categories, parent.id);
+    if (options.length > 0) levels.push({ parent, options, selectedId: path[index + 1]?.id });
+  });
+
+  return levels;
+}
@@ -0,0 +1,17 @@
+import { Child } from '../types';
+import { Database } from '../types/database';
+import { getAgeFromDateOfBirth } from './ageRange';
+
+type ChildRow = Database['public']['Tables']['children']['Row'];
+
+// Convert a children row into the display model; the age is worked out fresh from the date of birth
+export function toChild(row: ChildRow): Child {
+  return {
+    id: row.id,
+    name: row.name,
+    age: getAgeFromDateOfBirth(row.date_of_birth),
+    dateOfBirth: row.date_of_birth,
+    interests: row.interests || [],
+    notes: row.notes || undefined
+  };
+}
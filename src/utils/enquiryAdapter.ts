@@ -0,0 +1,22 @@
+import { Enquiry } from '../types';
+import { ParentEnquiry } from '../services/enquiryService';
+
+// Convert an enquiries row (with provider and class joined) into the parent display model
+export function toEnquiry(row: ParentEnquiry): Enquiry {
+  return {
+    id: row.id,
+    provider: row.provider_id,
+    providerName: row.providers?.business_name || 'Provider no longer listed',
+    providerPhone: row.providers?.phone,
+    parent: row.parent_id,
+    childName: row.child_name,
+    childAge: row.child_age,
+    interestedIn: row.provider_classes?.name || 'General enquiry',
+    classId: row.interested_class_id || undefined,
+    message: row.message,
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    response: row.response || undefined,
+    responseAt: row.response_at ? new Date(row.response_at) : undefined
+  };
+}
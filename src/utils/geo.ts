@@ -0,0 +1,24 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// Great-circle distance between two points in km (Haversine formula)
+export function getDistanceKm(from: Coordinates, to: Coordinates): number {
+  const toRad = (val: number) => (val * Math.PI) / 180;
+  const R = 6371; // Earth's radius in km
+  const dLat = toRad(to.lat - from.lat);
+  const dLon = toRad(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(from.lat)) *
+      Math.cos(toRad(to.lat)) *
+      Math.sin(dLon / 2) ** 2;
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// Round a distance to one decimal place for display
+export function roundDistance(distance: number): number {
+  return Math.round(distance * 10) / 10;
+}
@@ -0,0 +1,65 @@
+import { Area, City, UserLocation } from '../types';
+import { Coordinates, getDistanceKm } from './geo';
+
+// Positions further than this from every known area are outside the cities we serve
+const MAX_AREA_DISTANCE_KM = 25;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Location lookups over a list of cities and areas (see useTaxonomy)
+export function createGeocoder(cities: City[], areas: Area[]) {
+  const findArea = (city: string, area: string) =>
+    areas.find(a => sameName(a.city, city) && sameName(a.name, area));
+
+  return {
+    cityNames: cities.map(city => city.name),
+
+    getAreaNames: (city: string): string[] =>
+      areas.filter(area => sameName(area.city, city)).map(area => area.name),
+
+    // Nearest known area to a GPS position; the returned location keeps the exact position
+    reverseGeocode: (position: Coordinates): UserLocation | null => {
+      let nearest: Area | null = null;
+      let nearestKm = Infinity;
+
+      for (const area of areas) {
+        if (!area.coordinates) continue;
+        const km = getDistanceKm(position, area.coordinates);
+        if (km < nearestKm) {
+          nearest = area;
+          nearestKm = km;
+        }
+      }
+
+      if (!nearest || nearestKm > MAX_AREA_DISTANCE_KM) return null;
+
+      return {
+        city: nearest.city,
+        area: nearest.name,
+        pincode: nearest.pincode,
+        coordinates: position
+      };
+    },
+
+    // First area listed under a 6-digit pincode, located at its centroid
+    lookupPincode: (pincode: string): UserLocation | null => {
+      const area = areas.find(a => a.pincode === pincode.trim());
+      if (!area) return null;
+
+      return {
+        city: area.city,
+        area: area.name,
+        pincode: area.pincode,
+        coordinates: area.coordinates || cities.find(c => sameName(c.name, area.city))?.coordinates
+      };
+    },
+
+    // Centroid of a chosen area, falling back to the city centre for areas we don't place
+    geocodeArea: (city: string, area: string): Coordinates | undefined =>
+      findArea(city, area)?.coordinates || cities.find(c => sameName(c.name, city))?.coordinates,
+
+    // Pincode of a chosen area, if we know it
+    getAreaPincode: (city: string, area: string): string | undefined =>
+      findArea(city, area)?.pincode
+  };
+}
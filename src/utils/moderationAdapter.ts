@@ -0,0 +1,93 @@
+import { ReportTargetType } from '../types';
+import { Database } from '../types/database';
+import { ReportTargets } from '../services/reportService';
+import { toImageUrl } from './providerAdapter';
+
+type ReportRow = Database['public']['Tables']['reports']['Row'];
+
+// One reviewed, photographed or listed item in the moderation queue, with every open report about it
+export interface ModerationItem {
+  targetType: ReportTargetType;
+  targetId: string;
+  title: string;
+  description?: string;
+  imageUrl?: string;
+  isHidden: boolean;
+  // False when the item was deleted after it was reported
+  exists: boolean;
+  reports: ReportRow[];
+}
+
+function describeTarget(
+  targetType: ReportTargetType,
+  targetId: string,
+  targets: ReportTargets
+): Omit<ModerationItem, 'reports'> {
+  const base = { targetType, targetId, isHidden: false, exists: true };
+
+  if (targetType === 'review') {
+    const review = targets.reviews.find(r => r.id === targetId);
+    if (review) {
+      return {
+        ...base,
+        title: `${review.rating}★ review of ${review.providers?.business_name || 'a removed provider'} by ${review.parent_name}`,
+        description: review.comment || undefined,
+        isHidden: review.is_hidden
+      };
+    }
+  } else if (targetType === 'media') {
+    const media = targets.media.find(m => m.id === targetId);
+    if (media) {
+      return {
+        ...base,
+        title: `Photo from ${media.providers?.business_name || 'a removed provider'}`,
+        description: media.caption || undefined,
+        imageUrl: toImageUrl(media.file_path),
+        isHidden: media.is_hidden
+      };
+    }
+  } else {
+    const provider = targets.providers.find(p => p.id === targetId);
+    if (provider) {
+      return {
+        ...base,
+        title: provider.business_name,
+        description: `${provider.area}, ${provider.city}`,
+        isHidden: provider.is_hidden
+      };
+    }
+  }
+
+  return { ...base, title: 'Deleted item', exists: false };
+}
+
+// Groups open reports by the item they are about, the item reported longest ago first
+export function toModerationItems(reports: ReportRow[], targets: ReportTargets): ModerationItem[] {
+  const items = new Map<string, ModerationItem>();
+
+  for (const report of reports) {
+    const key = `${report.target_type}:${report.target_id}`;
+    const item = items.get(key);
+    if (item) {
+      item.reports.push(report);
+    } else {
+      items.set(key, { ...describeTarget(report.target_type, report.target_id, targets), reports: [report] });
+    }
+  }
+
+  return [...items.values()];
+}
+
+// Everything currently hidden, whether or not it still has open reports
+export function toHiddenItems(targets: ReportTargets): ModerationItem[] {
+  const hidden: [ReportTargetType, string][] = [
+    ...targets.providers.map(p => ['provider', p.id] as [ReportTargetType, string]),
+    ...targets.reviews.map(r => ['review', r.id] as [ReportTargetType, string]),
+    ...targets.media.map(m => ['media', m.id] as [ReportTargetType, string])
+  ];
+
+  return hidden.map(([targetType, targetId]) => ({
+    ...describeTarget(targetType, targetId, targets),
+    reports: []
+  }));
+}
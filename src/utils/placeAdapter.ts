@@ -0,0 +1,27 @@
+import { SavedPlace, UserLocation } from '../types';
+import { Database } from '../types/database';
+
+type SavedPlaceRow = Database['public']['Tables']['saved_places']['Row'];
+
+export function toSavedPlace(row: SavedPlaceRow): SavedPlace {
+  return {
+    id: row.id,
+    label: row.label,
+    city: row.city,
+    area: row.area,
+    pincode: row.pincode || undefined,
+    coordinates: row.latitude !== null && row.longitude !== null
+      ? { lat: Number(row.latitude), lng: Number(row.longitude) }
+      : undefined
+  };
+}
+
+export function toPlaceFields(location: UserLocation) {
+  return {
+    city: location.city,
+    area: location.area,
+    pincode: location.pincode || null,
+    latitude: location.coordinates?.lat ?? null,
+    longitude: location.coordinates?.lng ?? null
+  };
+}
@@ -0,0 +1,139 @@
+import { getPublicUrl } from '../lib/supabase';
+import { Database } from '../types/database';
+import { Class, Provider, Review } from '../types';
+import { formatSchedule, isClassSchedule } from './schedule';
+
+type ProviderRow = Database['public']['Tables']['providers']['Row'];
+type ProviderClassRow = Database['public']['Tables']['provider_classes']['Row'];
+type ProviderServiceRow = Database['public']['Tables']['provider_services']['Row'];
+type ProviderMediaRow = Database['public']['Tables']['provider_media']['Row'];
+type ReviewRow = Database['public']['Tables']['reviews']['Row'];
+
+export type ProviderClassSummary = Pick<
+  ProviderClassRow,
+  'id' | 'name' | 'description' | 'price' | 'mode' | 'fee_type' | 'age_group' | 'min_age' | 'max_age' | 'duration' | 'schedule' | 'batch_size' | 'is_active'
+>;
+
+// Shape returned by provider queries that embed services, classes and media
+export type ProviderWithRelations = ProviderRow & {
+  provider_services?: Pick<ProviderServiceRow, 'category'>[] | null;
+  provider_classes?: ProviderClassSummary[] | null;
+  provider_media?: Pick<ProviderMediaRow, 'file_path' | 'media_type'>[] | null;
+};
+
+// Provider details additionally embed the review rows, and media ids so photos can be reported
+export type ProviderDetailsRow = Omit<ProviderWithRelations, 'provider_media'> & {
+  provider_media?: Pick<ProviderMediaRow, 'id' | 'file_path' | 'media_type'>[] | null;
+  reviews?: ReviewRow[] | null;
+};
+
+export interface ProviderPhoto {
+  id: string;
+  url: string;
+}
+
+export const DEFAULT_PROVIDER_IMAGE = 'https://images.pexels.com/photos/5212320/pexels-photo-5212320.jpeg?auto=compress&cs=tinysrgb&w=400';
+
+// Display labels for provider_classes.schedule; classes without a schedule have none
+export function normalizeSchedule(schedule: unknown): string[] {
+  return isClassSchedule(schedule) ? formatSchedule(schedule) : [];
+}
+
+const imageOrder: Record<string, number> = { profile_image: 0, cover_image: 1, gallery: 2 };
+
+export function toImageUrl(filePath: string): string {
+  return /^https?:\/\//.test(filePath) ? filePath : getPublicUrl('provider-images', filePath);
+}
+
+export function toClass(cls: ProviderClassSummary): Class {
+  return {
+    id: cls.id,
+    name: cls.name,
+    description: cls.description || '',
+    ageGroup: cls.age_group,
+    minAge: cls.min_age ?? undefined,
+    maxAge: cls.max_age ?? undefined,
+    mode: cls.mode === 'hybrid' ? 'both' : cls.mode,
+    price: Number(cls.price),
+    duration: cls.duration,
+    schedule: normalizeSchedule(cls.schedule),
+    weeklySchedule: cls.schedule ?? undefined,
+    type: cls.mode,
+    batchSize: cls.batch_size ?? undefined,
+    feeType: cls.fee_type
+  };
+}
+
+// Convert a providers row (with embedded relations) into the display model used by parent screens
+export function toProvider(row: ProviderWithRelations): Provider {
+  const classes = (row.provider_classes || [])
+    .filter(cls => cls.is_active !== false)
+    .map(toClass);
+  const prices = classes.map(cls => cls.price);
+  // Profile image first so cards and the details hero show it, then cover and gallery shots
+  const images = (row.provider_media || [])
+    .filter(media => media.media_type in imageOrder)
+    .sort((a, b) => imageOrder[a.media_type] - imageOrder[b.media_type])
+    .map(media => toImageUrl(media.file_path));
+
+  return {
+    id: row.id,
+    name: row.business_name,
+    description: row.description || `Professional services in ${row.city}`,
+    categories: (row.provider_services || []).map(service => service.category),
+    location: {
+      address: `${row.area}, ${row.city}`,
+      city: row.city,
+      area: row.area,
+      coordinates: row.latitude != null && row.longitude != null
+        ? { lat: Number(row.latitude), lng: Number(row.longitude) }
+        : undefined
+    },
+    contact: {
+      phone: row.phone,
+      whatsapp: row.whatsapp || undefined,
+      email: row.email
+    },
+    classes,
+    images: images.length > 0 ? images : [DEFAULT_PROVIDER_IMAGE],
+    isVerified: row.is_verified,
+    averageRating: Number(row.average_rating),
+    totalReviews: row.review_count,
+    tags: row.is_verified ? ['verified', 'experienced'] : ['experienced'],
+    priceRange: prices.length > 0
+      ? { min: Math.min(...prices), max: Math.max(...prices) }
+      : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    status: row.status
+  };
+}
+
+// Gallery photos for the details page; profile and cover images are already shown in the hero
+export function toProviderPhotos(row: ProviderDetailsRow): ProviderPhoto[] {
+  return (row.provider_media || [])
+    .filter(media => media.media_type === 'gallery')
+    .map(media => ({ id: media.id, url: toImageUrl(media.file_path) }));
+}
+
+export function toReview(row: ReviewRow): Review {
+  return {
+    id: row.id,
+    provider: row.provider_id,
+    parent: row.parent_id,
+    childName: row.child_name,
+    rating: row.rating,
+    aspectRatings: {
+      teaching: row.teaching_rating ?? undefined,
+      communication: row.communication_rating ?? undefined,
+      facilities: row.facilities_rating ?? undefined,
+      value: row.value_rating ?? undefined
+    },
+    comment: row.comment || '',
+    createdAt: new Date(row.created_at),
+    parentName: row.parent_name,
+    helpful: row.helpful_count,
+    reply: row.reply || undefined,
+    repliedAt: row.replied_at ? new Date(row.replied_at) : undefined
+  };
+}
@@ -0,0 +1,168 @@
+import { Class, Provider } from '../types';
+import { Coordinates, getDistanceKm, roundDistance } from './geo';
+import { isAgeInRange } from './ageRange';
+
+export type ClassMode = 'online' | 'offline' | 'hybrid';
+export type FeeType = 'per_session' | 'monthly';
+
+// Faceted search state, mirrored 1:1 in the /search URL query string
+export interface SearchFilters {
+  q: string;
+  category: string;
+  childAge?: number;
+  mode?: ClassMode;
+  feeType?: FeeType;
+  minPrice?: number;
+  maxPrice?: number;
+  radiusKm?: number;
+  verifiedOnly: boolean;
+  minRating?: number;
+}
+
+export const emptySearchFilters: SearchFilters = {
+  q: '',
+  category: '',
+  verifiedOnly: false
+};
+
+export const radiusOptions = [2, 5, 10, 25];
+export const ratingOptions = [3, 4, 4.5];
+
+const classModes: ClassMode[] = ['online', 'offline', 'hybrid'];
+const feeTypes: FeeType[] = ['per_session', 'monthly'];
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+export function parseSearchParams(params: URLSearchParams): SearchFilters {
+  const mode = params.get('mode') as ClassMode | null;
+  const feeType = params.get('fee') as FeeType | null;
+
+  return {
+    q: params.get('q') || '',
+    category: params.get('category') || '',
+    childAge: parseNumber(params.get('age')),
+    mode: mode && classModes.includes(mode) ? mode : undefined,
+    feeType: feeType && feeTypes.includes(feeType) ? feeType : undefined,
+    minPrice: parseNumber(params.get('minPrice')),
+    maxPrice: parseNumber(params.get('maxPrice')),
+    radiusKm: parseNumber(params.get('radius')),
+    verifiedOnly: params.get('verified') === '1',
+    minRating: parseNumber(params.get('rating'))
+  };
+}
+
+export function toSearchParams(filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  };
+
+  set('q', filters.q.trim());
+  set('category', filters.category);
+  set('age', filters.childAge);
+  set('mode', filters.mode);
+  set('fee', filters.feeType);
+  set('minPrice', filters.minPrice);
+  set('maxPrice', filters.maxPrice);
+  set('radius', filters.radiusKm);
+  if (filters.verifiedOnly) params.set('verified', '1');
+  set('rating', filters.minRating);
+
+  return params;
+}
+
+// Number of facets (excluding the free-text query) that narrow the results
+export function countActiveFilters(filters: SearchFilters): number {
+  return [
+    filters.category,
+    filters.childAge,
+    filters.mode,
+    filters.feeType,
+    filters.minPrice,
+    filters.maxPrice,
+    filters.radiusKm,
+    filters.verifiedOnly || undefined,
+    filters.minRating
+  ].filter(value => value !== undefined && value !== '').length;
+}
+
+function classMatches(cls: Class, filters: SearchFilters): boolean {
+  if (filters.mode) {
+    const mode = cls.type || (cls.mode === 'both' ? 'hybrid' : cls.mode);
+    if (mode !== filters.mode && mode !== 'hybrid') return false;
+  }
+
+  if (filters.feeType && cls.feeType && cls.feeType !== filters.feeType) return false;
+  if (filters.minPrice !== undefined && cls.price < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && cls.price > filters.maxPrice) return false;
+
+  if (filters.childAge !== undefined && !isAgeInRange(filters.childAge, cls.minAge, cls.maxAge)) return false;
+
+  return true;
+}
+
+function hasClassFilters(filters: SearchFilters): boolean {
+  return filters.mode !== undefined ||
+    filters.feeType !== undefined ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.childAge !== undefined;
+}
+
+// Apply every facet to already-loaded providers and attach distance.
+// `ranked` providers were already matched and ordered by the server-side text search,
+// so the query is not re-applied and their relevance order is kept unless a radius is set.
+// `categoryBranch` is the chosen category with its subcategories (getCategoryBranch).
+export function filterProviders(
+  providers: Provider[],
+  filters: SearchFilters,
+  origin?: Coordinates,
+  ranked = false,
+  categoryBranch: string[] = filters.category ? [filters.category] : []
+): Provider[] {
+  const query = ranked ? '' : filters.q.trim().toLowerCase();
+
+  const results = providers
+    .map(provider => ({
+      ...provider,
+      distance: origin && provider.location.coordinates
+        ? roundDistance(getDistanceKm(origin, provider.location.coordinates))
+        : undefined
+    }))
+    .filter(provider => {
+      if (query &&
+          !provider.name.toLowerCase().includes(query) &&
+          !provider.description.toLowerCase().includes(query) &&
+          !provider.classes.some(cls => cls.name.toLowerCase().includes(query))) {
+        return false;
+      }
+
+      if (filters.category && !provider.categories.some(category => categoryBranch.includes(category))) return false;
+      if (filters.verifiedOnly && !provider.isVerified) return false;
+      if (filters.minRating !== undefined && (provider.averageRating || 0) < filters.minRating) return false;
+
+      if (filters.radiusKm !== undefined && origin) {
+        if (provider.distance === undefined || provider.distance > filters.radiusKm) return false;
+      }
+
+      if (hasClassFilters(filters) && !provider.classes.some(cls => classMatches(cls, filters))) {
+        return false;
+      }
+
+      return true;
+    });
+
+  if (filters.radiusKm !== undefined) {
+    return results.sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+  }
+
+  if (ranked && filters.q.trim()) {
+    return results;
+  }
+
+  return results.sort((a, b) => (b.averageRating || 0) - (a.averageRating || 0));
+}
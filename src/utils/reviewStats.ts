@@ -0,0 +1,60 @@
+import { RatingAspect, Review } from '../types';
+
+export const ratingAspectLabels: Record<RatingAspect, string> = {
+  teaching: 'Teaching quality',
+  communication: 'Communication',
+  facilities: 'Facilities',
+  value: 'Value for money'
+};
+
+export const ratingAspects = Object.keys(ratingAspectLabels) as RatingAspect[];
+
+export type ReviewSort = 'helpful' | 'newest' | 'lowest';
+
+export const reviewSortLabels: Record<ReviewSort, string> = {
+  helpful: 'Most helpful',
+  newest: 'Newest',
+  lowest: 'Lowest rating'
+};
+
+// Ties fall back to the newest review first
+export function sortReviews(reviews: Review[], sort: ReviewSort): Review[] {
+  const byNewest = (a: Review, b: Review) => b.createdAt.getTime() - a.createdAt.getTime();
+
+  return [...reviews].sort((a, b) => {
+    if (sort === 'helpful') return (b.helpful || 0) - (a.helpful || 0) || byNewest(a, b);
+    if (sort === 'lowest') return a.rating - b.rating || byNewest(a, b);
+    return byNewest(a, b);
+  });
+}
+
+export interface RatingBucket {
+  stars: number;
+  count: number;
+}
+
+// How many reviews gave each overall rating, 5 stars first
+export function getRatingDistribution(reviews: Review[]): RatingBucket[] {
+  return [5, 4, 3, 2, 1].map(stars => ({
+    stars,
+    count: reviews.filter(review => review.rating === stars).length
+  }));
+}
+
+// Mean of each aspect over the reviews that rated it, to one decimal; aspects nobody rated are left out
+export function getAspectAverages(reviews: Review[]): Partial<Record<RatingAspect, number>> {
+  const averages: Partial<Record<RatingAspect, number>> = {};
+
+  for (const aspect of ratingAspects) {
+    const ratings = reviews
+      .map(review => review.aspectRatings?.[aspect])
+      .filter((rating): rating is number => rating !== undefined);
+
+    if (ratings.length > 0) {
+      const mean = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+      averages[aspect] = Math.round(mean * 10) / 10;
+    }
+  }
+
+  return averages;
+}
@@ -0,0 +1,175 @@
+import { ClassSchedule, Provider, ScheduleSlot, Weekday } from '../types';
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export const weekdayLabels: Record<Weekday, string> = {
+  mon: 'Mon',
+  tue: 'Tue',
+  wed: 'Wed',
+  thu: 'Thu',
+  fri: 'Fri',
+  sat: 'Sat',
+  sun: 'Sun'
+};
+
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+// Offered in the schedule editor; a class saved with another zone keeps it
+export const scheduleTimezones = ['Asia/Kolkata', 'Asia/Dubai', 'Asia/Singapore', 'Europe/London', 'America/New_York'];
+
+export type TimeBand = 'morning' | 'afternoon' | 'evening';
+
+export const timeBandLabels: Record<TimeBand, string> = {
+  morning: 'Morning (before 12 PM)',
+  afternoon: 'Afternoon (12-5 PM)',
+  evening: 'Evening (after 5 PM)'
+};
+
+export const weekdayPresets: { label: string; weekdays: Weekday[] }[] = [
+  { label: 'Weekdays', weekdays: ['mon', 'tue', 'wed', 'thu', 'fri'] },
+  { label: 'Weekend', weekdays: ['sat', 'sun'] }
+];
+
+// Day/time filter; an empty list leaves that dimension unfiltered
+export interface ScheduleFilter {
+  weekdays: Weekday[];
+  timeBands: TimeBand[];
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function emptySchedule(): ClassSchedule {
+  return { timezone: DEFAULT_TIMEZONE, slots: [] };
+}
+
+// The same session time on several days, e.g. weeklySlots(['mon', 'wed'], '16:00', '17:00')
+export function weeklySlots(weekdays: Weekday[], start: string, end: string): ScheduleSlot[] {
+  return weekdays.map(weekday => ({ weekday, start, end }));
+}
+
+export function isClassSchedule(value: unknown): value is ClassSchedule {
+  return typeof value === 'object' && value !== null && Array.isArray((value as ClassSchedule).slots);
+}
+
+// Mirrors the validate_class_schedule trigger so the form can explain what is wrong before saving
+export function validateSchedule(schedule: ClassSchedule): string | null {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+  } catch {
+    return `Unknown timezone: ${schedule.timezone}`;
+  }
+
+  for (const slot of schedule.slots) {
+    if (!WEEKDAYS.includes(slot.weekday)) return 'Each session needs a day of the week';
+    if (!TIME_PATTERN.test(slot.start) || !TIME_PATTERN.test(slot.end)) return 'Each session needs a start and end time';
+    if (slot.start >= slot.end) return `${weekdayLabels[slot.weekday]} session must end after it starts`;
+  }
+
+  const overlapping = schedule.slots.find((slot, i) =>
+    schedule.slots.some((other, j) =>
+      j > i && other.weekday === slot.weekday && slot.start < other.end && other.start < slot.end
+    )
+  );
+  if (overlapping) return `${weekdayLabels[overlapping.weekday]} sessions overlap`;
+
+  const { start_date, end_date } = schedule;
+  if ((start_date && !DATE_PATTERN.test(start_date)) || (end_date && !DATE_PATTERN.test(end_date))) {
+    return 'Dates must be valid calendar dates';
+  }
+  if (start_date && end_date && start_date > end_date) return 'End date must be on or after the start date';
+
+  return null;
+}
+
+// '16:00' -> '4 PM', '15:30' -> '3:30 PM'
+export function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const hour = hours % 12 || 12;
+  return `${hour}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
+// '16:00'-'17:00' -> '4-5 PM', '10:00'-'12:00' -> '10 AM-12 PM'
+export function formatTimeRange(start: string, end: string): string {
+  const startLabel = formatTime(start);
+  const endLabel = formatTime(end);
+  return startLabel.slice(-2) === endLabel.slice(-2)
+    ? `${startLabel.slice(0, -3)}-${endLabel}`
+    : `${startLabel}-${endLabel}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+// Display labels, one per distinct session time: ['Mon, Wed 4-5 PM', 'Sat 10-11 AM', 'Runs 1 May 2025 - 31 May 2025']
+export function formatSchedule(schedule: ClassSchedule): string[] {
+  const groups = new Map<string, Weekday[]>();
+  [...schedule.slots]
+    .sort((a, b) => WEEKDAYS.indexOf(a.weekday) - WEEKDAYS.indexOf(b.weekday) || a.start.localeCompare(b.start))
+    .forEach(slot => {
+      const range = formatTimeRange(slot.start, slot.end);
+      groups.set(range, [...(groups.get(range) || []), slot.weekday]);
+    });
+
+  const labels = [...groups].map(([range, days]) => `${days.map(day => weekdayLabels[day]).join(', ')} ${range}`);
+
+  if (labels.length > 0 && schedule.timezone !== Intl.DateTimeFormat().resolvedOptions().timeZone) {
+    labels[labels.length - 1] += ` (${schedule.timezone.split('/').pop()?.replace(/_/g, ' ')} time)`;
+  }
+  if (schedule.start_date && schedule.end_date) {
+    labels.push(`Runs ${formatDate(schedule.start_date)} - ${formatDate(schedule.end_date)}`);
+  } else if (schedule.start_date) {
+    labels.push(`From ${formatDate(schedule.start_date)}`);
+  } else if (schedule.end_date) {
+    labels.push(`Until ${formatDate(schedule.end_date)}`);
+  }
+  if (schedule.note) labels.push(schedule.note);
+
+  return labels;
+}
+
+// Band a slot belongs to, by its start time; kept in step with classes_matching_schedule
+export function getTimeBand(start: string): TimeBand {
+  if (start < '12:00') return 'morning';
+  if (start < '17:00') return 'afternoon';
+  return 'evening';
+}
+
+export function isScheduleFilterActive(filter: ScheduleFilter): boolean {
+  return filter.weekdays.length > 0 || filter.timeBands.length > 0;
+}
+
+// Local counterpart of classes_matching_schedule, for demo data that is not in the database
+export function findMatchingSlots(schedule: ClassSchedule | undefined, filter: ScheduleFilter): ScheduleSlot[] {
+  if (!schedule) return [];
+  if (schedule.end_date && schedule.end_date < new Date().toISOString().slice(0, 10)) return [];
+
+  return schedule.slots.filter(slot =>
+    (filter.weekdays.length === 0 || filter.weekdays.includes(slot.weekday)) &&
+    (filter.timeBands.length === 0 || filter.timeBands.includes(getTimeBand(slot.start)))
+  );
+}
+
+// Attach matched slots (keyed by class id) to a provider's classes, listing matching classes first
+export function withMatchingSlots(provider: Provider, matches: Record<string, ScheduleSlot[]>): Provider {
+  const classes = provider.classes.map(cls => ({ ...cls, matchingSlots: matches[cls.id] }));
+  return {
+    ...provider,
+    classes: [...classes.filter(cls => cls.matchingSlots), ...classes.filter(cls => !cls.matchingSlots)]
+  };
+}
+
+// Providers with at least one class matching the filter, matched locally (demo data)
+export function matchProvidersLocally(providers: Provider[], filter: ScheduleFilter): Provider[] {
+  return providers
+    .map(provider => {
+      const matches: Record<string, ScheduleSlot[]> = {};
+      provider.classes.forEach(cls => {
+        const slots = findMatchingSlots(cls.weeklySchedule, filter);
+        if (slots.length > 0) matches[cls.id] = slots;
+      });
+      return Object.keys(matches).length > 0 ? withMatchingSlots(provider, matches) : null;
+    })
+    .filter((provider): provider is Provider => provider !== null);
+}
@@ -0,0 +1,37 @@
+import { Area, City, ServiceCategory } from '../types';
+import { Database } from '../types/database';
+import { AreaWithCity } from '../services/taxonomyService';
+
+type CategoryRow = Database['public']['Tables']['categories']['Row'];
+type CityRow = Database['public']['Tables']['cities']['Row'];
+
+export function toCategory(row: CategoryRow): ServiceCategory {
+  return {
+    id: row.id,
+    parentId: row.parent_id || undefined,
+    name: row.name,
+    serviceName: row.service_name,
+    icon: row.icon,
+    color: row.color
+  };
+}
+
+export function toCity(row: CityRow): City {
+  return {
+    id: row.id,
+    name: row.name,
+    coordinates: { lat: Number(row.latitude), lng: Number(row.longitude) }
+  };
+}
+
+export function toArea(row: AreaWithCity): Area {
+  return {
+    id: row.id,
+    city: row.cities.name,
+    name: row.name,
+    pincode: row.pincode || undefined,
+    coordinates: row.latitude !== null && row.longitude !== null
+      ? { lat: Number(row.latitude), lng: Number(row.longitude) }
+      : undefined
+  };
+}
@@ -0,0 +1,175 @@
+/*
+  # Ranked full-text search for providers
+
+  1. Changes
+    - Enable `pg_trgm` for typo-tolerant matching
+    - Add `search_vector` (weighted tsvector) and `search_text` (plain text for trigram matching) to `providers`
+    - Both columns cover business name, categories, class names, area, city and description
+    - Triggers keep them current when providers, provider_services or provider_classes change
+
+  2. Functions
+    - `build_prefix_tsquery(search_query)` - turns free text into a prefix-matching tsquery,
+      dropping punctuation so commas, quotes and brackets are safe
+    - `search_providers(search_query, result_limit)` - ranked full-text search over published
+      providers, falling back to trigram word similarity when nothing matches
+
+  3. Indexes
+    - GIN index on `search_vector`
+    - GIN trigram index on `search_text`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS search_text text;
+
+-- Weighted document: name (A), categories and classes (B), location (C), description (D)
+CREATE OR REPLACE FUNCTION provider_search_vector(
+  p_provider_id uuid,
+  p_business_name text,
+  p_area text,
+  p_city text,
+  p_description text
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(p_business_name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce((
+      SELECT string_agg(ps.category, ' ')
+      FROM provider_services ps
+      WHERE ps.provider_id = p_provider_id
+    ), '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce((
+      SELECT string_agg(pc.name || ' ' || pc.category, ' ')
+      FROM provider_classes pc
+      WHERE pc.provider_id = p_provider_id AND pc.is_active = true
+    ), '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(p_area, '') || ' ' || coalesce(p_city, '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce(p_description, '')), 'D');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION provider_search_text(
+  p_provider_id uuid,
+  p_business_name text,
+  p_area text,
+  p_city text
+)
+RETURNS text AS $$
+  SELECT lower(concat_ws(' ',
+    p_business_name,
+    p_area,
+    p_city,
+    (SELECT string_agg(ps.category, ' ') FROM provider_services ps WHERE ps.provider_id = p_provider_id),
+    (SELECT string_agg(pc.name, ' ') FROM provider_classes pc WHERE pc.provider_id = p_provider_id AND pc.is_active = true)
+  ));
+$$ LANGUAGE sql STABLE;
+
+-- Refresh the search columns on the provider row itself
+CREATE OR REPLACE FUNCTION update_provider_search_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector = provider_search_vector(NEW.id, NEW.business_name, NEW.area, NEW.city, NEW.description);
+  NEW.search_text = provider_search_text(NEW.id, NEW.business_name, NEW.area, NEW.city);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_providers_search_columns ON providers;
+CREATE TRIGGER update_providers_search_columns
+  BEFORE INSERT OR UPDATE OF business_name, description, area, city ON providers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_provider_search_columns();
+
+-- Refresh the parent provider when its services or classes change
+CREATE OR REPLACE FUNCTION refresh_provider_search_columns()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_provider_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_provider_id = OLD.provider_id;
+  ELSE
+    target_provider_id = NEW.provider_id;
+  END IF;
+
+  UPDATE providers p
+  SET
+    search_vector = provider_search_vector(p.id, p.business_name, p.area, p.city, p.description),
+    search_text = provider_search_text(p.id, p.business_name, p.area, p.city)
+  WHERE p.id = target_provider_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_search_on_provider_services ON provider_services;
+CREATE TRIGGER refresh_search_on_provider_services
+  AFTER INSERT OR UPDATE OR DELETE ON provider_services
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_provider_search_columns();
+
+DROP TRIGGER IF EXISTS refresh_search_on_provider_classes ON provider_classes;
+CREATE TRIGGER refresh_search_on_provider_classes
+  AFTER INSERT OR UPDATE OR DELETE ON provider_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_provider_search_columns();
+
+-- Free text -> "word1:* & word2:*", or NULL when nothing searchable is left
+CREATE OR REPLACE FUNCTION build_prefix_tsquery(search_query text)
+RETURNS tsquery AS $$
+  SELECT CASE
+    WHEN count(*) = 0 THEN NULL
+    ELSE to_tsquery('simple', string_agg(lexeme || ':*', ' & '))
+  END
+  FROM unnest(regexp_split_to_array(
+    lower(regexp_replace(coalesce(search_query, ''), '[^[:alnum:][:space:]]+', ' ', 'g')),
+    '\s+'
+  )) AS lexeme
+  WHERE lexeme <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION search_providers(search_query text, result_limit integer DEFAULT 50)
+RETURNS TABLE (provider_id uuid, rank real, match_type text) AS $$
+DECLARE
+  prefix_query tsquery := build_prefix_tsquery(search_query);
+  normalized_query text := lower(trim(coalesce(search_query, '')));
+BEGIN
+  IF prefix_query IS NOT NULL THEN
+    RETURN QUERY
+      SELECT p.id, ts_rank_cd(p.search_vector, prefix_query)::real, 'fulltext'::text
+      FROM providers p
+      WHERE p.is_published = true
+        AND p.status = 'approved'
+        AND p.search_vector @@ prefix_query
+      ORDER BY 2 DESC, p.business_name
+      LIMIT result_limit;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Nothing matched exactly: fall back to trigram similarity to tolerate typos
+  IF normalized_query <> '' THEN
+    RETURN QUERY
+      SELECT p.id, word_similarity(normalized_query, p.search_text)::real, 'fuzzy'::text
+      FROM providers p
+      WHERE p.is_published = true
+        AND p.status = 'approved'
+        AND normalized_query <% p.search_text
+      ORDER BY 2 DESC, p.business_name
+      LIMIT result_limit;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_providers(text, integer) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_providers_search_vector ON providers USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_providers_search_text_trgm ON providers USING gin(search_text gin_trgm_ops);
+
+-- Backfill existing providers
+UPDATE providers p
+SET
+  search_vector = provider_search_vector(p.id, p.business_name, p.area, p.city, p.description),
+  search_text = provider_search_text(p.id, p.business_name, p.area, p.city);
@@ -0,0 +1,53 @@
+/*
+  # Radius search for providers
+
+  1. Functions
+    - `providers_within_radius(origin_lat, origin_lng, radius_km, result_limit)` - published providers
+      within `radius_km` of a point, nearest first, with the great-circle distance in km
+    - Passing a NULL radius returns every published provider that has coordinates, still ordered by distance
+    - Providers without latitude/longitude are never returned, so they cannot be mistaken for nearby ones
+
+  2. Indexes
+    - Index on `providers(latitude, longitude)` for the bounding-box prefilter
+*/
+
+CREATE INDEX IF NOT EXISTS idx_providers_lat_lng ON providers(latitude, longitude)
+  WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION providers_within_radius(
+  origin_lat double precision,
+  origin_lng double precision,
+  radius_km double precision DEFAULT NULL,
+  result_limit integer DEFAULT 200
+)
+RETURNS TABLE (provider_id uuid, distance_km double precision) AS $$
+  SELECT nearby.id, nearby.distance_km
+  FROM (
+    SELECT
+      p.id,
+      -- Haversine distance, Earth radius 6371 km
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(p.latitude::double precision - origin_lat) / 2), 2) +
+        cos(radians(origin_lat)) * cos(radians(p.latitude::double precision)) *
+        power(sin(radians(p.longitude::double precision - origin_lng) / 2), 2)
+      )) AS distance_km
+    FROM providers p
+    WHERE p.is_published = true
+      AND p.status = 'approved'
+      AND p.latitude IS NOT NULL
+      AND p.longitude IS NOT NULL
+      -- Cheap bounding box (1 degree of latitude ~ 111 km) before the exact distance
+      AND (
+        radius_km IS NULL OR (
+          p.latitude BETWEEN origin_lat - radius_km / 111.045 AND origin_lat + radius_km / 111.045
+          AND p.longitude BETWEEN origin_lng - radius_km / (111.045 * cos(radians(origin_lat)))
+                              AND origin_lng + radius_km / (111.045 * cos(radians(origin_lat)))
+        )
+      )
+  ) nearby
+  WHERE radius_km IS NULL OR nearby.distance_km <= radius_km
+  ORDER BY nearby.distance_km
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION providers_within_radius(double precision, double precision, double precision, integer) TO authenticated;
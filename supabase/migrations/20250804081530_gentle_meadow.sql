@@ -0,0 +1,51 @@
+/*
+  # Parent wishlists
+
+  1. New Tables
+    - `wishlists`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - the parent who saved the provider
+      - `provider_id` (uuid) - the saved provider
+      - `created_at` (timestamp) - when the provider was saved
+      - A provider can be saved only once per parent
+
+  2. Security
+    - Enable RLS on `wishlists`
+    - Parents can read, add and remove only their own entries
+
+  3. Data
+    - Copy provider IDs from the unused `users.wishlist` jsonb column into `wishlists`
+*/
+
+CREATE TABLE IF NOT EXISTS wishlists (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider_id uuid NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, provider_id)
+);
+
+ALTER TABLE wishlists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own wishlist" ON wishlists
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add to own wishlist" ON wishlists
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove from own wishlist" ON wishlists
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_wishlists_user_id ON wishlists(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wishlists_provider_id ON wishlists(provider_id);
+
+-- Carry over anything saved in the old jsonb column
+INSERT INTO wishlists (user_id, provider_id)
+SELECT u.id, p.id
+FROM users u
+CROSS JOIN LATERAL jsonb_array_elements_text(coalesce(u.wishlist, '[]'::jsonb)) AS saved(provider_id)
+JOIN providers p ON p.id::text = saved.provider_id
+ON CONFLICT (user_id, provider_id) DO NOTHING;
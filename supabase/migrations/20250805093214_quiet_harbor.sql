@@ -0,0 +1,94 @@
+/*
+  # Enquiry submission rules and provider notifications
+
+  1. Validation (BEFORE INSERT on `enquiries`)
+    - `interested_class_id` must be an active class of the provider being enquired
+    - The same parent cannot send another enquiry to the same provider and class for the
+      same child within 15 minutes; the insert fails with a unique_violation (23505)
+
+  2. Notifications (AFTER INSERT on `enquiries`)
+    - Adds an `enquiry` notification for the provider's user account
+    - Runs as SECURITY DEFINER because parents cannot write other users' notifications
+
+  3. Indexes
+    - Index on `enquiries(parent_id, provider_id, created_at)` for the duplicate check
+*/
+
+CREATE OR REPLACE FUNCTION validate_enquiry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.interested_class_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM provider_classes pc
+    WHERE pc.id = NEW.interested_class_id
+      AND pc.provider_id = NEW.provider_id
+      AND pc.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Class % is not offered by this provider', NEW.interested_class_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialise concurrent submissions from the same parent to the same provider
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.parent_id::text || ':' || NEW.provider_id::text));
+
+  IF EXISTS (
+    SELECT 1
+    FROM enquiries e
+    WHERE e.parent_id = NEW.parent_id
+      AND e.provider_id = NEW.provider_id
+      AND e.interested_class_id IS NOT DISTINCT FROM NEW.interested_class_id
+      AND lower(e.child_name) = lower(NEW.child_name)
+      AND e.created_at > now() - interval '15 minutes'
+  ) THEN
+    RAISE EXCEPTION 'Duplicate enquiry'
+      USING ERRCODE = 'unique_violation',
+            HINT = 'An enquiry for this class and child was sent in the last 15 minutes';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_enquiries ON enquiries;
+CREATE TRIGGER validate_enquiries
+  BEFORE INSERT ON enquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_enquiry();
+
+CREATE OR REPLACE FUNCTION notify_provider_of_enquiry()
+RETURNS TRIGGER AS $$
+DECLARE
+  provider_user_id uuid;
+  class_name text;
+BEGIN
+  SELECT p.user_id INTO provider_user_id FROM providers p WHERE p.id = NEW.provider_id;
+
+  -- Providers added by an admin may not have an account yet
+  IF provider_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT pc.name INTO class_name FROM provider_classes pc WHERE pc.id = NEW.interested_class_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  VALUES (
+    provider_user_id,
+    'enquiry',
+    'New enquiry',
+    format('%s enquired about %s for %s (age %s)',
+      NEW.parent_name, coalesce(class_name, 'your classes'), NEW.child_name, NEW.child_age),
+    jsonb_build_object('enquiry_id', NEW.id, 'class_id', NEW.interested_class_id)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_provider_on_enquiry ON enquiries;
+CREATE TRIGGER notify_provider_on_enquiry
+  AFTER INSERT ON enquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_provider_of_enquiry();
+
+CREATE INDEX IF NOT EXISTS idx_enquiries_parent_provider_created
+  ON enquiries(parent_id, provider_id, created_at DESC);
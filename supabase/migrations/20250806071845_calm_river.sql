@@ -0,0 +1,41 @@
+/*
+  # Parents can close or withdraw their own enquiries
+
+  1. Security
+    - Parents can update their own enquiries, but only to mark them `closed`
+    - Parents can delete (withdraw) their own enquiries while the provider has not responded
+
+  2. Triggers
+    - `restrict_parent_enquiry_updates` keeps every other column unchanged when the parent,
+      rather than the provider, updates an enquiry
+*/
+
+CREATE POLICY "Parents can close their own enquiries" ON enquiries
+  FOR UPDATE TO authenticated
+  USING (parent_id = auth.uid())
+  WITH CHECK (parent_id = auth.uid() AND status = 'closed');
+
+CREATE POLICY "Parents can withdraw unanswered enquiries" ON enquiries
+  FOR DELETE TO authenticated
+  USING (parent_id = auth.uid() AND status = 'sent');
+
+CREATE OR REPLACE FUNCTION restrict_parent_enquiry_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.parent_id = auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM providers p WHERE p.id = OLD.provider_id AND p.user_id = auth.uid()
+  ) THEN
+    -- A parent may only close the enquiry; ignore changes to anything else
+    NEW := OLD;
+    NEW.status := 'closed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS restrict_parent_enquiry_updates ON enquiries;
+CREATE TRIGGER restrict_parent_enquiry_updates
+  BEFORE UPDATE ON enquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION restrict_parent_enquiry_updates();
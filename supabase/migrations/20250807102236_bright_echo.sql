@@ -0,0 +1,193 @@
+/*
+  # Threaded enquiry conversations
+
+  1. New Tables
+    - `enquiry_messages`
+      - `id` (uuid, primary key)
+      - `enquiry_id` (uuid) - the enquiry this message belongs to
+      - `sender_id` (uuid, optional) - author; NULL for replies migrated from providers without an account
+      - `sender_role` (text) - `parent` or `provider`
+      - `body` (text) - message text
+      - `created_at` (timestamp) - when the message was sent
+      - `read_at` (timestamp, optional) - when the other side first read it; NULL means unread
+
+  2. Data
+    - Each existing enquiry's `message` becomes the first message of its thread and its
+      `response` (if any) the second
+
+  3. Security
+    - Parents and the provider of an enquiry can read its thread
+    - Either side can post as themselves while the enquiry is not closed
+    - Read receipts are set only through `mark_enquiry_messages_read`, which marks the
+      other side's messages as read for the caller
+    - Withdrawing an enquiry is refused once the provider has replied in its thread
+
+  4. Triggers
+    - A new enquiry starts its thread with the enquiry message
+    - A provider message marks the enquiry `responded` (and mirrors it into `response`);
+      a parent follow-up puts it back to `sent` so it shows as awaiting a reply
+*/
+
+CREATE TABLE IF NOT EXISTS enquiry_messages (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  enquiry_id uuid NOT NULL REFERENCES enquiries(id) ON DELETE CASCADE,
+  sender_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  sender_role text NOT NULL CHECK (sender_role IN ('parent', 'provider')),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  created_at timestamptz DEFAULT now(),
+  read_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_enquiry_messages_enquiry_id ON enquiry_messages(enquiry_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_enquiry_messages_unread ON enquiry_messages(enquiry_id, sender_role)
+  WHERE read_at IS NULL;
+
+-- Backfill before the triggers below exist, so enquiry statuses are left as they are
+INSERT INTO enquiry_messages (enquiry_id, sender_id, sender_role, body, created_at, read_at)
+SELECT e.id, e.parent_id, 'parent', e.message, e.created_at,
+       CASE WHEN e.response IS NOT NULL THEN coalesce(e.response_at, e.created_at) END
+FROM enquiries e
+WHERE NOT EXISTS (SELECT 1 FROM enquiry_messages m WHERE m.enquiry_id = e.id)
+UNION ALL
+SELECT e.id, p.user_id, 'provider', e.response, coalesce(e.response_at, e.created_at), NULL
+FROM enquiries e
+JOIN providers p ON p.id = e.provider_id
+WHERE e.response IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM enquiry_messages m WHERE m.enquiry_id = e.id);
+
+ALTER TABLE enquiry_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view enquiry messages" ON enquiry_messages
+  FOR SELECT TO authenticated
+  USING (
+    enquiry_id IN (
+      SELECT e.id FROM enquiries e
+      WHERE e.parent_id = auth.uid()
+         OR e.provider_id IN (SELECT id FROM providers WHERE user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Parents can post to their open enquiries" ON enquiry_messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND sender_role = 'parent'
+    AND enquiry_id IN (
+      SELECT e.id FROM enquiries e
+      WHERE e.parent_id = auth.uid() AND e.status <> 'closed'
+    )
+  );
+
+CREATE POLICY "Providers can post to their open enquiries" ON enquiry_messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND sender_role = 'provider'
+    AND enquiry_id IN (
+      SELECT e.id FROM enquiries e
+      JOIN providers p ON p.id = e.provider_id
+      WHERE p.user_id = auth.uid() AND e.status <> 'closed'
+    )
+  );
+
+-- A follow-up moves a replied enquiry back to 'sent'; it must still not be withdrawable
+DROP POLICY IF EXISTS "Parents can withdraw unanswered enquiries" ON enquiries;
+CREATE POLICY "Parents can withdraw unanswered enquiries" ON enquiries
+  FOR DELETE TO authenticated
+  USING (
+    parent_id = auth.uid()
+    AND status = 'sent'
+    AND NOT EXISTS (
+      SELECT 1 FROM enquiry_messages m
+      WHERE m.enquiry_id = enquiries.id AND m.sender_role = 'provider'
+    )
+  );
+
+-- Start the thread with the enquiry text
+CREATE OR REPLACE FUNCTION start_enquiry_thread()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO enquiry_messages (enquiry_id, sender_id, sender_role, body, created_at)
+  VALUES (NEW.id, NEW.parent_id, 'parent', NEW.message, NEW.created_at);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS start_enquiry_thread ON enquiries;
+CREATE TRIGGER start_enquiry_thread
+  AFTER INSERT ON enquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION start_enquiry_thread();
+
+-- Keep the enquiry status in step with whose turn it is to reply
+CREATE OR REPLACE FUNCTION sync_enquiry_after_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.sender_role = 'provider' THEN
+    UPDATE enquiries
+    SET status = 'responded', response = NEW.body, response_at = NEW.created_at
+    WHERE id = NEW.enquiry_id AND status <> 'closed';
+  ELSE
+    UPDATE enquiries
+    SET status = 'sent'
+    WHERE id = NEW.enquiry_id AND status = 'responded';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_enquiry_after_message ON enquiry_messages;
+CREATE TRIGGER sync_enquiry_after_message
+  AFTER INSERT ON enquiry_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_enquiry_after_message();
+
+-- Parents may still only close enquiries directly; updates made by the thread triggers pass through
+CREATE OR REPLACE FUNCTION restrict_parent_enquiry_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 AND OLD.parent_id = auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM providers p WHERE p.id = OLD.provider_id AND p.user_id = auth.uid()
+  ) THEN
+    -- A parent may only close the enquiry; ignore changes to anything else
+    NEW := OLD;
+    NEW.status := 'closed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Mark the other side's messages in a thread as read by the caller; returns how many changed
+CREATE OR REPLACE FUNCTION mark_enquiry_messages_read(target_enquiry_id uuid)
+RETURNS integer AS $$
+DECLARE
+  reader_role text;
+  updated_count integer;
+BEGIN
+  SELECT CASE
+    WHEN e.parent_id = auth.uid() THEN 'parent'
+    WHEN EXISTS (SELECT 1 FROM providers p WHERE p.id = e.provider_id AND p.user_id = auth.uid()) THEN 'provider'
+  END
+  INTO reader_role
+  FROM enquiries e
+  WHERE e.id = target_enquiry_id;
+
+  IF reader_role IS NULL THEN
+    RAISE EXCEPTION 'Not a participant in this enquiry' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE enquiry_messages
+  SET read_at = now()
+  WHERE enquiry_id = target_enquiry_id
+    AND sender_role <> reader_role
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_enquiry_messages_read(uuid) TO authenticated;
@@ -0,0 +1,33 @@
+/*
+  # Realtime change feeds
+
+  1. Publication
+    - Adds `enquiries`, `enquiry_messages`, `bookings` and `notifications` to `supabase_realtime`
+      so clients can subscribe to row changes. Realtime applies each table's RLS policies,
+      so subscribers only receive rows they are allowed to select.
+
+  2. Replica identity
+    - `enquiries` and `bookings` use REPLICA IDENTITY FULL so UPDATE and DELETE events carry
+      the old row, which lets `provider_id` / `parent_id` filters match deletions too
+*/
+
+DO $$
+DECLARE
+  realtime_table text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH realtime_table IN ARRAY ARRAY['enquiries', 'enquiry_messages', 'bookings', 'notifications'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = realtime_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', realtime_table);
+    END IF;
+  END LOOP;
+END $$;
+
+ALTER TABLE enquiries REPLICA IDENTITY FULL;
+ALTER TABLE bookings REPLICA IDENTITY FULL;
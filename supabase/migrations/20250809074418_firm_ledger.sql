@@ -0,0 +1,169 @@
+/*
+  # Booking lifecycle
+
+  1. Security
+    - Parents can create bookings for themselves
+    - Parents can update their own bookings, but only to cancel them
+
+  2. Validation (BEFORE INSERT on `bookings`)
+    - `class_id` must be an active class of the provider being booked
+    - `enquiry_id`, when set, must be an enquiry between the same parent and provider
+    - New bookings always start as `pending` with payment `pending`; `total_amount` is always
+      the class price, whatever the client sends
+    - A child can only hold one pending or confirmed booking per class; a second one fails
+      with a unique_violation (23505)
+
+  3. State machine (BEFORE UPDATE on `bookings`)
+    - pending   -> confirmed | cancelled
+    - confirmed -> completed | cancelled
+    - cancelled and completed are final
+    - Only the provider can confirm or complete; a parent update keeps every column except
+      `status` unchanged
+
+  4. Notifications (AFTER INSERT OR UPDATE on `bookings`)
+    - Adds a `booking` notification for the other side whenever a booking is created or
+      changes status
+*/
+
+CREATE POLICY "Parents can create their own bookings" ON bookings
+  FOR INSERT TO authenticated
+  WITH CHECK (parent_id = auth.uid());
+
+CREATE POLICY "Parents can cancel their own bookings" ON bookings
+  FOR UPDATE TO authenticated
+  USING (parent_id = auth.uid())
+  WITH CHECK (parent_id = auth.uid() AND status = 'cancelled');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_active_child
+  ON bookings(parent_id, class_id, lower(child_name))
+  WHERE status IN ('pending', 'confirmed');
+
+CREATE INDEX IF NOT EXISTS idx_bookings_parent_id ON bookings(parent_id);
+
+CREATE OR REPLACE FUNCTION validate_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+  class_price decimal;
+BEGIN
+  SELECT pc.price INTO class_price
+  FROM provider_classes pc
+  WHERE pc.id = NEW.class_id
+    AND pc.provider_id = NEW.provider_id
+    AND pc.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class % is not offered by this provider', NEW.class_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.enquiry_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM enquiries e
+    WHERE e.id = NEW.enquiry_id
+      AND e.parent_id = NEW.parent_id
+      AND e.provider_id = NEW.provider_id
+  ) THEN
+    RAISE EXCEPTION 'Enquiry % does not belong to this booking', NEW.enquiry_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.status := 'pending';
+  NEW.payment_status := 'pending';
+  NEW.total_amount := class_price;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_bookings ON bookings;
+CREATE TRIGGER validate_bookings
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_booking();
+
+CREATE OR REPLACE FUNCTION enforce_booking_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_provider boolean;
+  requested_status text;
+BEGIN
+  -- Service-role updates (no auth.uid()) act on the provider's behalf
+  is_provider := auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM providers p WHERE p.id = OLD.provider_id AND p.user_id = auth.uid()
+  );
+
+  IF NOT is_provider THEN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'cancelled' THEN
+      RAISE EXCEPTION 'Only the provider can mark a booking %', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- A parent may only change the status; ignore changes to anything else
+    requested_status := NEW.status;
+    NEW := OLD;
+    NEW.status := requested_status;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'cancelled')) OR
+    (OLD.status = 'confirmed' AND NEW.status IN ('completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'A % booking cannot be marked %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_booking_transitions ON bookings;
+CREATE TRIGGER enforce_booking_transitions
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_booking_transition();
+
+CREATE OR REPLACE FUNCTION notify_booking_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  provider_user_id uuid;
+  recipient_id uuid;
+  class_name text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT p.user_id INTO provider_user_id FROM providers p WHERE p.id = NEW.provider_id;
+  SELECT pc.name INTO class_name FROM provider_classes pc WHERE pc.id = NEW.class_id;
+
+  -- Tell whichever side did not make the change
+  recipient_id := CASE WHEN auth.uid() = NEW.parent_id THEN provider_user_id ELSE NEW.parent_id END;
+
+  -- Providers added by an admin may not have an account yet
+  IF recipient_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  VALUES (
+    recipient_id,
+    'booking',
+    CASE NEW.status
+      WHEN 'pending' THEN 'New booking request'
+      WHEN 'confirmed' THEN 'Booking confirmed'
+      WHEN 'completed' THEN 'Booking completed'
+      ELSE 'Booking cancelled'
+    END,
+    format('%s for %s', coalesce(class_name, 'A class'), NEW.child_name),
+    jsonb_build_object('booking_id', NEW.id, 'class_id', NEW.class_id, 'status', NEW.status)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_on_booking_change ON bookings;
+CREATE TRIGGER notify_on_booking_change
+  AFTER INSERT OR UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_booking_change();
@@ -0,0 +1,393 @@
+/*
+  # Class capacity and waitlists
+
+  1. New Tables
+    - `class_waitlist`
+      - `id` (uuid, primary key)
+      - `class_id` (uuid) - the full class being waited on
+      - `provider_id` (uuid) - the class's provider
+      - `parent_id` (uuid) - the waiting parent
+      - `child_name`, `child_age` - the child the seat is for
+      - `status` (text) - waiting, offered, accepted, expired or withdrawn
+      - `offered_at`, `hold_expires_at` (timestamp) - when a freed seat was offered and until when it is held
+      - `booking_id` (uuid) - the booking created when the offer was accepted
+      - `created_at` (timestamp) - queue position
+      - A child can only be in one class's queue once at a time
+
+  2. Capacity
+    - A class's seats are taken by its confirmed bookings plus unexpired waitlist holds;
+      `batch_size` NULL means unlimited
+    - Confirming a booking locks the class row and fails with 'This class is full' when no
+      seat is left, so concurrent confirmations cannot over-book
+    - `get_class_availability` returns seats left and queue length for a set of classes
+
+  3. Waitlist
+    - `join_waitlist` adds the caller's child to the end of a full class's queue; classes with
+      free seats or no `batch_size`, and classes of unapproved or unpublished providers, are refused
+    - Whenever a seat frees up (a confirmed booking is cancelled, an offer is withdrawn or
+      expires, or `batch_size` grows) the oldest waiting entry is offered the seat and held
+      for 24 hours, and the parent is notified
+    - A parent accepts an offer by inserting a `confirmed` booking for the same class and
+      child while the hold is valid; any other new booking still starts as `pending`. Either
+      way `total_amount` is the class price
+    - Expired holds are released lazily by the steps above, and every 15 minutes by pg_cron
+      where the extension is installed
+    - `class_waitlist` is added to `supabase_realtime` so offers reach parents immediately
+
+  4. Security
+    - Parents can view their own queue entries and withdraw them
+    - Providers can view the queues for their classes
+*/
+
+CREATE TABLE IF NOT EXISTS class_waitlist (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  class_id uuid NOT NULL REFERENCES provider_classes(id) ON DELETE CASCADE,
+  provider_id uuid NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  parent_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  child_name text NOT NULL,
+  child_age integer NOT NULL,
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'accepted', 'expired', 'withdrawn')),
+  offered_at timestamptz,
+  hold_expires_at timestamptz,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_class_waitlist_active_child
+  ON class_waitlist(class_id, parent_id, lower(child_name))
+  WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX IF NOT EXISTS idx_class_waitlist_queue ON class_waitlist(class_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_class_waitlist_parent_id ON class_waitlist(parent_id);
+
+ALTER TABLE class_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view their own waitlist entries" ON class_waitlist
+  FOR SELECT TO authenticated
+  USING (parent_id = auth.uid());
+
+CREATE POLICY "Parents can leave waitlists" ON class_waitlist
+  FOR UPDATE TO authenticated
+  USING (parent_id = auth.uid() AND status IN ('waiting', 'offered'))
+  WITH CHECK (parent_id = auth.uid() AND status = 'withdrawn');
+
+CREATE POLICY "Providers can view waitlists for their classes" ON class_waitlist
+  FOR SELECT TO authenticated
+  USING (provider_id IN (SELECT id FROM providers WHERE user_id = auth.uid()));
+
+-- Confirmed bookings plus seats currently held for waitlisted parents
+CREATE OR REPLACE FUNCTION class_seats_taken(target_class_id uuid)
+RETURNS integer AS $$
+  SELECT (
+    SELECT count(*) FROM bookings b
+    WHERE b.class_id = target_class_id AND b.status = 'confirmed'
+  )::integer + (
+    SELECT count(*) FROM class_waitlist w
+    WHERE w.class_id = target_class_id AND w.status = 'offered' AND w.hold_expires_at > now()
+  )::integer;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Releases expired holds and offers free seats to the queue in order. Locks the class
+-- row, so it also serialises everything else that changes the class's seat count.
+CREATE OR REPLACE FUNCTION process_class_waitlist(target_class_id uuid)
+RETURNS void AS $$
+DECLARE
+  capacity integer;
+  free_seats integer;
+  entry record;
+  class_name text;
+BEGIN
+  SELECT pc.batch_size, pc.name INTO capacity, class_name
+  FROM provider_classes pc
+  WHERE pc.id = target_class_id
+  FOR UPDATE;
+
+  UPDATE class_waitlist
+  SET status = 'expired'
+  WHERE class_id = target_class_id
+    AND status = 'offered'
+    AND hold_expires_at <= now();
+
+  -- LIMIT NULL offers a seat to everyone waiting on an unlimited class
+  free_seats := CASE WHEN capacity IS NULL THEN NULL ELSE greatest(capacity - class_seats_taken(target_class_id), 0) END;
+
+  FOR entry IN
+    SELECT w.id, w.parent_id, w.child_name
+    FROM class_waitlist w
+    WHERE w.class_id = target_class_id AND w.status = 'waiting'
+    ORDER BY w.created_at, w.id
+    LIMIT free_seats
+  LOOP
+    UPDATE class_waitlist
+    SET status = 'offered',
+        offered_at = now(),
+        hold_expires_at = now() + interval '24 hours'
+    WHERE id = entry.id;
+
+    INSERT INTO notifications (user_id, type, title, message, data)
+    VALUES (
+      entry.parent_id,
+      'booking',
+      'A seat opened up',
+      format('A seat in %s is held for %s for the next 24 hours', coalesce(class_name, 'a class'), entry.child_name),
+      jsonb_build_object('waitlist_id', entry.id, 'class_id', target_class_id)
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION release_expired_waitlist_holds()
+RETURNS void AS $$
+DECLARE
+  expired_class_id uuid;
+BEGIN
+  FOR expired_class_id IN
+    SELECT DISTINCT w.class_id FROM class_waitlist w
+    WHERE w.status = 'offered' AND w.hold_expires_at <= now()
+  LOOP
+    PERFORM process_class_waitlist(expired_class_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_class_availability(class_ids uuid[])
+RETURNS TABLE (class_id uuid, batch_size integer, seats_left integer, waitlist_count integer) AS $$
+  SELECT
+    pc.id,
+    pc.batch_size,
+    CASE WHEN pc.batch_size IS NULL THEN NULL
+         ELSE greatest(pc.batch_size - class_seats_taken(pc.id), 0) END,
+    (SELECT count(*) FROM class_waitlist w WHERE w.class_id = pc.id AND w.status = 'waiting')::integer
+  FROM provider_classes pc
+  WHERE pc.id = ANY(class_ids);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION join_waitlist(target_class_id uuid, waiting_child_name text, waiting_child_age integer)
+RETURNS class_waitlist AS $$
+DECLARE
+  class_provider_id uuid;
+  capacity integer;
+  entry class_waitlist;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a waitlist' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT pc.provider_id, pc.batch_size INTO class_provider_id, capacity
+  FROM provider_classes pc
+  JOIN providers p ON p.id = pc.provider_id
+  WHERE pc.id = target_class_id
+    AND pc.is_active = true
+    AND p.status = 'approved'
+    AND p.is_published = true
+  FOR UPDATE OF pc;
+
+  IF class_provider_id IS NULL THEN
+    RAISE EXCEPTION 'Class % is not open for bookings', target_class_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Offers confirm without the provider, so only a class that is actually full can be queued for;
+  -- otherwise the parent books it and the provider confirms
+  IF capacity IS NULL OR class_seats_taken(target_class_id) < capacity THEN
+    RAISE EXCEPTION 'This class still has free seats; book it instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO class_waitlist (class_id, provider_id, parent_id, child_name, child_age)
+  VALUES (target_class_id, class_provider_id, auth.uid(), waiting_child_name, waiting_child_age)
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New bookings start as pending unless they take up a seat held for the parent's child
+CREATE OR REPLACE FUNCTION validate_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+  class_price decimal;
+BEGIN
+  SELECT pc.price INTO class_price
+  FROM provider_classes pc
+  WHERE pc.id = NEW.class_id
+    AND pc.provider_id = NEW.provider_id
+    AND pc.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class % is not offered by this provider', NEW.class_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.enquiry_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM enquiries e
+    WHERE e.id = NEW.enquiry_id
+      AND e.parent_id = NEW.parent_id
+      AND e.provider_id = NEW.provider_id
+  ) THEN
+    RAISE EXCEPTION 'Enquiry % does not belong to this booking', NEW.enquiry_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'confirmed' AND NOT EXISTS (
+    SELECT 1
+    FROM class_waitlist w
+    WHERE w.class_id = NEW.class_id
+      AND w.parent_id = NEW.parent_id
+      AND lower(w.child_name) = lower(NEW.child_name)
+      AND w.status = 'offered'
+      AND w.hold_expires_at > now()
+  ) THEN
+    RAISE EXCEPTION 'This seat is no longer held for %', NEW.child_name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.status := CASE WHEN NEW.status = 'confirmed' THEN 'confirmed' ELSE 'pending' END;
+  NEW.payment_status := 'pending';
+  NEW.total_amount := class_price;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Turns the held seat into the new booking
+CREATE OR REPLACE FUNCTION accept_waitlist_offer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'confirmed' THEN
+    UPDATE class_waitlist
+    SET status = 'accepted',
+        booking_id = NEW.id
+    WHERE class_id = NEW.class_id
+      AND parent_id = NEW.parent_id
+      AND lower(child_name) = lower(NEW.child_name)
+      AND status = 'offered';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS accept_waitlist_offers ON bookings;
+CREATE TRIGGER accept_waitlist_offers
+  AFTER INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION accept_waitlist_offer();
+
+CREATE OR REPLACE FUNCTION enforce_booking_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_provider boolean;
+  requested_status text;
+  capacity integer;
+BEGIN
+  -- Service-role updates (no auth.uid()) act on the provider's behalf
+  is_provider := auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM providers p WHERE p.id = OLD.provider_id AND p.user_id = auth.uid()
+  );
+
+  IF NOT is_provider THEN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'cancelled' THEN
+      RAISE EXCEPTION 'Only the provider can mark a booking %', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- A parent may only change the status; ignore changes to anything else
+    requested_status := NEW.status;
+    NEW := OLD;
+    NEW.status := requested_status;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'cancelled')) OR
+    (OLD.status = 'confirmed' AND NEW.status IN ('completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'A % booking cannot be marked %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+    -- Locks the class row and hands any free seats to the waitlist first
+    PERFORM process_class_waitlist(OLD.class_id);
+
+    SELECT pc.batch_size INTO capacity FROM provider_classes pc WHERE pc.id = OLD.class_id;
+
+    IF capacity IS NOT NULL AND class_seats_taken(OLD.class_id) >= capacity THEN
+      RAISE EXCEPTION 'This class is full'
+        USING ERRCODE = 'check_violation',
+              HINT = 'Cancel a confirmed booking or increase the batch size first';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION offer_seat_after_booking_cancelled()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'confirmed' AND NEW.status = 'cancelled' THEN
+    PERFORM process_class_waitlist(NEW.class_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS offer_seat_on_booking_cancel ON bookings;
+CREATE TRIGGER offer_seat_on_booking_cancel
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION offer_seat_after_booking_cancelled();
+
+CREATE OR REPLACE FUNCTION offer_seat_after_waitlist_withdrawal()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'offered' AND NEW.status = 'withdrawn' THEN
+    PERFORM process_class_waitlist(NEW.class_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS offer_seat_on_waitlist_withdrawal ON class_waitlist;
+CREATE TRIGGER offer_seat_on_waitlist_withdrawal
+  AFTER UPDATE OF status ON class_waitlist
+  FOR EACH ROW
+  EXECUTE FUNCTION offer_seat_after_waitlist_withdrawal();
+
+CREATE OR REPLACE FUNCTION offer_seats_after_capacity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.batch_size IS DISTINCT FROM OLD.batch_size THEN
+    PERFORM process_class_waitlist(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS offer_seats_on_capacity_change ON provider_classes;
+CREATE TRIGGER offer_seats_on_capacity_change
+  AFTER UPDATE OF batch_size ON provider_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION offer_seats_after_capacity_change();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('release-expired-waitlist-holds', '*/15 * * * *', 'SELECT release_expired_waitlist_holds()');
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'class_waitlist'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.class_waitlist;
+  END IF;
+END $$;
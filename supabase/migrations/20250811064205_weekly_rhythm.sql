@@ -0,0 +1,209 @@
+/*
+  # Structured class schedules
+
+  1. Changes
+    - `provider_classes.schedule` now holds
+      `{ timezone, slots: [{ weekday, start, end }], start_date, end_date, note }`
+      - `weekday` is one of mon..sun; `start`/`end` are 24-hour HH:MM wall-clock times in
+        `timezone`
+      - `start_date`/`end_date` (ISO dates, optional) bound fixed-period classes such as camps
+      - `note` keeps free text from older schedules that could not be parsed
+    - Existing `{ timing }`, `{ timings: [...] }` and array values are converted: strings like
+      'Mon 4-5 PM', 'Mon-Fri 5PM-7PM' or 'Mon-Wed-Fri 6AM-8AM' become slots in Asia/Kolkata,
+      anything else is kept in `note`
+
+  2. Validation (BEFORE INSERT OR UPDATE OF schedule on `provider_classes`)
+    - The timezone must be a known IANA zone
+    - Every slot needs a valid weekday and a start before its end
+    - Slots on the same day may not overlap
+    - `end_date` may not be before `start_date`
+*/
+
+-- Slots for one legacy schedule string, or NULL when it does not follow the day + time pattern
+CREATE OR REPLACE FUNCTION parse_legacy_schedule_text(entry text)
+RETURNS jsonb AS $$
+DECLARE
+  weekdays text[] := ARRAY['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+  parts text[];
+  day_names text[];
+  days text[];
+  start_meridiem text;
+  end_meridiem text;
+  start_time time;
+  end_time time;
+BEGIN
+  parts := regexp_match(
+    btrim(entry),
+    '^([a-z]{3}(?:\s*[-,/&]\s*[a-z]{3})*)\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*-\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)$',
+    'i'
+  );
+  IF parts IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  day_names := regexp_split_to_array(lower(parts[1]), '\s*[-,/&]\s*');
+  IF EXISTS (SELECT 1 FROM unnest(day_names) AS d WHERE d <> ALL (weekdays)) THEN
+    RETURN NULL;
+  END IF;
+
+  -- 'Mon-Fri' is a range; 'Mon-Wed-Fri' and 'Mon, Wed' are lists
+  IF array_length(day_names, 1) = 2 AND parts[1] ~* '^[a-z]{3}\s*-\s*[a-z]{3}$' THEN
+    IF array_position(weekdays, day_names[2]) < array_position(weekdays, day_names[1]) THEN
+      RETURN NULL;
+    END IF;
+    days := weekdays[array_position(weekdays, day_names[1]):array_position(weekdays, day_names[2])];
+  ELSE
+    days := day_names;
+  END IF;
+
+  IF parts[2]::int NOT BETWEEN 1 AND 12 OR parts[5]::int NOT BETWEEN 1 AND 12
+     OR coalesce(parts[3], '0')::int > 59 OR coalesce(parts[6], '0')::int > 59 THEN
+    RETURN NULL;
+  END IF;
+
+  -- '4-5 PM' shares the end meridiem, except where that would start after the end ('11-1 PM')
+  end_meridiem := upper(parts[7]);
+  start_meridiem := coalesce(upper(parts[4]), end_meridiem);
+  start_time := make_time(parts[2]::int % 12 + CASE WHEN start_meridiem = 'PM' THEN 12 ELSE 0 END, coalesce(parts[3], '0')::int, 0);
+  end_time := make_time(parts[5]::int % 12 + CASE WHEN end_meridiem = 'PM' THEN 12 ELSE 0 END, coalesce(parts[6], '0')::int, 0);
+
+  IF parts[4] IS NULL AND start_meridiem = 'PM' AND start_time >= end_time THEN
+    start_time := start_time - interval '12 hours';
+  END IF;
+  IF start_time >= end_time THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (
+    SELECT jsonb_agg(jsonb_build_object(
+      'weekday', d,
+      'start', to_char(start_time, 'HH24:MI'),
+      'end', to_char(end_time, 'HH24:MI')
+    ))
+    FROM unnest(days) AS d
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION legacy_schedule_to_structured(schedule jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  entries text[];
+  entry text;
+  parsed jsonb;
+  slots jsonb := '[]'::jsonb;
+  unparsed text[] := '{}';
+BEGIN
+  SELECT array_agg(btrim(value)) INTO entries
+  FROM (
+    SELECT CASE jsonb_typeof(item)
+             WHEN 'string' THEN item #>> '{}'
+             WHEN 'object' THEN item ->> 'timing'
+           END AS value
+    FROM jsonb_array_elements(
+      CASE
+        WHEN jsonb_typeof(schedule) = 'array' THEN schedule
+        WHEN jsonb_typeof(schedule -> 'timings') = 'array' THEN schedule -> 'timings'
+        WHEN jsonb_typeof(schedule) = 'object' THEN jsonb_build_array(schedule -> 'timing')
+        ELSE jsonb_build_array(schedule)
+      END
+    ) AS item
+  ) AS legacy
+  WHERE coalesce(btrim(value), '') <> '';
+
+  IF entries IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  FOREACH entry IN ARRAY entries LOOP
+    parsed := parse_legacy_schedule_text(entry);
+    IF parsed IS NULL THEN
+      unparsed := unparsed || entry;
+    ELSE
+      slots := slots || parsed;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'timezone', 'Asia/Kolkata',
+    'slots', (SELECT coalesce(jsonb_agg(DISTINCT item), '[]'::jsonb) FROM jsonb_array_elements(slots) AS item),
+    'start_date', NULL,
+    'end_date', NULL,
+    'note', nullif(array_to_string(unparsed, ', '), '')
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE provider_classes
+SET schedule = legacy_schedule_to_structured(schedule)
+WHERE schedule IS NOT NULL
+  AND NOT (jsonb_typeof(schedule) = 'object' AND jsonb_typeof(schedule -> 'slots') = 'array');
+
+DROP FUNCTION legacy_schedule_to_structured(jsonb);
+DROP FUNCTION parse_legacy_schedule_text(text);
+
+CREATE OR REPLACE FUNCTION validate_class_schedule()
+RETURNS TRIGGER AS $$
+DECLARE
+  slot jsonb;
+  time_pattern text := '^([01][0-9]|2[0-3]):[0-5][0-9]$';
+BEGIN
+  IF NEW.schedule IS NULL OR jsonb_typeof(NEW.schedule) = 'null' THEN
+    NEW.schedule := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(NEW.schedule) <> 'object' OR jsonb_typeof(NEW.schedule -> 'slots') IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Schedule must be an object with a list of slots'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.schedule ->> 'timezone') THEN
+    RAISE EXCEPTION 'Unknown schedule timezone: %', coalesce(NEW.schedule ->> 'timezone', '(none)')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR slot IN SELECT value FROM jsonb_array_elements(NEW.schedule -> 'slots') LOOP
+    IF coalesce(slot ->> 'weekday', '') NOT IN ('mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun') THEN
+      RAISE EXCEPTION 'Schedule slot has an invalid weekday: %', slot
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF coalesce(slot ->> 'start', '') !~ time_pattern OR coalesce(slot ->> 'end', '') !~ time_pattern THEN
+      RAISE EXCEPTION 'Schedule slot times must be HH:MM: %', slot
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF (slot ->> 'start')::time >= (slot ->> 'end')::time THEN
+      RAISE EXCEPTION 'Schedule slot must end after it starts: %', slot
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(NEW.schedule -> 'slots') WITH ORDINALITY AS a(session, idx)
+    JOIN jsonb_array_elements(NEW.schedule -> 'slots') WITH ORDINALITY AS b(session, idx)
+      ON a.idx < b.idx AND a.session ->> 'weekday' = b.session ->> 'weekday'
+    WHERE (a.session ->> 'start')::time < (b.session ->> 'end')::time
+      AND (b.session ->> 'start')::time < (a.session ->> 'end')::time
+  ) THEN
+    RAISE EXCEPTION 'Schedule slots on the same day overlap'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Casting rejects anything that is not a real calendar date
+  IF (NEW.schedule ->> 'start_date')::date > (NEW.schedule ->> 'end_date')::date THEN
+    RAISE EXCEPTION 'Schedule end date must be on or after its start date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_class_schedule_on_write ON provider_classes;
+CREATE TRIGGER validate_class_schedule_on_write
+  BEFORE INSERT OR UPDATE OF schedule ON provider_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_class_schedule();
@@ -0,0 +1,45 @@
+/*
+  # Day and time-slot class search
+
+  1. Functions
+    - `classes_matching_schedule(weekdays, time_bands)` - active classes of published providers
+      with at least one weekly slot on one of `weekdays` that starts in one of `time_bands`,
+      together with the slots that matched
+    - Time bands use the slot's start in the class's own timezone: `morning` before 12:00,
+      `afternoon` 12:00-16:59, `evening` from 17:00
+    - A NULL or empty array leaves that dimension unfiltered
+    - Fixed-period classes whose `end_date` has passed are not returned
+*/
+
+CREATE OR REPLACE FUNCTION classes_matching_schedule(
+  weekdays text[] DEFAULT NULL,
+  time_bands text[] DEFAULT NULL
+)
+RETURNS TABLE (class_id uuid, provider_id uuid, matching_slots jsonb) AS $$
+  SELECT
+    pc.id,
+    pc.provider_id,
+    jsonb_agg(slot ORDER BY array_position(ARRAY['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'], slot ->> 'weekday'), slot ->> 'start')
+  FROM provider_classes pc
+  JOIN providers p ON p.id = pc.provider_id
+  CROSS JOIN LATERAL jsonb_array_elements(pc.schedule -> 'slots') AS slot
+  WHERE pc.is_active = true
+    AND p.is_published = true
+    AND p.status = 'approved'
+    AND (
+      pc.schedule ->> 'end_date' IS NULL OR
+      (pc.schedule ->> 'end_date')::date >= (now() AT TIME ZONE (pc.schedule ->> 'timezone'))::date
+    )
+    AND (coalesce(cardinality(weekdays), 0) = 0 OR slot ->> 'weekday' = ANY (weekdays))
+    AND (
+      coalesce(cardinality(time_bands), 0) = 0 OR
+      CASE
+        WHEN (slot ->> 'start')::time < time '12:00' THEN 'morning'
+        WHEN (slot ->> 'start')::time < time '17:00' THEN 'afternoon'
+        ELSE 'evening'
+      END = ANY (time_bands)
+    )
+  GROUP BY pc.id, pc.provider_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION classes_matching_schedule(text[], text[]) TO authenticated;
@@ -0,0 +1,83 @@
+/*
+  # Numeric class age ranges
+
+  1. Changes
+    - `provider_classes.min_age` / `max_age` (years, inclusive); a NULL `max_age` means no upper
+      limit ("16+ years"), and both are NULL when the age range is unknown
+    - Existing `age_group` strings such as '6-12 years' or '16+ years' are parsed into the new
+      columns; strings without a recognisable range leave them NULL
+
+  2. Sync (BEFORE INSERT OR UPDATE on `provider_classes`)
+    - When `min_age` is set, `age_group` is rewritten as its display label ('6-12 years',
+      '16+ years'), so it always agrees with the numbers
+    - Writers that only send `age_group` still get `min_age`/`max_age` parsed from it
+
+  3. Indexes
+    - Index on `provider_classes(min_age, max_age)` for age searches
+*/
+
+ALTER TABLE provider_classes
+  ADD COLUMN IF NOT EXISTS min_age smallint,
+  ADD COLUMN IF NOT EXISTS max_age smallint;
+
+ALTER TABLE provider_classes
+  ADD CONSTRAINT provider_classes_age_range_check CHECK (
+    (min_age IS NULL AND max_age IS NULL) OR
+    (min_age BETWEEN 0 AND 25 AND (max_age IS NULL OR max_age BETWEEN min_age AND 25))
+  );
+
+CREATE OR REPLACE FUNCTION parse_age_group(age_group text, OUT min_age smallint, OUT max_age smallint) AS $$
+DECLARE
+  parts text[];
+BEGIN
+  parts := regexp_match(age_group, '(\d+)\s*(?:-|to)\s*(\d+)');
+  IF parts IS NOT NULL AND parts[1]::int <= parts[2]::int AND parts[2]::int <= 25 THEN
+    min_age := parts[1]::smallint;
+    max_age := parts[2]::smallint;
+    RETURN;
+  END IF;
+
+  parts := regexp_match(age_group, '(\d+)\s*\+');
+  IF parts IS NOT NULL AND parts[1]::int <= 25 THEN
+    min_age := parts[1]::smallint;
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE provider_classes
+SET (min_age, max_age) = (SELECT parsed.min_age, parsed.max_age FROM parse_age_group(age_group) AS parsed)
+WHERE min_age IS NULL;
+
+CREATE OR REPLACE FUNCTION sync_class_age_range()
+RETURNS TRIGGER AS $$
+DECLARE
+  parsed record;
+BEGIN
+  -- Only age_group changed (or was given on insert): take the range from the text
+  IF NEW.min_age IS NULL OR (
+    TG_OP = 'UPDATE' AND NEW.age_group IS DISTINCT FROM OLD.age_group
+    AND NEW.min_age IS NOT DISTINCT FROM OLD.min_age AND NEW.max_age IS NOT DISTINCT FROM OLD.max_age
+  ) THEN
+    parsed := parse_age_group(NEW.age_group);
+    NEW.min_age := parsed.min_age;
+    NEW.max_age := parsed.max_age;
+  END IF;
+
+  IF NEW.min_age IS NOT NULL THEN
+    NEW.age_group := CASE
+      WHEN NEW.max_age IS NULL THEN NEW.min_age || '+ years'
+      ELSE NEW.min_age || '-' || NEW.max_age || ' years'
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_class_age_range_on_write ON provider_classes;
+CREATE TRIGGER sync_class_age_range_on_write
+  BEFORE INSERT OR UPDATE ON provider_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_class_age_range();
+
+CREATE INDEX IF NOT EXISTS idx_provider_classes_age_range ON provider_classes(min_age, max_age);
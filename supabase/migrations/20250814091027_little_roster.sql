@@ -0,0 +1,140 @@
+/*
+  # Children of parent accounts
+
+  1. New Tables
+    - `children`
+      - `id` (uuid, primary key)
+      - `parent_id` (uuid) - the parent account the child belongs to
+      - `name` (text)
+      - `date_of_birth` (date) - ages are always computed from this, so they stay current
+      - `interests` (text[]) - service categories the child is interested in
+      - `notes` (text, optional) - anything providers should know (allergies, needs, ...)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - `enquiries.child_id` (uuid, optional) - the child an enquiry was sent for; `child_name` and
+      `child_age` stay as a snapshot of what the provider was told
+
+  3. Security
+    - Enable RLS on `children`
+    - Parents can read, add, update and remove only their own children
+    - An enquiry's `child_id` must be one of the enquiring parent's children
+
+  4. Data
+    - Children saved in the old `users.children` jsonb column are copied over. That column only
+      held an age, so the date of birth is estimated and flagged in `notes`
+*/
+
+CREATE TABLE IF NOT EXISTS children (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  parent_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  date_of_birth date NOT NULL CHECK (date_of_birth > date '1990-01-01'),
+  interests text[] NOT NULL DEFAULT '{}' CHECK (
+    interests <@ ARRAY['tuition', 'music', 'dance', 'sports', 'coding', 'art', 'daycare', 'camps']
+  ),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE children ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view own children" ON children
+  FOR SELECT TO authenticated
+  USING (parent_id = auth.uid());
+
+CREATE POLICY "Parents can add own children" ON children
+  FOR INSERT TO authenticated
+  WITH CHECK (parent_id = auth.uid());
+
+CREATE POLICY "Parents can update own children" ON children
+  FOR UPDATE TO authenticated
+  USING (parent_id = auth.uid())
+  WITH CHECK (parent_id = auth.uid());
+
+CREATE POLICY "Parents can remove own children" ON children
+  FOR DELETE TO authenticated
+  USING (parent_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_children_parent_id ON children(parent_id, date_of_birth);
+
+CREATE TRIGGER update_children_updated_at
+  BEFORE UPDATE ON children
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE enquiries
+  ADD COLUMN IF NOT EXISTS child_id uuid REFERENCES children(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_enquiries_child_id ON enquiries(child_id);
+
+CREATE OR REPLACE FUNCTION validate_enquiry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.interested_class_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM provider_classes pc
+    WHERE pc.id = NEW.interested_class_id
+      AND pc.provider_id = NEW.provider_id
+      AND pc.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Class % is not offered by this provider', NEW.interested_class_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.child_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM children c
+    WHERE c.id = NEW.child_id
+      AND c.parent_id = NEW.parent_id
+  ) THEN
+    RAISE EXCEPTION 'Child % does not belong to this parent', NEW.child_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialise concurrent submissions from the same parent to the same provider
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.parent_id::text || ':' || NEW.provider_id::text));
+
+  IF EXISTS (
+    SELECT 1
+    FROM enquiries e
+    WHERE e.parent_id = NEW.parent_id
+      AND e.provider_id = NEW.provider_id
+      AND e.interested_class_id IS NOT DISTINCT FROM NEW.interested_class_id
+      AND lower(e.child_name) = lower(NEW.child_name)
+      AND e.created_at > now() - interval '15 minutes'
+  ) THEN
+    RAISE EXCEPTION 'Duplicate enquiry'
+      USING ERRCODE = 'unique_violation',
+            HINT = 'An enquiry for this class and child was sent in the last 15 minutes';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Carry over children saved in the old jsonb column
+INSERT INTO children (parent_id, name, date_of_birth, interests, notes)
+SELECT
+  u.id,
+  btrim(saved.child ->> 'name'),
+  (current_date - make_interval(years => (saved.child ->> 'age')::int))::date,
+  coalesce(
+    ARRAY(
+      SELECT interest
+      FROM jsonb_array_elements_text(coalesce(saved.child -> 'interests', '[]'::jsonb)) AS interest
+      WHERE interest IN ('tuition', 'music', 'dance', 'sports', 'coding', 'art', 'daycare', 'camps')
+    ),
+    '{}'
+  ),
+  'Date of birth estimated from the age saved earlier - please update it.'
+FROM users u
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(u.children) = 'array' THEN u.children ELSE '[]'::jsonb END
+) AS saved(child)
+WHERE coalesce(btrim(saved.child ->> 'name'), '') <> ''
+  AND CASE
+        WHEN (saved.child ->> 'age') ~ '^\d{1,2}$' THEN (saved.child ->> 'age')::int BETWEEN 0 AND 25
+        ELSE false
+      END;
@@ -0,0 +1,61 @@
+/*
+  # Saved places for parents
+
+  1. New Tables
+    - `saved_places`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - the parent the place belongs to
+      - `label` (text) - e.g. Home, School, Grandparents; unique per parent, ignoring case
+      - `city`, `area` (text)
+      - `pincode` (text, optional)
+      - `latitude`, `longitude` (decimal, optional) - set together or not at all
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - `users.location` now holds the place the parent is currently browsing from (it was never
+      written before). It is a copy of the chosen place, including its `label`
+
+  3. Security
+    - Enable RLS on `saved_places`
+    - Parents can read, add, update and remove only their own places
+*/
+
+CREATE TABLE IF NOT EXISTS saved_places (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label text NOT NULL CHECK (btrim(label) <> ''),
+  city text NOT NULL,
+  area text NOT NULL,
+  pincode text,
+  latitude decimal,
+  longitude decimal,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+ALTER TABLE saved_places ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved places" ON saved_places
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add own saved places" ON saved_places
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own saved places" ON saved_places
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove own saved places" ON saved_places
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_places_user_label ON saved_places(user_id, lower(label));
+
+CREATE TRIGGER update_saved_places_updated_at
+  BEFORE UPDATE ON saved_places
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
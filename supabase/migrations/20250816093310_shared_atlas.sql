@@ -0,0 +1,222 @@
+/*
+  # Cities, areas and categories
+
+  1. New Tables
+    - `categories`
+      - `id` (text, primary key) - slug stored on provider services and child interests, e.g. `music`
+      - `name` (text) - short label for filters, e.g. "Music"
+      - `service_name` (text) - how providers describe the service, e.g. "Music Classes"
+      - `icon` (text) - emoji
+      - `color` (text) - Tailwind classes for badges
+      - `sort_order` (integer)
+    - `cities`
+      - `id` (uuid, primary key)
+      - `name` (text) - unique, ignoring case
+      - `latitude`, `longitude` (decimal) - city centre
+      - `sort_order` (integer)
+    - `areas`
+      - `id` (uuid, primary key)
+      - `city_id` (uuid) - city the area is in
+      - `name` (text) - unique within its city, ignoring case
+      - `pincode` (text, optional) - main 6-digit pincode
+      - `latitude`, `longitude` (decimal, optional) - area centroid
+
+  2. Changes
+    - `provider_services.category` references `categories` instead of a fixed list
+    - `children.interests` is checked against `categories` by a trigger instead of a fixed list
+
+  3. Security
+    - Enable RLS on all three tables; everyone can read them
+    - There are no write policies: new cities and areas are added from the admin screen, which
+      uses the service role
+
+  4. Data
+    - Seeded with the categories, cities and areas the app shipped with
+*/
+
+CREATE TABLE IF NOT EXISTS categories (
+  id text PRIMARY KEY CHECK (id ~ '^[a-z][a-z0-9_]*$'),
+  name text NOT NULL,
+  service_name text NOT NULL,
+  icon text NOT NULL DEFAULT '',
+  color text NOT NULL DEFAULT 'bg-gray-100 text-gray-800',
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS cities (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  latitude decimal NOT NULL,
+  longitude decimal NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS areas (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  city_id uuid NOT NULL REFERENCES cities(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  pincode text CHECK (pincode ~ '^\d{6}$'),
+  latitude decimal,
+  longitude decimal,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cities_name ON cities(lower(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_areas_city_name ON areas(city_id, lower(name));
+CREATE INDEX IF NOT EXISTS idx_areas_pincode ON areas(pincode);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE areas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories" ON categories
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view cities" ON cities
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view areas" ON areas
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+INSERT INTO categories (id, name, service_name, icon, color, sort_order) VALUES
+  ('tuition', 'Tuitions', 'Academic Tuitions', '📚', 'bg-blue-100 text-blue-800', 1),
+  ('music', 'Music', 'Music Classes', '🎵', 'bg-purple-100 text-purple-800', 2),
+  ('sports', 'Sports', 'Sports Training', '⚽', 'bg-green-100 text-green-800', 3),
+  ('coding', 'Coding', 'Coding / STEM', '💻', 'bg-orange-100 text-orange-800', 4),
+  ('dance', 'Dance', 'Dance Classes', '💃', 'bg-pink-100 text-pink-800', 5),
+  ('art', 'Art & Craft', 'Art & Craft', '🎨', 'bg-yellow-100 text-yellow-800', 6),
+  ('daycare', 'Daycare', 'Daycare / After-school', '🏠', 'bg-indigo-100 text-indigo-800', 7),
+  ('camps', 'Summer Camps', 'Summer Camps', '🏕️', 'bg-teal-100 text-teal-800', 8)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO cities (name, latitude, longitude, sort_order) VALUES
+  ('Delhi', 28.6139, 77.2090, 1),
+  ('Mumbai', 19.0760, 72.8777, 2),
+  ('Bangalore', 12.9716, 77.5946, 3),
+  ('Hyderabad', 17.3850, 78.4867, 4),
+  ('Chennai', 13.0827, 80.2707, 5),
+  ('Kolkata', 22.5726, 88.3639, 6),
+  ('Pune', 18.5204, 73.8567, 7),
+  ('Gurgaon', 28.4595, 77.0266, 8),
+  ('Noida', 28.5355, 77.3910, 9),
+  ('Ahmedabad', 23.0225, 72.5714, 10),
+  ('Jaipur', 26.9124, 75.7873, 11),
+  ('Lucknow', 26.8467, 80.9462, 12)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO areas (city_id, name, pincode, latitude, longitude)
+SELECT c.id, a.name, a.pincode, a.latitude, a.longitude
+FROM (VALUES
+  ('Delhi', 'Connaught Place', '110001', 28.6315, 77.2167),
+  ('Delhi', 'Karol Bagh', '110005', 28.6514, 77.1907),
+  ('Delhi', 'Lajpat Nagar', '110024', 28.5677, 77.2433),
+  ('Delhi', 'Saket', '110017', 28.5245, 77.2066),
+  ('Delhi', 'Dwarka', '110075', 28.5921, 77.0460),
+  ('Delhi', 'Rohini', '110085', 28.7383, 77.0822),
+  ('Mumbai', 'Bandra', '400050', 19.0596, 72.8295),
+  ('Mumbai', 'Andheri', '400053', 19.1136, 72.8697),
+  ('Mumbai', 'Powai', '400076', 19.1176, 72.9060),
+  ('Mumbai', 'Thane', '400601', 19.2183, 72.9781),
+  ('Mumbai', 'Navi Mumbai', '400703', 19.0330, 73.0297),
+  ('Mumbai', 'Borivali', '400066', 19.2307, 72.8567),
+  ('Bangalore', 'Koramangala', '560034', 12.9352, 77.6245),
+  ('Bangalore', 'Indiranagar', '560038', 12.9784, 77.6408),
+  ('Bangalore', 'Whitefield', '560066', 12.9698, 77.7500),
+  ('Bangalore', 'Electronic City', '560100', 12.8452, 77.6602),
+  ('Bangalore', 'HSR Layout', '560102', 12.9121, 77.6446),
+  ('Bangalore', 'Marathahalli', '560037', 12.9569, 77.7011),
+  ('Hyderabad', 'Hitech City', '500081', 17.4435, 78.3772),
+  ('Hyderabad', 'Banjara Hills', '500034', 17.4156, 78.4347),
+  ('Hyderabad', 'Jubilee Hills', '500033', 17.4326, 78.4071),
+  ('Hyderabad', 'Kondapur', '500084', 17.4619, 78.3647),
+  ('Hyderabad', 'Gachibowli', '500032', 17.4401, 78.3489),
+  ('Hyderabad', 'Secunderabad', '500003', 17.4399, 78.4983),
+  ('Chennai', 'T Nagar', '600017', 13.0418, 80.2341),
+  ('Chennai', 'Anna Nagar', '600040', 13.0850, 80.2101),
+  ('Chennai', 'Velachery', '600042', 12.9815, 80.2180),
+  ('Chennai', 'Adyar', '600020', 13.0012, 80.2565),
+  ('Chennai', 'Tambaram', '600045', 12.9249, 80.1000),
+  ('Chennai', 'OMR', '600119', 12.9010, 80.2279),
+  ('Kolkata', 'Park Street', '700016', 22.5535, 88.3520),
+  ('Kolkata', 'Salt Lake', '700091', 22.5867, 88.4171),
+  ('Kolkata', 'Ballygunge', '700019', 22.5280, 88.3659),
+  ('Kolkata', 'New Town', '700156', 22.5925, 88.4845),
+  ('Kolkata', 'Behala', '700034', 22.4986, 88.3102),
+  ('Kolkata', 'Dum Dum', '700028', 22.6218, 88.4219),
+  ('Kolkata', 'Howrah', '711101', 22.5958, 88.2636),
+  ('Kolkata', 'Rajarhat', '700135', 22.6200, 88.4700),
+  ('Pune', 'Koregaon Park', '411001', 18.5362, 73.8940),
+  ('Pune', 'Kothrud', '411038', 18.5074, 73.8077),
+  ('Pune', 'Baner', '411045', 18.5590, 73.7868),
+  ('Pune', 'Hinjewadi', '411057', 18.5912, 73.7389),
+  ('Pune', 'Wakad', '411057', 18.5990, 73.7620),
+  ('Pune', 'Viman Nagar', '411014', 18.5679, 73.9143),
+  ('Pune', 'Hadapsar', '411028', 18.5089, 73.9260),
+  ('Gurgaon', 'Sector 15', '122001', 28.4587, 77.0403),
+  ('Gurgaon', 'Sector 22', '122015', 28.5006, 77.0614),
+  ('Gurgaon', 'Phase 2', '122002', 28.4887, 77.0877),
+  ('Gurgaon', 'DLF City', '122002', 28.4717, 77.0993),
+  ('Gurgaon', 'Cyber City', '122002', 28.4950, 77.0895),
+  ('Gurgaon', 'Golf Course Road', '122011', 28.4433, 77.1006),
+  ('Noida', 'Sector 18', '201301', 28.5708, 77.3261),
+  ('Noida', 'Sector 50', '201301', 28.5722, 77.3633),
+  ('Noida', 'Sector 62', '201309', 28.6270, 77.3727),
+  ('Noida', 'Sector 76', '201304', 28.5670, 77.3858),
+  ('Noida', 'Sector 137', '201305', 28.5093, 77.4070),
+  ('Noida', 'Sector 135', '201304', 28.4940, 77.3960),
+  ('Noida', 'Greater Noida', '201310', 28.4744, 77.5040),
+  ('Ahmedabad', 'Navrangpura', '380009', 23.0365, 72.5611),
+  ('Ahmedabad', 'Satellite', '380015', 23.0300, 72.5176),
+  ('Ahmedabad', 'Vastrapur', '380015', 23.0370, 72.5293),
+  ('Ahmedabad', 'Prahlad Nagar', '380015', 23.0120, 72.5100),
+  ('Ahmedabad', 'Bopal', '380058', 23.0330, 72.4640),
+  ('Ahmedabad', 'Bodakdev', '380054', 23.0395, 72.5066),
+  ('Ahmedabad', 'Maninagar', '380008', 22.9962, 72.6029),
+  ('Ahmedabad', 'Chandkheda', '382424', 23.1090, 72.5850),
+  ('Jaipur', 'C Scheme', '302001', 26.9050, 75.8010),
+  ('Jaipur', 'Raja Park', '302004', 26.8990, 75.8266),
+  ('Jaipur', 'Malviya Nagar', '302017', 26.8530, 75.8047),
+  ('Jaipur', 'Mansarovar', '302020', 26.8530, 75.7636),
+  ('Jaipur', 'Vaishali Nagar', '302021', 26.9117, 75.7425),
+  ('Jaipur', 'Jagatpura', '302025', 26.8262, 75.8530),
+  ('Jaipur', 'Tonk Road', '302018', 26.8500, 75.8000),
+  ('Lucknow', 'Hazratganj', '226001', 26.8500, 80.9460),
+  ('Lucknow', 'Mahanagar', '226006', 26.8750, 80.9560),
+  ('Lucknow', 'Alambagh', '226005', 26.8140, 80.9060),
+  ('Lucknow', 'Gomti Nagar', '226010', 26.8500, 80.9920),
+  ('Lucknow', 'Indira Nagar', '226016', 26.8720, 80.9980),
+  ('Lucknow', 'Aminabad', '226018', 26.8460, 80.9270),
+  ('Lucknow', 'Aliganj', '226024', 26.8930, 80.9420)
+) AS a(city, name, pincode, latitude, longitude)
+JOIN cities c ON c.name = a.city
+ON CONFLICT DO NOTHING;
+
+-- Provider services and child interests now follow the categories table
+ALTER TABLE provider_services DROP CONSTRAINT IF EXISTS provider_services_category_check;
+ALTER TABLE provider_services
+  ADD CONSTRAINT provider_services_category_fkey FOREIGN KEY (category) REFERENCES categories(id);
+
+ALTER TABLE children DROP CONSTRAINT IF EXISTS children_interests_check;
+
+CREATE OR REPLACE FUNCTION validate_child_interests()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.interests <@ ARRAY(SELECT id FROM categories) THEN
+    RAISE EXCEPTION 'Unknown interest in %', NEW.interests
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_child_interests_on_write
+  BEFORE INSERT OR UPDATE OF interests ON children
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_child_interests();
@@ -0,0 +1,148 @@
+/*
+  # Subcategories
+
+  1. Changes
+    - `categories.parent_id` (text, optional) - the category a subcategory belongs to, e.g. `piano`
+      under `music`. Top-level categories have none. Categories can be nested further, but never
+      under themselves or one of their own subcategories
+    - `provider_services.category` already references `categories`, so providers can now list
+      subcategories as well as top-level categories
+    - `provider_classes.category` references `categories`, so a class can be filed under a
+      subcategory. A class's category is also listed in its provider's `provider_services`, so
+      the category filters find providers by the subcategories of their classes
+
+  2. Data
+    - Class categories saved as free text are matched to a category by id, name or service name,
+      falling back to one of the provider's listed categories. Any class still unmatched keeps its
+      value and the new foreign key is left unvalidated until it is fixed
+    - Seeded with subcategories under each of the eight top-level categories
+*/
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS parent_id text REFERENCES categories(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id, sort_order);
+
+CREATE OR REPLACE FUNCTION validate_category_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors(id, parent_id) AS (
+      SELECT id, parent_id FROM categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id FROM categories c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Category % cannot be placed under %', NEW.id, NEW.parent_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_category_parent_on_write
+  BEFORE INSERT OR UPDATE OF parent_id ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_category_parent();
+
+INSERT INTO categories (id, parent_id, name, service_name, icon, color, sort_order) VALUES
+  ('maths', 'tuition', 'Maths', 'Maths Tuition', '➗', 'bg-blue-100 text-blue-800', 1),
+  ('science', 'tuition', 'Science', 'Science Tuition', '🔬', 'bg-blue-100 text-blue-800', 2),
+  ('english', 'tuition', 'English', 'English Tuition', '📖', 'bg-blue-100 text-blue-800', 3),
+  ('languages', 'tuition', 'Languages', 'Language Classes', '🗣️', 'bg-blue-100 text-blue-800', 4),
+  ('piano', 'music', 'Piano', 'Piano Lessons', '🎹', 'bg-purple-100 text-purple-800', 1),
+  ('guitar', 'music', 'Guitar', 'Guitar Lessons', '🎸', 'bg-purple-100 text-purple-800', 2),
+  ('vocals', 'music', 'Vocals', 'Vocal Training', '🎤', 'bg-purple-100 text-purple-800', 3),
+  ('drums', 'music', 'Drums', 'Drum Lessons', '🥁', 'bg-purple-100 text-purple-800', 4),
+  ('swimming', 'sports', 'Swimming', 'Swimming Lessons', '🏊', 'bg-green-100 text-green-800', 1),
+  ('cricket', 'sports', 'Cricket', 'Cricket Coaching', '🏏', 'bg-green-100 text-green-800', 2),
+  ('football', 'sports', 'Football', 'Football Coaching', '🥅', 'bg-green-100 text-green-800', 3),
+  ('badminton', 'sports', 'Badminton', 'Badminton Coaching', '🏸', 'bg-green-100 text-green-800', 4),
+  ('chess', 'sports', 'Chess', 'Chess Coaching', '♟️', 'bg-green-100 text-green-800', 5),
+  ('scratch', 'coding', 'Scratch', 'Scratch Programming', '🧩', 'bg-orange-100 text-orange-800', 1),
+  ('python', 'coding', 'Python', 'Python Programming', '🐍', 'bg-orange-100 text-orange-800', 2),
+  ('robotics', 'coding', 'Robotics', 'Robotics', '🤖', 'bg-orange-100 text-orange-800', 3),
+  ('classical_dance', 'dance', 'Classical', 'Classical Dance', '🪷', 'bg-pink-100 text-pink-800', 1),
+  ('western_dance', 'dance', 'Western', 'Western Dance', '🕺', 'bg-pink-100 text-pink-800', 2),
+  ('ballet', 'dance', 'Ballet', 'Ballet', '🩰', 'bg-pink-100 text-pink-800', 3),
+  ('drawing', 'art', 'Drawing & Painting', 'Drawing & Painting', '🖌️', 'bg-yellow-100 text-yellow-800', 1),
+  ('pottery', 'art', 'Pottery', 'Pottery & Clay', '🏺', 'bg-yellow-100 text-yellow-800', 2),
+  ('crafts', 'art', 'Crafts', 'Crafts', '✂️', 'bg-yellow-100 text-yellow-800', 3),
+  ('after_school', 'daycare', 'After-school', 'After-school Care', '🎒', 'bg-indigo-100 text-indigo-800', 1),
+  ('creche', 'daycare', 'Creche', 'Creche', '🧸', 'bg-indigo-100 text-indigo-800', 2),
+  ('day_camps', 'camps', 'Day Camps', 'Day Camps', '☀️', 'bg-teal-100 text-teal-800', 1),
+  ('residential_camps', 'camps', 'Residential', 'Residential Camps', '⛺', 'bg-teal-100 text-teal-800', 2)
+ON CONFLICT (id) DO NOTHING;
+
+-- Class categories were free text before
+UPDATE provider_classes pc
+SET category = coalesce(
+  (
+    SELECT c.id
+    FROM categories c
+    WHERE lower(btrim(pc.category)) IN (c.id, lower(c.name), lower(c.service_name))
+    ORDER BY c.parent_id NULLS FIRST, c.sort_order
+    LIMIT 1
+  ),
+  (
+    SELECT ps.category
+    FROM provider_services ps
+    WHERE ps.provider_id = pc.provider_id
+    ORDER BY ps.created_at
+    LIMIT 1
+  ),
+  pc.category
+)
+WHERE NOT EXISTS (SELECT 1 FROM categories c WHERE c.id = pc.category);
+
+ALTER TABLE provider_classes
+  ADD CONSTRAINT provider_classes_category_fkey FOREIGN KEY (category) REFERENCES categories(id) NOT VALID;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM provider_classes pc
+    WHERE NOT EXISTS (SELECT 1 FROM categories c WHERE c.id = pc.category)
+  ) THEN
+    ALTER TABLE provider_classes VALIDATE CONSTRAINT provider_classes_category_fkey;
+  END IF;
+END;
+$$;
+
+-- The category filters match provider_services, so list every class's category there too
+CREATE OR REPLACE FUNCTION list_class_category()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO provider_services (provider_id, category)
+  SELECT NEW.provider_id, NEW.category
+  WHERE EXISTS (SELECT 1 FROM categories c WHERE c.id = NEW.category)
+    AND NOT EXISTS (
+      SELECT 1 FROM provider_services ps
+      WHERE ps.provider_id = NEW.provider_id AND ps.category = NEW.category
+    );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER list_provider_class_category
+  AFTER INSERT OR UPDATE OF category ON provider_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION list_class_category();
+
+INSERT INTO provider_services (provider_id, category)
+SELECT DISTINCT pc.provider_id, pc.category
+FROM provider_classes pc
+JOIN categories c ON c.id = pc.category
+WHERE NOT EXISTS (
+  SELECT 1 FROM provider_services ps
+  WHERE ps.provider_id = pc.provider_id AND ps.category = pc.category
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_services_category ON provider_services(category, provider_id);
@@ -0,0 +1,193 @@
+/*
+  # Reviews from completed bookings
+
+  1. Changes
+    - `providers.average_rating` (numeric) - mean review rating rounded to one decimal, 0 without reviews
+    - `providers.review_count` (integer)
+    - Both are kept current by a trigger on `reviews` and backfilled from existing reviews; writes
+      from the app keep the current values, so providers cannot change their own numbers
+    - `reviews.booking_id` is unique: one review per booking
+
+  2. Security
+    - Parents can only create reviews for their own completed bookings, replacing the policy that
+      only checked `parent_id`
+    - Parents can update or remove their own reviews
+
+  3. Validation (BEFORE INSERT OR UPDATE on `reviews`)
+    - The booking must be a completed booking of the same parent with the same provider
+    - `child_name` is taken from the booking and `is_verified` is set; new reviews start with
+      no helpful votes
+    - A parent updating their review can only change `rating` and `comment`
+
+  4. Notifications (AFTER INSERT on `reviews`)
+    - Adds a `review` notification for the provider
+*/
+
+ALTER TABLE providers
+  ADD COLUMN IF NOT EXISTS average_rating numeric(2, 1) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS review_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_providers_average_rating ON providers(average_rating DESC);
+
+-- Requests from the app run as anon or authenticated; refresh_provider_rating runs as the owner
+CREATE OR REPLACE FUNCTION protect_provider_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.average_rating := 0;
+    NEW.review_count := 0;
+  ELSE
+    NEW.average_rating := OLD.average_rating;
+    NEW.review_count := OLD.review_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_providers_rating ON providers;
+CREATE TRIGGER protect_providers_rating
+  BEFORE INSERT OR UPDATE ON providers
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_provider_rating();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_booking_id ON reviews(booking_id);
+
+DROP POLICY IF EXISTS "Parents can create reviews for their bookings" ON reviews;
+
+CREATE POLICY "Parents can create reviews for their bookings" ON reviews
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    parent_id = auth.uid() AND
+    EXISTS (
+      SELECT 1
+      FROM bookings b
+      WHERE b.id = booking_id
+        AND b.parent_id = auth.uid()
+        AND b.status = 'completed'
+    )
+  );
+
+CREATE POLICY "Parents can update own reviews" ON reviews
+  FOR UPDATE TO authenticated
+  USING (parent_id = auth.uid())
+  WITH CHECK (parent_id = auth.uid());
+
+CREATE POLICY "Parents can remove own reviews" ON reviews
+  FOR DELETE TO authenticated
+  USING (parent_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION validate_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  booked_child text;
+  new_rating integer;
+  new_comment text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- The parent may only change the rating and comment; ignore changes to anything else
+    IF auth.uid() = OLD.parent_id THEN
+      new_rating := NEW.rating;
+      new_comment := NEW.comment;
+      NEW := OLD;
+      NEW.rating := new_rating;
+      NEW.comment := new_comment;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT b.child_name INTO booked_child
+  FROM bookings b
+  WHERE b.id = NEW.booking_id
+    AND b.parent_id = NEW.parent_id
+    AND b.provider_id = NEW.provider_id
+    AND b.status = 'completed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reviews can only be left for a completed booking with this provider'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.child_name := booked_child;
+  NEW.is_verified := true;
+  NEW.helpful_count := 0;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_reviews ON reviews;
+CREATE TRIGGER validate_reviews
+  BEFORE INSERT OR UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_review();
+
+CREATE OR REPLACE FUNCTION refresh_provider_rating(p_provider_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE providers p
+  SET
+    average_rating = coalesce((SELECT round(avg(r.rating), 1) FROM reviews r WHERE r.provider_id = p.id), 0),
+    review_count = (SELECT count(*) FROM reviews r WHERE r.provider_id = p.id)
+  WHERE p.id = p_provider_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_provider_rating_on_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_provider_rating(OLD.provider_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.provider_id IS DISTINCT FROM OLD.provider_id THEN
+    PERFORM refresh_provider_rating(NEW.provider_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_rating_on_reviews ON reviews;
+CREATE TRIGGER refresh_rating_on_reviews
+  AFTER INSERT OR UPDATE OR DELETE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_provider_rating_on_review();
+
+CREATE OR REPLACE FUNCTION notify_new_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  provider_user_id uuid;
+BEGIN
+  SELECT p.user_id INTO provider_user_id FROM providers p WHERE p.id = NEW.provider_id;
+
+  -- Providers added by an admin may not have an account yet
+  IF provider_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  VALUES (
+    provider_user_id,
+    'review',
+    'New review',
+    format('%s rated you %s/5', NEW.parent_name, NEW.rating),
+    jsonb_build_object('review_id', NEW.id, 'booking_id', NEW.booking_id, 'rating', NEW.rating)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_on_new_review ON reviews;
+CREATE TRIGGER notify_on_new_review
+  AFTER INSERT ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_review();
+
+-- Backfill from reviews written before the trigger existed
+SELECT refresh_provider_rating(p.id) FROM providers p;
@@ -0,0 +1,59 @@
+/*
+  # Review sub-ratings
+
+  1. Changes
+    - `reviews.teaching_rating`, `communication_rating`, `facilities_rating` and `value_rating`
+      (integer, optional) - 1 to 5 ratings for teaching quality, communication, facilities and
+      value for money, alongside the overall `rating`
+
+  2. Validation
+    - `validate_review` now lets a parent updating their review change the sub-ratings as well as
+      `rating` and `comment`
+*/
+
+ALTER TABLE reviews
+  ADD COLUMN IF NOT EXISTS teaching_rating integer CHECK (teaching_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS communication_rating integer CHECK (communication_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS facilities_rating integer CHECK (facilities_rating BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS value_rating integer CHECK (value_rating BETWEEN 1 AND 5);
+
+CREATE OR REPLACE FUNCTION validate_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  booked_child text;
+  edited reviews%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- The parent may only change the ratings and comment; ignore changes to anything else
+    IF auth.uid() = OLD.parent_id THEN
+      edited := NEW;
+      NEW := OLD;
+      NEW.rating := edited.rating;
+      NEW.comment := edited.comment;
+      NEW.teaching_rating := edited.teaching_rating;
+      NEW.communication_rating := edited.communication_rating;
+      NEW.facilities_rating := edited.facilities_rating;
+      NEW.value_rating := edited.value_rating;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT b.child_name INTO booked_child
+  FROM bookings b
+  WHERE b.id = NEW.booking_id
+    AND b.parent_id = NEW.parent_id
+    AND b.provider_id = NEW.provider_id
+    AND b.status = 'completed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reviews can only be left for a completed booking with this provider'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.child_name := booked_child;
+  NEW.is_verified := true;
+  NEW.helpful_count := 0;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
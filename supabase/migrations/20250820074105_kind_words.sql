@@ -0,0 +1,179 @@
+/*
+  # Helpful votes and provider replies on reviews
+
+  1. New Tables
+    - `review_votes`
+      - `id` (uuid, primary key)
+      - `review_id` (uuid) - the review found helpful
+      - `parent_id` (uuid) - the parent who voted
+      - `created_at` (timestamp)
+      - A parent can vote for a review only once
+
+  2. Changes
+    - `reviews.helpful_count` is now the number of votes for the review, kept current by a trigger
+      on `review_votes`. Existing counts did not come from votes and are reset
+    - `reviews.reply` (text, optional) - the provider's public reply; one per review
+    - `reviews.replied_at` (timestamp, optional) - when the reply was last posted
+
+  3. Security
+    - Enable RLS on `review_votes`
+    - Parents can see, add and remove only their own votes, and cannot vote for their own reviews
+    - Providers can update reviews of their business, which `validate_review` limits to the reply
+
+  4. Validation (BEFORE UPDATE on `reviews`)
+    - A provider updating a review can only set `reply`, which must not be blank; `replied_at` is set
+      to the current time
+
+  5. Notifications (AFTER UPDATE OF reply on `reviews`)
+    - Adds a `review` notification for the parent when the provider first replies
+*/
+
+CREATE TABLE IF NOT EXISTS review_votes (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  review_id uuid NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  parent_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (review_id, parent_id)
+);
+
+ALTER TABLE review_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view own review votes" ON review_votes
+  FOR SELECT TO authenticated
+  USING (parent_id = auth.uid());
+
+CREATE POLICY "Parents can vote for other parents' reviews" ON review_votes
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    parent_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM users u WHERE u.id = auth.uid() AND u.role = 'parent') AND
+    NOT EXISTS (SELECT 1 FROM reviews r WHERE r.id = review_id AND r.parent_id = auth.uid())
+  );
+
+CREATE POLICY "Parents can remove own review votes" ON review_votes
+  FOR DELETE TO authenticated
+  USING (parent_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_review_votes_parent_id ON review_votes(parent_id);
+
+ALTER TABLE reviews
+  ADD COLUMN IF NOT EXISTS reply text,
+  ADD COLUMN IF NOT EXISTS replied_at timestamptz;
+
+CREATE POLICY "Providers can reply to reviews of their business" ON reviews
+  FOR UPDATE TO authenticated
+  USING (provider_id IN (SELECT id FROM providers WHERE user_id = auth.uid()))
+  WITH CHECK (provider_id IN (SELECT id FROM providers WHERE user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION validate_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  booked_child text;
+  edited reviews%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- The parent may only change the ratings and comment; ignore changes to anything else
+    IF auth.uid() = OLD.parent_id THEN
+      edited := NEW;
+      NEW := OLD;
+      NEW.rating := edited.rating;
+      NEW.comment := edited.comment;
+      NEW.teaching_rating := edited.teaching_rating;
+      NEW.communication_rating := edited.communication_rating;
+      NEW.facilities_rating := edited.facilities_rating;
+      NEW.value_rating := edited.value_rating;
+    -- The provider may only post their reply
+    ELSIF EXISTS (SELECT 1 FROM providers p WHERE p.id = OLD.provider_id AND p.user_id = auth.uid()) THEN
+      IF coalesce(btrim(NEW.reply), '') = '' THEN
+        RAISE EXCEPTION 'A reply cannot be empty'
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      edited := NEW;
+      NEW := OLD;
+      NEW.reply := btrim(edited.reply);
+      NEW.replied_at := now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT b.child_name INTO booked_child
+  FROM bookings b
+  WHERE b.id = NEW.booking_id
+    AND b.parent_id = NEW.parent_id
+    AND b.provider_id = NEW.provider_id
+    AND b.status = 'completed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reviews can only be left for a completed booking with this provider'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.child_name := booked_child;
+  NEW.is_verified := true;
+  NEW.helpful_count := 0;
+  NEW.reply := NULL;
+  NEW.replied_at := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_review_helpful_count()
+RETURNS TRIGGER AS $$
+DECLARE
+  voted_review_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    voted_review_id := OLD.review_id;
+  ELSE
+    voted_review_id := NEW.review_id;
+  END IF;
+
+  UPDATE reviews r
+  SET helpful_count = (SELECT count(*) FROM review_votes v WHERE v.review_id = r.id)
+  WHERE r.id = voted_review_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_helpful_count_on_votes ON review_votes;
+CREATE TRIGGER refresh_helpful_count_on_votes
+  AFTER INSERT OR DELETE ON review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_review_helpful_count();
+
+CREATE OR REPLACE FUNCTION notify_review_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+  provider_name text;
+BEGIN
+  IF OLD.reply IS NOT NULL OR NEW.reply IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT p.business_name INTO provider_name FROM providers p WHERE p.id = NEW.provider_id;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  VALUES (
+    NEW.parent_id,
+    'review',
+    'Reply to your review',
+    format('%s replied to your review', provider_name),
+    jsonb_build_object('review_id', NEW.id, 'provider_id', NEW.provider_id)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_on_review_reply ON reviews;
+CREATE TRIGGER notify_on_review_reply
+  AFTER UPDATE OF reply ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_review_reply();
+
+-- Counts written before votes were recorded can't be traced back to anyone
+UPDATE reviews r
+SET helpful_count = (SELECT count(*) FROM review_votes v WHERE v.review_id = r.id);
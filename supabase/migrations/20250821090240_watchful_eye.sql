@@ -0,0 +1,227 @@
+/*
+  # Abuse reports and moderation
+
+  1. New Tables
+    - `reports`
+      - `id` (uuid, primary key)
+      - `target_type` (text) - `review`, `media` (a `provider_media` row) or `provider`
+      - `target_id` (uuid) - the reported row
+      - `reason` (text) - `fake`, `inappropriate`, `unsafe`, `spam` or `other`
+      - `details` (text, optional) - what the reporter wants the moderators to know
+      - `reporter_id` (uuid) - the user who reported it
+      - `status` (text) - `open` until an admin decides, then `actioned` (the item was hidden) or
+        `dismissed`
+      - `created_at`, `resolved_at` (timestamp)
+      - A user can have only one open report per item
+    - `moderation_actions` - every moderation decision, newest last
+      - `id` (uuid, primary key)
+      - `target_type`, `target_id` - the item decided on
+      - `action` (text) - `hide`, `restore` or `dismiss`
+      - `note` (text, optional)
+      - `admin_id` (uuid, optional) - the admin who decided
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `reviews.is_hidden`, `provider_media.is_hidden` and `providers.is_hidden` (boolean, default
+      false). Hidden items are left out for everyone except their owner
+    - Hidden reviews no longer count towards `providers.average_rating` and `review_count`
+
+  3. Security
+    - Enable RLS on `reports` and `moderation_actions`
+    - Users can file reports and see their own; the queue and decisions are admin-only
+    - `is_hidden` can only be changed through `moderate_reported_item`; owners editing their rows
+      keep the current value, and new rows start visible
+
+  4. Moderation
+    - `moderate_reported_item(item_type, item_id, decision, decision_note)` hides, restores or
+      dismisses an item, closes its open reports and records the decision in `moderation_actions`
+*/
+
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  target_type text NOT NULL CHECK (target_type IN ('review', 'media', 'provider')),
+  target_id uuid NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('fake', 'inappropriate', 'unsafe', 'spam', 'other')),
+  details text,
+  reporter_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'actioned', 'dismissed')),
+  created_at timestamptz DEFAULT now(),
+  resolved_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_reporter
+  ON reports(reporter_id, target_type, target_id)
+  WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_reports_queue ON reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_reports_target ON reports(target_type, target_id);
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reports" ON reports
+  FOR SELECT TO authenticated
+  USING (reporter_id = auth.uid());
+
+CREATE POLICY "Users can file reports" ON reports
+  FOR INSERT TO authenticated
+  WITH CHECK (reporter_id = auth.uid() AND status = 'open');
+
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  target_type text NOT NULL CHECK (target_type IN ('review', 'media', 'provider')),
+  target_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('hide', 'restore', 'dismiss')),
+  note text,
+  admin_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_target ON moderation_actions(target_type, target_id, created_at);
+
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS is_hidden boolean NOT NULL DEFAULT false;
+ALTER TABLE provider_media ADD COLUMN IF NOT EXISTS is_hidden boolean NOT NULL DEFAULT false;
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS is_hidden boolean NOT NULL DEFAULT false;
+
+DROP POLICY IF EXISTS "Anyone can view reviews" ON reviews;
+CREATE POLICY "Anyone can view visible reviews" ON reviews
+  FOR SELECT TO authenticated
+  USING (NOT is_hidden OR parent_id = auth.uid());
+
+DROP POLICY IF EXISTS "Anyone can view media of approved providers" ON provider_media;
+CREATE POLICY "Anyone can view visible media of approved providers" ON provider_media
+  FOR SELECT TO authenticated
+  USING (NOT is_hidden AND provider_id IN (SELECT id FROM providers WHERE status = 'approved' AND NOT is_hidden));
+
+DROP POLICY IF EXISTS "Anyone can view approved providers" ON providers;
+CREATE POLICY "Anyone can view approved providers" ON providers
+  FOR SELECT TO authenticated
+  USING (status = 'approved' AND NOT is_hidden);
+
+-- Set by moderate_reported_item for the rest of its transaction
+CREATE OR REPLACE FUNCTION protect_hidden_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF coalesce(current_setting('app.moderating', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_hidden := false;
+  ELSE
+    NEW.is_hidden := OLD.is_hidden;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_reviews_hidden_flag ON reviews;
+CREATE TRIGGER protect_reviews_hidden_flag
+  BEFORE INSERT OR UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_hidden_flag();
+
+DROP TRIGGER IF EXISTS protect_provider_media_hidden_flag ON provider_media;
+CREATE TRIGGER protect_provider_media_hidden_flag
+  BEFORE INSERT OR UPDATE ON provider_media
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_hidden_flag();
+
+DROP TRIGGER IF EXISTS protect_providers_hidden_flag ON providers;
+CREATE TRIGGER protect_providers_hidden_flag
+  BEFORE INSERT OR UPDATE ON providers
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_hidden_flag();
+
+CREATE OR REPLACE FUNCTION validate_report()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT CASE NEW.target_type
+    WHEN 'review' THEN EXISTS (SELECT 1 FROM reviews r WHERE r.id = NEW.target_id)
+    WHEN 'media' THEN EXISTS (SELECT 1 FROM provider_media m WHERE m.id = NEW.target_id)
+    WHEN 'provider' THEN EXISTS (SELECT 1 FROM providers p WHERE p.id = NEW.target_id)
+    ELSE false
+  END THEN
+    RAISE EXCEPTION 'The reported % no longer exists', NEW.target_type
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  NEW.resolved_at := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS validate_reports ON reports;
+CREATE TRIGGER validate_reports
+  BEFORE INSERT ON reports
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_report();
+
+CREATE OR REPLACE FUNCTION moderate_reported_item(
+  item_type text,
+  item_id uuid,
+  decision text,
+  decision_note text DEFAULT NULL
+)
+RETURNS moderation_actions AS $$
+DECLARE
+  recorded moderation_actions;
+BEGIN
+  IF decision NOT IN ('hide', 'restore', 'dismiss') THEN
+    RAISE EXCEPTION 'Unknown moderation decision %', decision
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF decision IN ('hide', 'restore') THEN
+    PERFORM set_config('app.moderating', 'on', true);
+
+    IF item_type = 'review' THEN
+      UPDATE reviews SET is_hidden = (decision = 'hide') WHERE id = item_id;
+    ELSIF item_type = 'media' THEN
+      UPDATE provider_media SET is_hidden = (decision = 'hide') WHERE id = item_id;
+    ELSIF item_type = 'provider' THEN
+      UPDATE providers SET is_hidden = (decision = 'hide') WHERE id = item_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown report target %', item_type
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The reported % no longer exists', item_type
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    PERFORM set_config('app.moderating', 'off', true);
+  END IF;
+
+  UPDATE reports
+  SET status = CASE WHEN decision = 'hide' THEN 'actioned' ELSE 'dismissed' END,
+      resolved_at = now()
+  WHERE target_type = item_type AND target_id = item_id AND status = 'open';
+
+  INSERT INTO moderation_actions (target_type, target_id, action, note, admin_id)
+  VALUES (item_type, item_id, decision, nullif(btrim(decision_note), ''), auth.uid())
+  RETURNING * INTO recorded;
+
+  RETURN recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the admin console's service-role client may moderate
+REVOKE EXECUTE ON FUNCTION moderate_reported_item(text, uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION moderate_reported_item(text, uuid, text, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION refresh_provider_rating(p_provider_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE providers p
+  SET
+    average_rating = coalesce((
+      SELECT round(avg(r.rating), 1) FROM reviews r WHERE r.provider_id = p.id AND NOT r.is_hidden
+    ), 0),
+    review_count = (SELECT count(*) FROM reviews r WHERE r.provider_id = p.id AND NOT r.is_hidden)
+  WHERE p.id = p_provider_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
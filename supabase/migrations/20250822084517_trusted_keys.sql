@@ -0,0 +1,232 @@
+/*
+  # Admin accounts
+
+  1. Changes
+    - Admins are ordinary Supabase accounts whose `users.role` is `admin`. To make someone an admin,
+      have them sign in to the app once and then run
+      `UPDATE users SET role = 'admin' WHERE email = '...'` from the SQL editor
+    - `is_admin()` tells whether the signed-in user is an admin, for policies and the admin login
+
+  2. Security
+    - Users can no longer give themselves the admin role, or change their role at all
+    - Only admins can approve, verify or publish providers; providers' own inserts start pending
+      and their edits keep the current `status`, `is_verified` and `is_published`
+    - Only admins can review provider documents; providers' own edits keep the current verdict,
+      and admins' verdicts record who made them and when
+    - Admins can view, add, edit and delete every provider with its services, classes and media,
+      view and review provider documents and their files, view hidden reviews, reports and
+      moderation decisions, and add cities and areas
+    - `moderate_reported_item` is callable by signed-in admins instead of the service role
+*/
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+-- Requests from the app run as anon or authenticated; migrations, the SQL editor and
+-- SECURITY DEFINER functions run as the table owner and are trusted
+CREATE OR REPLACE FUNCTION protect_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role = 'admin' THEN
+      NEW.role := 'parent';
+    END IF;
+  ELSE
+    NEW.role := OLD.role;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_users_role ON users;
+CREATE TRIGGER protect_users_role
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_role();
+
+CREATE OR REPLACE FUNCTION protect_provider_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.is_verified := false;
+    NEW.is_published := false;
+  ELSE
+    NEW.status := OLD.status;
+    NEW.is_verified := OLD.is_verified;
+    NEW.is_published := OLD.is_published;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_providers_approval ON providers;
+CREATE TRIGGER protect_providers_approval
+  BEFORE INSERT OR UPDATE ON providers
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_provider_approval();
+
+CREATE OR REPLACE FUNCTION protect_document_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_admin() THEN
+    IF TG_OP = 'UPDATE' AND NEW.is_verified IS DISTINCT FROM OLD.is_verified THEN
+      NEW.verified_at := now();
+      NEW.verified_by := auth.uid();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_verified := false;
+    NEW.verification_notes := NULL;
+    NEW.verified_at := NULL;
+    NEW.verified_by := NULL;
+  ELSE
+    NEW.is_verified := OLD.is_verified;
+    NEW.verification_notes := OLD.verification_notes;
+    NEW.verified_at := OLD.verified_at;
+    NEW.verified_by := OLD.verified_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_provider_documents_review ON provider_documents;
+CREATE TRIGGER protect_provider_documents_review
+  BEFORE INSERT OR UPDATE ON provider_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_document_review();
+
+-- Providers: approval, rejection, admin-created listings and deletion
+CREATE POLICY "Admins can manage providers" ON providers
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can manage provider services" ON provider_services
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can manage provider classes" ON provider_classes
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can manage provider media" ON provider_media
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Document review
+CREATE POLICY "Admins can view provider documents" ON provider_documents
+  FOR SELECT TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can review provider documents" ON provider_documents
+  FOR UPDATE TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can view all provider documents" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'provider-documents' AND is_admin());
+
+-- Moderation
+CREATE POLICY "Admins can view all reviews" ON reviews
+  FOR SELECT TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view all reports" ON reports
+  FOR SELECT TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view moderation decisions" ON moderation_actions
+  FOR SELECT TO authenticated
+  USING (is_admin());
+
+-- Locations
+CREATE POLICY "Admins can add cities" ON cities
+  FOR INSERT TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can add areas" ON areas
+  FOR INSERT TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION moderate_reported_item(
+  item_type text,
+  item_id uuid,
+  decision text,
+  decision_note text DEFAULT NULL
+)
+RETURNS moderation_actions AS $$
+DECLARE
+  recorded moderation_actions;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can moderate reported items'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF decision NOT IN ('hide', 'restore', 'dismiss') THEN
+    RAISE EXCEPTION 'Unknown moderation decision %', decision
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF decision IN ('hide', 'restore') THEN
+    PERFORM set_config('app.moderating', 'on', true);
+
+    IF item_type = 'review' THEN
+      UPDATE reviews SET is_hidden = (decision = 'hide') WHERE id = item_id;
+    ELSIF item_type = 'media' THEN
+      UPDATE provider_media SET is_hidden = (decision = 'hide') WHERE id = item_id;
+    ELSIF item_type = 'provider' THEN
+      UPDATE providers SET is_hidden = (decision = 'hide') WHERE id = item_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown report target %', item_type
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The reported % no longer exists', item_type
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    PERFORM set_config('app.moderating', 'off', true);
+  END IF;
+
+  UPDATE reports
+  SET status = CASE WHEN decision = 'hide' THEN 'actioned' ELSE 'dismissed' END,
+      resolved_at = now()
+  WHERE target_type = item_type AND target_id = item_id AND status = 'open';
+
+  INSERT INTO moderation_actions (target_type, target_id, action, note, admin_id)
+  VALUES (item_type, item_id, decision, nullif(btrim(decision_note), ''), auth.uid())
+  RETURNING * INTO recorded;
+
+  RETURN recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION moderate_reported_item(text, uuid, text, text) TO authenticated;